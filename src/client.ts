@@ -1,5 +1,12 @@
-import type { AidenClientConfig, ApiResponse, ApiVersionInfo, ApiV1Index } from './core/types';
+import type { AidenClientConfig, ApiResponse, ApiVersionInfo, ApiV1Index, RequestOptions, ScopedRequestOptions } from './core/types';
 import { HttpClient } from './core/http-client';
+import type { CircuitBreaker } from './core/circuit-breaker';
+import type { RequestLimiter } from './core/limiter';
+import type { ResponseCache } from './core/cache';
+import type { QuotaTracker } from './core/quota';
+import { VersionMismatchError } from './core/errors';
+import { SUPPORTED_CONTRACT_VERSIONS, isContractSupported } from './core/versioning';
+import type { VersionCheckMode, VersionCheckResult } from './core/versioning';
 import { OpenAIClient } from './openai/client';
 import { KnowledgeApi } from './domains/knowledge';
 import { NotebooksApi } from './domains/notebooks';
@@ -50,15 +57,16 @@ export class AidenClient {
   readonly context: ContextApi;
   readonly tenantAdmin: TenantAdminApi;
 
-  constructor(config: AidenClientConfig) {
-    if (!config.apiKey) {
-      throw new Error('AidenClient requires apiKey (Bearer token).');
+  /** `http` is used by `withOptions()` to share the parent's transport. */
+  constructor(config: AidenClientConfig, http?: HttpClient) {
+    if (!config.apiKey && !config.auth) {
+      throw new Error('AidenClient requires apiKey (Bearer token) or an auth provider.');
     }
     if (!config.baseUrl) {
       throw new Error('AidenClient requires baseUrl (external API origin, e.g. https://ext-api.example.com).');
     }
 
-    this.http = new HttpClient(config);
+    this.http = http ?? new HttpClient(config);
 
     this.openai = new OpenAIClient(this.http);
     this.knowledge = new KnowledgeApi(this.http);
@@ -81,15 +89,91 @@ export class AidenClient {
     this.voice = new VoiceApi(this.http);
     this.context = new ContextApi(this.http);
     this.tenantAdmin = new TenantAdminApi(this.http);
+
+    if (!http && config.versionCheck) this.startVersionCheck(config.versionCheck);
+  }
+
+  /**
+   * Lightweight client applying `options` to every call, e.g. one per end user:
+   * `client.withOptions({ userId })`. Caches, limiter, breaker, metrics and middleware are shared
+   * with this client; per-call options still win.
+   */
+  withOptions(options: ScopedRequestOptions): AidenClient {
+    return new AidenClient(this.http.config, this.http.scoped(options));
+  }
+
+  /** Breaker shared by all domain clients (when `circuitBreaker` is configured). */
+  get circuitBreaker(): CircuitBreaker | undefined {
+    return this.http.circuitBreaker;
+  }
+
+  /** Request queue shared by all domain clients (when `limiter` is configured). */
+  get limiter(): RequestLimiter | undefined {
+    return this.http.limiter;
+  }
+
+  /** Response cache shared by all domain clients (when `cache` is configured). */
+  get cache(): ResponseCache | undefined {
+    return this.http.cache;
+  }
+
+  /** Latest rate-limit quota per route group, from the headers of every response. */
+  get quota(): QuotaTracker {
+    return this.http.quota;
   }
 
   /** Public metadata — `GET /api/version` */
-  async version(): Promise<ApiResponse<ApiVersionInfo>> {
-    return this.http.request<ApiVersionInfo>({ method: 'GET', path: '/api/version' });
+  async version(options?: RequestOptions): Promise<ApiResponse<ApiVersionInfo>> {
+    return this.http.request<ApiVersionInfo>({ method: 'GET', path: '/api/version', ...options });
+  }
+
+  /**
+   * Compares the server's `contractVersion` with `SUPPORTED_CONTRACT_VERSIONS`. A mismatch is logged
+   * (`'warn'`) or rejected with `VersionMismatchError` (`'throw'`).
+   */
+  async checkVersion(mode: VersionCheckMode = 'warn', options?: RequestOptions): Promise<VersionCheckResult> {
+    const { data } = await this.version(options);
+    const range = { ...SUPPORTED_CONTRACT_VERSIONS };
+    const result: VersionCheckResult = {
+      contractVersion: data.contractVersion,
+      supported: isContractSupported(data.contractVersion),
+      range,
+      deprecationPolicy: data.deprecationPolicy,
+    };
+    if (!result.supported) {
+      const error = new VersionMismatchError(data.contractVersion, range);
+      if (mode === 'throw') throw error;
+      this.http.notice('aiden.version', error.message, { contractVersion: data.contractVersion, range });
+    }
+    return result;
+  }
+
+  /**
+   * `versionCheck`: runs the check once in the background. In `'throw'` mode calls wait for it and
+   * reject on a mismatch; a check that cannot reach the server is only logged.
+   */
+  private startVersionCheck(mode: VersionCheckMode): void {
+    const check = this.checkVersion(mode).then(
+      () => undefined,
+      (error: unknown) => {
+        if (error instanceof VersionMismatchError) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        this.http.notice('aiden.version', `Contract version check failed: ${message}`, { error: message });
+      },
+    );
+    check.catch(() => undefined);
+    if (mode === 'throw') {
+      this.http.use({
+        name: 'versionCheck',
+        onRequest: async (ctx) => {
+          if (ctx.path !== '/api/version') await check;
+        },
+      });
+    }
   }
 
   /** Authenticated route index — `GET /api/v1` */
-  async apiV1Index(): Promise<ApiResponse<ApiV1Index>> {
-    return this.http.request<ApiV1Index>({ method: 'GET', path: '/api/v1' });
+  async apiV1Index(options?: RequestOptions): Promise<ApiResponse<ApiV1Index>> {
+    return this.http.request<ApiV1Index>({ method: 'GET', path: '/api/v1', ...options });
   }
 }
@@ -0,0 +1,24 @@
+/**
+ * `AbortSignal` helpers shared by the request pipeline.
+ */
+
+/** The reason a signal aborted with, defaulting to the standard `AbortError` `DOMException`. */
+export function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+/** Signal that aborts with the reason of whichever of `signals` aborts first. */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  if (signals.length === 1) return signals[0]!;
+  if (typeof AbortSignal.any === 'function') return AbortSignal.any(signals);
+  // Node 18 fallback.
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(abortReason(signal));
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(abortReason(signal)), { once: true });
+  }
+  return controller.signal;
+}
@@ -0,0 +1,99 @@
+/**
+ * Pluggable credentials (`AidenClientConfig.auth`): a provider asked for a bearer token on every
+ * request, refreshed once when a request fails with 401.
+ */
+
+export interface AuthProvider {
+  /** Bearer token for the next request. Called per request; cache inside the provider as needed. */
+  getToken(): string | Promise<string>;
+  /** Called after a 401: drop any cached token and return a fresh one (default: `getToken()` again). */
+  refresh?(): string | Promise<string>;
+}
+
+/** A provider object, or a function returning the token. */
+export type AuthSource = AuthProvider | (() => string | Promise<string>);
+
+export interface CachedAuthOptions {
+  /** How long a fetched token is reused (default: until `expiresAt`, or 5 minutes). */
+  ttlMs?: number;
+  /** Refetch this long before `expiresAt` (default `30_000`). */
+  refreshSkewMs?: number;
+}
+
+/** What `cachedAuth` fetchers return: a token, or a token with its expiry (epoch ms). */
+export type FetchedToken = string | { token: string; expiresAt?: number };
+
+/**
+ * Provider that reuses a fetched token until it expires and refetches on 401; concurrent callers
+ * share one in-flight fetch.
+ *
+ * ```ts
+ * auth: cachedAuth(async () => {
+ *   const secret = await secrets.get('aiden/api-key');
+ *   return { token: secret.value, expiresAt: secret.rotatesAt };
+ * })
+ * ```
+ */
+export function cachedAuth(fetchToken: () => Promise<FetchedToken>, options: CachedAuthOptions = {}): AuthProvider {
+  const skew = options.refreshSkewMs ?? 30_000;
+  let cached: { token: string; validUntil: number } | undefined;
+  let inflight: Promise<string> | undefined;
+
+  const load = (): Promise<string> => {
+    inflight ??= fetchToken()
+      .then((fetched) => {
+        const { token, expiresAt } = typeof fetched === 'string' ? { token: fetched, expiresAt: undefined } : fetched;
+        const validUntil =
+          expiresAt !== undefined && options.ttlMs === undefined ? expiresAt - skew : Date.now() + (options.ttlMs ?? 300_000);
+        cached = { token, validUntil };
+        return token;
+      })
+      .finally(() => {
+        inflight = undefined;
+      });
+    return inflight;
+  };
+
+  return {
+    getToken: () => (cached && cached.validUntil > Date.now() ? cached.token : load()),
+    refresh: () => {
+      cached = undefined;
+      return load();
+    },
+  };
+}
+
+/**
+ * Resolves tokens for `HttpClient` and makes sure that several requests failing with 401 on the
+ * same token trigger a single `refresh()`.
+ */
+export class AuthManager {
+  private readonly provider: AuthProvider;
+  private refreshing?: Promise<string>;
+  private replaced?: { stale: string; fresh: string };
+
+  constructor(source: AuthSource) {
+    this.provider = typeof source === 'function' ? { getToken: source } : source;
+  }
+
+  async token(): Promise<string> {
+    return this.refreshing ?? this.provider.getToken();
+  }
+
+  /** Fresh token after `stale` was rejected; joins a refresh in flight or reuses its result. */
+  async refresh(stale: string): Promise<string> {
+    if (this.refreshing) return this.refreshing;
+    if (this.replaced?.stale === stale) return this.replaced.fresh;
+
+    const provider = this.provider;
+    this.refreshing = Promise.resolve(provider.refresh ? provider.refresh() : provider.getToken())
+      .then((fresh) => {
+        this.replaced = { stale, fresh };
+        return fresh;
+      })
+      .finally(() => {
+        this.refreshing = undefined;
+      });
+    return this.refreshing;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Pass-through wrappers for streamed response bodies, used to observe a stream until it ends
+ * without buffering it.
+ *
+ * `AidenStream` / `OpenAIChatStream` report deltas and their own end (an OpenAI stream stops at
+ * `[DONE]` without draining the body) through `reportStreamDelta` / `reportStreamEnd`; the reports
+ * reach the taps of the response they read and of every response it wraps.
+ */
+
+export type BodyOutcome = 'complete' | 'cancelled' | 'error';
+
+export interface BodyTap {
+  /** Each chunk as it is read by the consumer. */
+  onChunk?(chunk: Uint8Array): void;
+  /** Each delta event parsed by a stream reader. */
+  onDelta?(): void;
+  /** Once, when the body is fully read, cancelled by the consumer or fails. */
+  onEnd?(outcome: BodyOutcome, error?: unknown): void;
+}
+
+interface TapLink {
+  tap: BodyTap;
+  end(outcome: BodyOutcome, error?: unknown): void;
+  /** The response that was wrapped. */
+  source: Response;
+}
+
+const links = new WeakMap<Response, TapLink>();
+
+/** Copy of `response` whose body reports to `tap`; responses without a body are returned as is. */
+export function tapBody(response: Response, tap: BodyTap): Response {
+  if (!response.body) return response;
+
+  const reader = response.body.getReader();
+  let ended = false;
+  const end = (outcome: BodyOutcome, error?: unknown) => {
+    if (ended) return;
+    ended = true;
+    tap.onEnd?.(outcome, error);
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        end('error', error);
+        controller.error(error);
+        return;
+      }
+      if (result.done) {
+        end('complete');
+        controller.close();
+        return;
+      }
+      tap.onChunk?.(result.value);
+      controller.enqueue(result.value);
+    },
+    cancel(reason) {
+      end('cancelled', reason);
+      return reader.cancel(reason);
+    },
+  });
+  return link(response, body, { tap, end, source: response });
+}
+
+/**
+ * Copy of `response` reading `body` instead; reports still reach the taps of `response`. `onEnd` runs
+ * when a stream reader reports that it stopped reading (e.g. at `[DONE]`, or on `break`).
+ */
+export function replaceBody(
+  response: Response,
+  body: ReadableStream<Uint8Array>,
+  onEnd: (outcome: BodyOutcome, error?: unknown) => void = () => undefined,
+): Response {
+  return link(response, body, { tap: {}, end: onEnd, source: response });
+}
+
+function link(response: Response, body: ReadableStream<Uint8Array>, entry: TapLink): Response {
+  const wrapped = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  links.set(wrapped, entry);
+  return wrapped;
+}
+
+/** A stream reader parsed a delta event from `response`. */
+export function reportStreamDelta(response: Response): void {
+  for (let link = links.get(response); link; link = links.get(link.source)) {
+    link.tap.onDelta?.();
+  }
+}
+
+/** A stream reader stopped reading `response` (finished, stopped early or failed). */
+export function reportStreamEnd(response: Response, outcome: BodyOutcome, error?: unknown): void {
+  for (let link = links.get(response); link; link = links.get(link.source)) {
+    link.end(outcome, error);
+  }
+}
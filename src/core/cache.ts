@@ -0,0 +1,180 @@
+/**
+ * Response cache for read-mostly GET routes (`AidenClientConfig.cache`): per-route TTLs, revalidation
+ * with `ETag` / `Last-Modified`, and a pluggable store. Entries are keyed by a hash of the
+ * `Authorization` header plus `X-User-ID`, so tenants and users never share them.
+ */
+
+import { routeTemplate } from './routes';
+
+export interface CacheEntry {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  /** Epoch ms after which the entry must be revalidated. */
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/** Storage backend (memory, Redis, …). Methods may be sync or async. */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/** Routes cached by `cache: true`, with their TTL in ms. */
+export const DEFAULT_CACHE_ROUTES: Readonly<Record<string, number>> = {
+  '/api/v1/models': 300_000,
+  '/api/v1/knowledge/chat/capabilities': 300_000,
+  '/api/v1/skills/nodes': 300_000,
+  '/api/v1/skills/nodes/meta/categories': 300_000,
+  '/api/v1/slides/themes': 300_000,
+  '/api/v1/credentials/meta/types': 300_000,
+};
+
+export interface ResponseCacheOptions {
+  /** Backend for entries (default: `MemoryCacheStore`). */
+  store?: CacheStore;
+  /**
+   * TTL in ms per GET route template (see `SDK_ROUTES`), merged over `DEFAULT_CACHE_ROUTES`;
+   * `0` disables caching for a default route.
+   */
+  routes?: Record<string, number>;
+}
+
+/** In-process LRU store. */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((h) => h.toLowerCase() === lower);
+  return key === undefined ? undefined : headers[key];
+}
+
+async function sha256(text: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    // Node.js 18 has no global Web Crypto without a flag.
+    const { createHash } = await import('node:crypto');
+    return createHash('sha256').update(text).digest('hex');
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export class ResponseCache {
+  readonly store: CacheStore;
+  private readonly routes: Record<string, number>;
+  private readonly hashes = new Map<string, Promise<string>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.routes = { ...DEFAULT_CACHE_ROUTES, ...options.routes };
+  }
+
+  /** TTL for a request, or `undefined` when it is not cacheable. */
+  ttl(method: string, path: string): number | undefined {
+    if (method !== 'GET') return undefined;
+    const ttl = this.routes[routeTemplate(method, path)];
+    return ttl && ttl > 0 ? ttl : undefined;
+  }
+
+  /** Store key for a request: credential hash, user and full URL. */
+  async key(url: string, headers: Record<string, string>): Promise<string> {
+    const credential = header(headers, 'authorization') ?? '';
+    let hash = this.hashes.get(credential);
+    if (!hash) {
+      if (this.hashes.size >= 100) this.hashes.clear();
+      hash = sha256(credential);
+      this.hashes.set(credential, hash);
+    }
+    return `${(await hash).slice(0, 32)}|${header(headers, 'x-user-id') ?? ''}|${url}`;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  /** `If-None-Match` / `If-Modified-Since` for revalidating a stale entry. */
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * Handles the network response of a cacheable request: a `304` for `stale` refreshes and replays the
+   * stored entry, a `200` is stored (unless `Cache-Control: no-store`). Returns the response to hand on.
+   */
+  async update(key: string, ttlMs: number, response: Response, stale?: CacheEntry): Promise<Response> {
+    if (response.status === 304 && stale) {
+      const refreshed = { ...stale, expiresAt: Date.now() + ttlMs };
+      await this.store.set(key, refreshed);
+      return this.toResponse(refreshed);
+    }
+    if (response.status !== 200 || /no-store/i.test(response.headers.get('cache-control') ?? '')) {
+      return response;
+    }
+
+    const body = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    const entry: CacheEntry = {
+      status: response.status,
+      headers,
+      body,
+      expiresAt: Date.now() + ttlMs,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    };
+    await this.store.set(key, entry);
+    return this.toResponse(entry);
+  }
+
+  toResponse(entry: CacheEntry): Response {
+    return new Response(entry.body, { status: entry.status, headers: entry.headers });
+  }
+
+  /** Drops every entry. */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
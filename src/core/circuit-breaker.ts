@@ -0,0 +1,175 @@
+/**
+ * Per-route circuit breaker: stops sending requests to a route prefix that keeps failing
+ * with outage-type errors, then lets probe requests through to detect recovery.
+ */
+
+import {
+  AbortedError,
+  AidenError,
+  BadGatewayError,
+  CircuitOpenError,
+  ConnectionError,
+  GatewayTimeoutError,
+  ServiceUnavailableError,
+  TimeoutError,
+} from './errors';
+import { routeGroup } from './routes';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+  route: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures counted when the change happened. */
+  failures: number;
+  error?: AidenError;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive outage failures that open the circuit (default `5`). */
+  failureThreshold?: number;
+  /** Time the circuit stays open before probing (default `30000`). */
+  resetTimeoutMs?: number;
+  /** Concurrent probe requests allowed while half-open (default `1`). */
+  halfOpenMaxProbes?: number;
+  /** Route key for a path (default: `/api/v1/<domain>`, `/v1/chat/completions`, …). */
+  routeKey?: (path: string) => string;
+  /** Errors that count as outage failures (default: 502, 503, 504 and connection errors). */
+  isFailure?: (error: AidenError) => boolean;
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probes: number;
+}
+
+function isOutage(error: AidenError): boolean {
+  return (
+    error instanceof ServiceUnavailableError ||
+    error instanceof BadGatewayError ||
+    error instanceof GatewayTimeoutError ||
+    error instanceof ConnectionError
+  );
+}
+
+export class CircuitBreaker {
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly halfOpenMaxProbes: number;
+  private readonly isFailure: (error: AidenError) => boolean;
+  private readonly onStateChange?: (change: CircuitStateChange) => void;
+  readonly routeKey: (path: string) => string;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+    this.halfOpenMaxProbes = options.halfOpenMaxProbes ?? 1;
+    this.isFailure = options.isFailure ?? isOutage;
+    this.onStateChange = options.onStateChange;
+    this.routeKey = options.routeKey ?? routeGroup;
+  }
+
+  /**
+   * Reserve an attempt on `route`. Returns a `CircuitOpenError` when the circuit rejects it;
+   * otherwise the caller must report the outcome through `record`.
+   */
+  acquire(route: string): CircuitOpenError | undefined {
+    const circuit = this.circuit(route);
+
+    if (circuit.state === 'open') {
+      const remaining = circuit.openedAt + this.resetTimeoutMs - Date.now();
+      if (remaining > 0) {
+        return new CircuitOpenError(route, remaining);
+      }
+      this.transition(route, circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.probes >= this.halfOpenMaxProbes) {
+        return new CircuitOpenError(route, this.resetTimeoutMs);
+      }
+      circuit.probes++;
+    }
+    return undefined;
+  }
+
+  /**
+   * Report the outcome of an acquired attempt (`error` is `undefined` on success). Aborted and
+   * client-side timed-out attempts say nothing about the route, so they only release the probe slot.
+   */
+  record(route: string, error?: AidenError): void {
+    this.release(route);
+    const circuit = this.circuit(route);
+
+    const failed = !!error && this.isFailure(error);
+    if (!failed && (error instanceof AbortedError || error instanceof TimeoutError)) return;
+
+    if (!failed) {
+      circuit.failures = 0;
+      if (circuit.state !== 'closed') this.transition(route, circuit, 'closed');
+      return;
+    }
+
+    circuit.failures++;
+    if (circuit.state === 'half-open' || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      if (circuit.state !== 'open') this.transition(route, circuit, 'open', error);
+    }
+  }
+
+  /** Give back an acquired attempt whose outcome is unknown (it threw before it could be recorded). */
+  release(route: string): void {
+    const circuit = this.circuit(route);
+    if (circuit.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+    }
+  }
+
+  state(route: string): CircuitState {
+    return this.circuits.get(route)?.state ?? 'closed';
+  }
+
+  snapshot(): Record<string, CircuitSnapshot> {
+    const out: Record<string, CircuitSnapshot> = {};
+    for (const [route, c] of this.circuits) {
+      out[route] = { state: c.state, failures: c.failures, ...(c.state === 'closed' ? {} : { openedAt: c.openedAt }) };
+    }
+    return out;
+  }
+
+  /** Close every circuit (e.g. after a manual failover). */
+  reset(): void {
+    for (const [route, circuit] of this.circuits) {
+      circuit.failures = 0;
+      circuit.probes = 0;
+      if (circuit.state !== 'closed') this.transition(route, circuit, 'closed');
+    }
+  }
+
+  private circuit(route: string): Circuit {
+    let circuit = this.circuits.get(route);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, openedAt: 0, probes: 0 };
+      this.circuits.set(route, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(route: string, circuit: Circuit, to: CircuitState, error?: AidenError): void {
+    const from = circuit.state;
+    circuit.state = to;
+    if (to !== 'half-open') circuit.probes = 0;
+    this.onStateChange?.({ route, from, to, failures: circuit.failures, error });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Request coalescing (`AidenClientConfig.coalesceGets`): concurrent identical GETs share one
+ * in-flight call. Each caller keeps its own `AbortSignal`; the shared call is only aborted once
+ * every caller waiting for it has gone.
+ */
+
+import { abortReason } from './abort';
+
+/** Per-call settings that change how the shared call runs; callers only share when they match. */
+export interface CoalesceSettings {
+  timeout?: number;
+  totalTimeout?: number;
+  idleTimeout?: number;
+  retryPolicy?: object;
+}
+
+interface Shared<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/** `promise`, or a rejection with the signal's reason as soon as `signal` aborts. */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export class RequestCoalescer {
+  private readonly inflight = new Map<string, Shared<unknown>>();
+  /** Retry policies are compared by identity. */
+  private readonly policyIds = new WeakMap<object, number>();
+  private nextPolicyId = 0;
+
+  /**
+   * Identity of a request: URL, every outgoing header (names lower-cased, sorted) and the settings
+   * the shared call would run with.
+   */
+  key(url: string, headers: Record<string, string>, settings: CoalesceSettings = {}): string {
+    const sorted = Object.entries(headers)
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([a], [b]) => (a! < b! ? -1 : a! > b! ? 1 : 0));
+    const { retryPolicy, ...timeouts } = settings;
+    return `${url}\n${JSON.stringify(sorted)}\n${JSON.stringify({ ...timeouts, retryPolicy: this.policyId(retryPolicy) })}`;
+  }
+
+  private policyId(policy: object | undefined): number | undefined {
+    if (!policy) return undefined;
+    let id = this.policyIds.get(policy);
+    if (id === undefined) this.policyIds.set(policy, (id = ++this.nextPolicyId));
+    return id;
+  }
+
+  /** Calls in flight right now. */
+  get size(): number {
+    return this.inflight.size;
+  }
+
+  /** Joins the in-flight call for `key`, or starts it with `start`. */
+  async run<T>(key: string, signal: AbortSignal | undefined, start: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    // A caller that has already given up neither starts nor joins a call.
+    if (signal?.aborted) throw abortReason(signal);
+    let shared = this.inflight.get(key) as Shared<T> | undefined;
+    if (!shared) {
+      const controller = new AbortController();
+      const created: Shared<T> = {
+        promise: start(controller.signal).finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        }),
+        controller,
+        waiters: 0,
+      };
+      // Rejections reach the waiters; this only keeps an abandoned call from being reported as unhandled.
+      created.promise.catch(() => undefined);
+      this.inflight.set(key, created);
+      shared = created;
+    }
+
+    shared.waiters++;
+    try {
+      return await abortable(shared.promise, signal);
+    } catch (error) {
+      if (signal?.aborted && --shared.waiters === 0) {
+        if (this.inflight.get(key) === shared) this.inflight.delete(key);
+        shared.controller.abort(abortReason(signal));
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Call-level deadlines (`totalTimeout`, `idleTimeout`). The per-attempt first-byte `timeout` is
+ * enforced by `HttpClient.fetchWithTimeout`.
+ */
+
+import { TimeoutError } from './errors';
+import { abortReason, anySignal } from './abort';
+import { replaceBody } from './body';
+
+export class CallDeadline {
+  /** The caller's signal combined with the total deadline; aborts with a `TimeoutError` when the deadline passes. */
+  readonly signal?: AbortSignal;
+  private readonly total?: AbortSignal;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(totalMs: number | undefined, private readonly idleMs: number | undefined, callerSignal?: AbortSignal) {
+    if (totalMs === undefined) {
+      this.signal = callerSignal;
+      return;
+    }
+    const controller = new AbortController();
+    this.timer = setTimeout(
+      () => controller.abort(new TimeoutError(`Request timed out after ${totalMs}ms (total deadline)`, totalMs, 'total')),
+      totalMs,
+    );
+    this.total = controller.signal;
+    this.signal = callerSignal ? anySignal([callerSignal, controller.signal]) : controller.signal;
+  }
+
+  /**
+   * `response` with its body held to the idle and total deadlines. The total deadline ends once the
+   * body is read, or a stream reader stops early (or right away when there is none).
+   */
+  guard(response: Response): Response {
+    if (!response.body || (!this.total && this.idleMs === undefined)) {
+      this.clear();
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const result = await this.read(reader);
+          if (result.done) {
+            this.clear();
+            controller.close();
+          } else {
+            controller.enqueue(result.value);
+          }
+        } catch (error) {
+          this.clear();
+          reader.cancel(error).catch(() => undefined);
+          controller.error(error);
+        }
+      },
+      cancel: (reason) => {
+        this.clear();
+        return reader.cancel(reason);
+      },
+    });
+    return replaceBody(response, body, () => this.clear());
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private read(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<ReadableStreamReadResult<Uint8Array>> {
+    const total = this.total;
+    if (total?.aborted) return Promise.reject(abortReason(total));
+
+    return new Promise((resolve, reject) => {
+      const idleMs = this.idleMs;
+      const idle =
+        idleMs === undefined
+          ? undefined
+          : setTimeout(() => reject(new TimeoutError(`Stream timed out after ${idleMs}ms without data (idle deadline)`, idleMs, 'idle')), idleMs);
+      const onTotal = () => reject(abortReason(total!));
+      total?.addEventListener('abort', onTotal, { once: true });
+
+      reader
+        .read()
+        // The total deadline also aborts the fetch, so the read fails with a plain `AbortError`.
+        .then(resolve, (error) => reject(total?.aborted ? abortReason(total) : error))
+        .finally(() => {
+          clearTimeout(idle);
+          total?.removeEventListener('abort', onTotal);
+        });
+    });
+  }
+}
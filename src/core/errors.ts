@@ -1,7 +1,72 @@
 import type { ResponseMeta } from './types';
+import type { SchemaIssue } from './schema';
+
+/** Codes produced by the SDK or commonly returned by the API. */
+export type KnownErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'ROUTE_NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNPROCESSABLE_ENTITY'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR'
+  | 'BAD_GATEWAY'
+  | 'SERVICE_UNAVAILABLE'
+  | 'GATEWAY_TIMEOUT'
+  | 'CONNECTION_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'CIRCUIT_OPEN'
+  | 'SCHEMA_MISMATCH'
+  | 'VERSION_MISMATCH'
+  | 'API_ERROR';
+
+/** A `KnownErrorCode` (autocompleted), or any other code the server sends. */
+export type AidenErrorCode = KnownErrorCode | (string & Record<never, never>);
+
+/** Discriminant of each error class, e.g. `switch (error.kind) { case 'rate_limit': … }`. */
+export type AidenErrorKind =
+  | 'api'
+  | 'validation'
+  | 'authentication'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'unprocessable_entity'
+  | 'rate_limit'
+  | 'internal'
+  | 'bad_gateway'
+  | 'service_unavailable'
+  | 'gateway_timeout'
+  | 'connection'
+  | 'timeout'
+  | 'aborted'
+  | 'circuit_open'
+  | 'schema_mismatch'
+  | 'version_mismatch';
+
+/** Field path (`name`, `inputs.url`, `items[0].id`) → messages for that field. */
+export type FieldErrors = Record<string, string[]>;
+
+/** Plain-object form of an error (`toJSON()`), safe for `postMessage`, queues and logs. */
+export interface AidenErrorJSON {
+  name: string;
+  kind: AidenErrorKind;
+  code: AidenErrorCode;
+  message: string;
+  status: number;
+  requestId: string;
+  meta?: ResponseMeta;
+  details?: unknown;
+  fieldErrors?: FieldErrors;
+  retryAfter?: number;
+}
 
 export class AidenError extends Error {
-  readonly code: string;
+  readonly kind: AidenErrorKind = 'api';
+  readonly code: AidenErrorCode;
   readonly status: number;
   readonly requestId: string;
   readonly meta?: ResponseMeta;
@@ -9,7 +74,7 @@ export class AidenError extends Error {
 
   constructor(
     message: string,
-    code: string,
+    code: AidenErrorCode,
     status: number,
     requestId: string,
     meta?: ResponseMeta,
@@ -26,56 +91,217 @@ export class AidenError extends Error {
       Error.captureStackTrace(this, this.constructor);
     }
   }
+
+  toJSON(): AidenErrorJSON {
+    const json: AidenErrorJSON = {
+      name: this.name,
+      kind: this.kind,
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      requestId: this.requestId,
+    };
+    if (this.meta !== undefined) json.meta = this.meta;
+    if (this.details !== undefined) json.details = this.details;
+    return json;
+  }
+
+  /** Rebuilds the error class `toJSON()` was called on (unknown kinds become a plain `AidenError`). */
+  static fromJSON(json: AidenErrorJSON): AidenError {
+    const { message, code, status, requestId, meta, details } = json;
+    const d = (details ?? {}) as Record<string, unknown>;
+    let error: AidenError;
+    switch (json.kind) {
+      case 'validation':
+        error = new ValidationError(message, code, requestId, meta, details ?? json.fieldErrors);
+        break;
+      case 'authentication':
+        error = new AuthenticationError(message, code, requestId, meta, details);
+        break;
+      case 'forbidden':
+        error = new ForbiddenError(message, code, requestId, meta, details);
+        break;
+      case 'not_found':
+        error = new NotFoundError(message, code, requestId, meta, details);
+        break;
+      case 'conflict':
+        error = new ConflictError(message, code, requestId, meta, details);
+        break;
+      case 'unprocessable_entity':
+        error = new UnprocessableEntityError(message, code, requestId, meta, details);
+        break;
+      case 'rate_limit':
+        error = new RateLimitError(message, requestId, json.retryAfter ?? 60_000, meta, details);
+        break;
+      case 'internal':
+        error = new InternalError(message, requestId, meta, details);
+        break;
+      case 'bad_gateway':
+        error = new BadGatewayError(message, requestId, meta, details);
+        break;
+      case 'service_unavailable':
+        error = new ServiceUnavailableError(message, requestId, meta, details);
+        break;
+      case 'gateway_timeout':
+        error = new GatewayTimeoutError(message, requestId, meta, details);
+        break;
+      case 'connection':
+        error = new ConnectionError(message);
+        break;
+      case 'timeout':
+        error = new TimeoutError(message, Number(d.timeoutMs ?? 0), (d.deadline as TimeoutDeadline | undefined) ?? 'firstByte');
+        break;
+      case 'aborted':
+        error = new AbortedError(message);
+        break;
+      case 'circuit_open':
+        error = new CircuitOpenError(String(d.route ?? ''), Number(d.retryAfter ?? json.retryAfter ?? 0));
+        break;
+      case 'schema_mismatch':
+        error = new SchemaMismatchError(
+          String(d.path ?? ''),
+          { field: String(d.field ?? ''), expected: String(d.expected ?? ''), received: String(d.received ?? '') },
+          status,
+          requestId,
+          meta,
+        );
+        break;
+      case 'version_mismatch':
+        error = new VersionMismatchError(String(d.contractVersion ?? ''), {
+          min: String((d.range as Record<string, unknown> | undefined)?.min ?? ''),
+          below: String((d.range as Record<string, unknown> | undefined)?.below ?? ''),
+        });
+        break;
+      default:
+        error = new AidenError(message, code, status, requestId, meta, details);
+    }
+    // Some constructors take no (or fixed) message, status, request id or meta; restore them for every kind.
+    Object.assign(error, { name: json.name, message, code, status, requestId });
+    if (meta !== undefined) Object.assign(error, { meta });
+    if (details !== undefined) Object.assign(error, { details });
+    return error;
+  }
+}
+
+/** A transient failure worth trying again later: 429, 5xx, connection errors, timeouts and open circuits. */
+export function isRetryable(error: unknown): error is AidenError {
+  if (!(error instanceof AidenError)) return false;
+  if (error instanceof ConnectionError || error instanceof TimeoutError || error instanceof CircuitOpenError) return true;
+  return error.status === 429 || error.status >= 500;
+}
+
+/** The server rejected the request itself (4xx other than 429); sending it again unchanged will not help. */
+export function isClientError(error: unknown): error is AidenError {
+  return error instanceof AidenError && error.status >= 400 && error.status < 500 && error.status !== 429;
+}
+
+/** Reads `{ field, message }`, `{ loc: [...], msg }`, `{ param, message }`, … entries and `{ field: messages }` maps. */
+function normalizeFieldErrors(details: unknown): FieldErrors | undefined {
+  if (!details || typeof details !== 'object') return undefined;
+  const out: FieldErrors = {};
+  const add = (field: string, message: unknown) => {
+    if (typeof message !== 'string') return;
+    (out[field] ??= []).push(message);
+  };
+
+  if (Array.isArray(details)) {
+    for (const item of details) {
+      if (!item || typeof item !== 'object') continue;
+      const entry = item as Record<string, unknown>;
+      const field = fieldPath(entry.field ?? entry.path ?? entry.loc ?? entry.param ?? entry.property ?? entry.pointer);
+      if (field !== undefined) add(field, entry.message ?? entry.msg ?? entry.detail);
+    }
+  } else {
+    const obj = details as Record<string, unknown>;
+    if (obj.fieldErrors || obj.errors) return normalizeFieldErrors(obj.fieldErrors ?? obj.errors);
+    if (typeof obj.param === 'string' && typeof obj.message === 'string') {
+      add(obj.param, obj.message);
+    } else {
+      for (const [field, messages] of Object.entries(obj)) {
+        for (const message of Array.isArray(messages) ? messages : [messages]) add(field, message);
+      }
+    }
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/** `'name'`, `['items', 0, 'id']` → `items[0].id`, JSON pointer `/inputs/url` → `inputs.url`. */
+function fieldPath(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.startsWith('/') ? value.slice(1).split('/').join('.') : value;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<string>(
+      (path, part) => (typeof part === 'number' ? `${path}[${part}]` : path ? `${path}.${String(part)}` : String(part)),
+      '',
+    );
+  }
+  return undefined;
 }
 
 export class ValidationError extends AidenError {
-  readonly fieldErrors?: Array<{ field: string; message: string; code?: string }>;
+  readonly kind = 'validation' as const;
+  /** Messages per field path, read from the error `details` whatever shape the server used. */
+  readonly fieldErrors?: FieldErrors;
 
-  constructor(message: string, code: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
+  constructor(message: string, code: AidenErrorCode, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, code, 400, requestId, meta, details);
     this.name = 'ValidationError';
-    if (Array.isArray(details)) {
-      this.fieldErrors = details as Array<{ field: string; message: string; code?: string }>;
-    }
+    this.fieldErrors = normalizeFieldErrors(details);
+  }
+
+  toJSON(): AidenErrorJSON {
+    return this.fieldErrors ? { ...super.toJSON(), fieldErrors: this.fieldErrors } : super.toJSON();
   }
 }
 
 export class AuthenticationError extends AidenError {
-  constructor(message: string, code: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
+  readonly kind = 'authentication' as const;
+
+  constructor(message: string, code: AidenErrorCode, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, code, 401, requestId, meta, details);
     this.name = 'AuthenticationError';
   }
 }
 
 export class ForbiddenError extends AidenError {
-  constructor(message: string, code: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
+  readonly kind = 'forbidden' as const;
+
+  constructor(message: string, code: AidenErrorCode, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, code, 403, requestId, meta, details);
     this.name = 'ForbiddenError';
   }
 }
 
 export class NotFoundError extends AidenError {
-  constructor(message: string, code: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
+  readonly kind = 'not_found' as const;
+
+  constructor(message: string, code: AidenErrorCode, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, code, 404, requestId, meta, details);
     this.name = 'NotFoundError';
   }
 }
 
 export class ConflictError extends AidenError {
-  constructor(message: string, code: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
+  readonly kind = 'conflict' as const;
+
+  constructor(message: string, code: AidenErrorCode, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, code, 409, requestId, meta, details);
     this.name = 'ConflictError';
   }
 }
 
 export class UnprocessableEntityError extends AidenError {
-  constructor(message: string, code: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
+  readonly kind = 'unprocessable_entity' as const;
+
+  constructor(message: string, code: AidenErrorCode, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, code, 422, requestId, meta, details);
     this.name = 'UnprocessableEntityError';
   }
 }
 
 export class RateLimitError extends AidenError {
+  readonly kind = 'rate_limit' as const;
   readonly retryAfter: number;
 
   constructor(message: string, requestId: string, retryAfter: number, meta?: ResponseMeta, details?: unknown) {
@@ -83,9 +309,15 @@ export class RateLimitError extends AidenError {
     this.name = 'RateLimitError';
     this.retryAfter = retryAfter;
   }
+
+  toJSON(): AidenErrorJSON {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
 }
 
 export class InternalError extends AidenError {
+  readonly kind = 'internal' as const;
+
   constructor(message: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, 'INTERNAL_ERROR', 500, requestId, meta, details);
     this.name = 'InternalError';
@@ -93,6 +325,8 @@ export class InternalError extends AidenError {
 }
 
 export class BadGatewayError extends AidenError {
+  readonly kind = 'bad_gateway' as const;
+
   constructor(message: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, 'BAD_GATEWAY', 502, requestId, meta, details);
     this.name = 'BadGatewayError';
@@ -100,6 +334,8 @@ export class BadGatewayError extends AidenError {
 }
 
 export class ServiceUnavailableError extends AidenError {
+  readonly kind = 'service_unavailable' as const;
+
   constructor(message: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, 'SERVICE_UNAVAILABLE', 503, requestId, meta, details);
     this.name = 'ServiceUnavailableError';
@@ -107,6 +343,8 @@ export class ServiceUnavailableError extends AidenError {
 }
 
 export class GatewayTimeoutError extends AidenError {
+  readonly kind = 'gateway_timeout' as const;
+
   constructor(message: string, requestId: string, meta?: ResponseMeta, details?: unknown) {
     super(message, 'GATEWAY_TIMEOUT', 504, requestId, meta, details);
     this.name = 'GatewayTimeoutError';
@@ -114,6 +352,8 @@ export class GatewayTimeoutError extends AidenError {
 }
 
 export class ConnectionError extends AidenError {
+  readonly kind = 'connection' as const;
+
   constructor(message: string, cause?: Error) {
     super(message, 'CONNECTION_ERROR', 0, 'unknown');
     this.name = 'ConnectionError';
@@ -123,78 +363,193 @@ export class ConnectionError extends AidenError {
   }
 }
 
+/**
+ * Which deadline a `TimeoutError` hit: `firstByte` (`timeout`, per attempt, until response headers),
+ * `total` (`totalTimeout`, the whole call including retries and the body) or `idle` (`idleTimeout`,
+ * the gap between two body chunks).
+ */
+export type TimeoutDeadline = 'firstByte' | 'total' | 'idle';
+
 export class TimeoutError extends AidenError {
+  readonly kind = 'timeout' as const;
   readonly timeoutMs: number;
+  readonly deadline: TimeoutDeadline;
 
-  constructor(message: string, timeoutMs: number) {
-    super(message, 'TIMEOUT', 0, 'unknown', undefined, { timeoutMs });
+  constructor(message: string, timeoutMs: number, deadline: TimeoutDeadline = 'firstByte') {
+    super(message, 'TIMEOUT', 0, 'unknown', undefined, { timeoutMs, deadline });
     this.name = 'TimeoutError';
     this.timeoutMs = timeoutMs;
+    this.deadline = deadline;
   }
 }
 
-function normalizeErrorPayload(body: unknown): {
-  error: { code: string; message: string; details?: unknown };
-  meta: ResponseMeta;
-} {
-  const fallbackMeta = (): ResponseMeta => ({
-    requestId: 'unknown',
-    timestamp: new Date().toISOString(),
-  });
+/** The caller's `signal` aborted the call; `cause` is the signal's reason. */
+export class AbortedError extends AidenError {
+  readonly kind = 'aborted' as const;
 
-  if (!body || typeof body !== 'object') {
-    return {
-      error: { code: 'UNKNOWN_ERROR', message: 'Request failed' },
-      meta: fallbackMeta(),
-    };
+  constructor(message: string, cause?: unknown) {
+    super(message, 'ABORTED', 0, 'unknown');
+    this.name = 'AbortedError';
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
   }
+}
 
-  const b = body as Record<string, unknown>;
+/** Thrown without contacting the server while the circuit breaker for a route is open. */
+export class CircuitOpenError extends AidenError {
+  readonly kind = 'circuit_open' as const;
+  readonly route: string;
+  /** Milliseconds until the breaker lets a probe request through. */
+  readonly retryAfter: number;
+
+  constructor(route: string, retryAfter: number) {
+    super(`Circuit open for ${route}; retry in ${retryAfter}ms`, 'CIRCUIT_OPEN', 0, 'unknown', undefined, { route, retryAfter });
+    this.name = 'CircuitOpenError';
+    this.route = route;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** A response body did not match the documented contract (`validate: 'strict'`, or reported in `'warn'` mode). */
+export class SchemaMismatchError extends AidenError {
+  readonly kind = 'schema_mismatch' as const;
+  /** Request path, e.g. `/api/v1/notebooks`. */
+  readonly path: string;
+  /** Offending field inside the body, e.g. `meta.pagination.totalPages` (`''` for the body itself). */
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, issue: SchemaIssue, status: number, requestId: string, meta?: ResponseMeta) {
+    super(
+      `Response from ${path} does not match schema: ${issue.field || 'body'} expected ${issue.expected}, got ${issue.received}`,
+      'SCHEMA_MISMATCH',
+      status,
+      requestId,
+      meta,
+      { ...issue, path },
+    );
+    this.name = 'SchemaMismatchError';
+    this.path = path;
+    this.field = issue.field;
+    this.expected = issue.expected;
+    this.received = issue.received;
+  }
+}
+
+/** The server's API contract is outside the range this SDK supports (`versionCheck: 'throw'`). */
+export class VersionMismatchError extends AidenError {
+  readonly kind = 'version_mismatch' as const;
+  /** `contractVersion` reported by `GET /api/version`. */
+  readonly contractVersion: string;
+  /** Supported contract versions: `min` inclusive, `below` exclusive. */
+  readonly range: { min: string; below: string };
+
+  constructor(contractVersion: string, range: { min: string; below: string }) {
+    super(
+      `Server API contract ${contractVersion} is not supported by this SDK (supports >=${range.min} <${range.below})`,
+      'VERSION_MISMATCH',
+      0,
+      'unknown',
+      undefined,
+      { contractVersion, range },
+    );
+    this.name = 'VersionMismatchError';
+    this.contractVersion = contractVersion;
+    this.range = range;
+  }
+}
+
+/** Every error class of the SDK, discriminated by `kind`. */
+export type KnownAidenError =
+  | ValidationError
+  | AuthenticationError
+  | ForbiddenError
+  | NotFoundError
+  | ConflictError
+  | UnprocessableEntityError
+  | RateLimitError
+  | InternalError
+  | BadGatewayError
+  | ServiceUnavailableError
+  | GatewayTimeoutError
+  | ConnectionError
+  | TimeoutError
+  | AbortedError
+  | CircuitOpenError
+  | SchemaMismatchError
+  | VersionMismatchError;
+
+const STATUS_CODES: Record<number, KnownErrorCode> = {
+  400: 'VALIDATION_ERROR',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'UNPROCESSABLE_ENTITY',
+  429: 'RATE_LIMITED',
+  500: 'INTERNAL_ERROR',
+  502: 'BAD_GATEWAY',
+  503: 'SERVICE_UNAVAILABLE',
+  504: 'GATEWAY_TIMEOUT',
+};
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Reads the error bodies seen in practice: the `{ error: { code, message, details }, meta }` envelope,
+ * OpenAI `{ error: { message, type, param } }`, `{ error: 'message' }`, `{ errors: [...] }` and FastAPI
+ * `{ detail: [...] }` lists, RFC 7807 problem details and a bare `{ message }`. Without a code in the
+ * body the code follows the status (`NOT_FOUND`, `RATE_LIMITED`, …).
+ */
+function normalizeErrorPayload(
+  status: number,
+  body: unknown,
+): { code: AidenErrorCode; message: string; details?: unknown; meta: ResponseMeta } {
+  const b = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  const meta =
+    b.meta && typeof b.meta === 'object'
+      ? (b.meta as ResponseMeta)
+      : { requestId: 'unknown', timestamp: new Date().toISOString() };
+  const code = text(b.code) ?? STATUS_CODES[status] ?? 'API_ERROR';
 
   if (b.error && typeof b.error === 'object') {
     const errObj = b.error as Record<string, unknown>;
-
-    if (typeof errObj.code === 'string' && typeof errObj.message === 'string') {
-      const meta =
-        b.meta && typeof b.meta === 'object' ? (b.meta as ResponseMeta) : fallbackMeta();
-      return {
-        error: {
-          code: errObj.code,
-          message: errObj.message,
-          details: errObj.details,
-        },
-        meta,
-      };
+    if (text(errObj.code) && typeof errObj.message === 'string') {
+      return { code: errObj.code as string, message: errObj.message, details: errObj.details, meta };
     }
-
     if (typeof errObj.message === 'string') {
-      const code =
-        typeof errObj.code === 'string'
-          ? errObj.code
-          : typeof errObj.type === 'string'
-            ? errObj.type
-            : 'API_ERROR';
-      return {
-        error: { code, message: errObj.message, details: errObj },
-        meta: fallbackMeta(),
-      };
+      return { code: text(errObj.type) ?? code, message: errObj.message, details: errObj, meta };
     }
   }
+  if (text(b.error)) {
+    return { code, message: b.error as string, details: b.details ?? b.errors, meta };
+  }
+
+  const list = Array.isArray(b.errors) ? b.errors : Array.isArray(b.detail) ? b.detail : undefined;
+  if (list) {
+    const first = (list[0] ?? {}) as Record<string, unknown>;
+    const message = text(b.message) ?? text(b.title) ?? text(first.message) ?? text(first.msg) ?? `Request failed with status ${status}`;
+    return { code, message, details: list, meta };
+  }
 
+  const message = text(b.detail) ?? text(b.title) ?? text(b.message);
+  if (message) {
+    return { code, message, details: b.details, meta };
+  }
   return {
-    error: {
-      code: 'UNKNOWN_ERROR',
-      message: typeof b.message === 'string' ? b.message : JSON.stringify(body),
-    },
-    meta: fallbackMeta(),
+    code,
+    message: Object.keys(b).length > 0 ? JSON.stringify(body) : text(body) ?? `Request failed with status ${status}`,
+    meta,
   };
 }
 
 export function createErrorFromResponse(status: number, body: unknown, retryAfterMs?: number): AidenError {
-  const normalized = normalizeErrorPayload(body);
-  const { code, message, details } = normalized.error;
-  const { meta } = normalized;
-  const requestId = meta?.requestId ?? 'unknown';
+  const { code, message, details, meta } = normalizeErrorPayload(status, body);
+  const requestId = meta.requestId ?? 'unknown';
 
   switch (status) {
     case 400:
@@ -2,15 +2,44 @@ import type {
   AidenClientConfig,
   ApiResponse,
   PaginatedResponse,
-  ApiErrorResponse,
   RequestOptions,
+  ScopedRequestOptions,
 } from './types';
 import {
+  AbortedError,
   AidenError,
+  AuthenticationError,
   ConnectionError,
   TimeoutError,
   createErrorFromResponse,
 } from './errors';
+import { MiddlewareChain } from './middleware';
+import type { Middleware, RequestContext } from './middleware';
+import { routeDomain, routeTemplate } from './routes';
+import { randomUUID } from './ids';
+import { DefaultRetryPolicy } from './retry';
+import type { RetryPolicy } from './retry';
+import { CircuitBreaker } from './circuit-breaker';
+import { RequestLimiter } from './limiter';
+import { ResponseValidator } from './validation';
+import type { PayloadCheck } from './validation';
+import { envelopeSchema, paginatedSchema } from './schema';
+import type { Schema } from './schema';
+import { RequestLogger } from './logger';
+import { OperationTrace } from './tracing';
+import type { Tracer } from './tracing';
+import { CallMetrics } from './metrics';
+import type { MetricsSink } from './metrics';
+import { ResponseCache } from './cache';
+import type { CacheEntry } from './cache';
+import { RequestCoalescer } from './coalesce';
+import { AuthManager } from './auth';
+import { QuotaTracker, parseRetryAfter } from './quota';
+import { DeprecationMonitor, describeDeprecation } from './versioning';
+import { anySignal } from './abort';
+import { CallDeadline } from './deadline';
+import { tapBody } from './body';
+import { uploadStream } from './upload';
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
@@ -20,19 +49,97 @@ export interface HttpRequestOptions extends RequestOptions {
   body?: unknown;
   query?: Record<string, string | number | boolean | undefined>;
   bodyMode?: 'json' | 'raw';
+  /** Contract for the `requestPlain` body when validation is enabled (`request` / `requestPaginated` check the envelope). */
+  schema?: Schema;
+  /**
+   * Called while a raw `Uint8Array` body is sent, with the bytes of it handed to `fetch` in the current
+   * attempt. The body then goes out as a stream (`duplex: 'half'`), rebuilt for each attempt.
+   */
+  onUploadProgress?: (bytesSent: number) => void;
 }
 
+const NON_IDEMPOTENT_METHODS = new Set<HttpMethod>(['POST', 'PATCH']);
+
+type MutableRequestContext = { -readonly [K in keyof RequestContext]: RequestContext[K] };
+
+/**
+ * Response of a successful call, with its trace when a `tracer` is configured and the attempts it
+ * took (`0` for a cache hit).
+ */
+type Performed = { response: Response; trace?: OperationTrace; metrics?: CallMetrics; attempts: number; startedAt: number };
+
+/** `options` with the defaults of `scope` filled in (see `HttpClient.scoped`). */
+function applyScope<T extends RequestOptions>(scope: ScopedRequestOptions, options: T): T {
+  return {
+    ...options,
+    userId: options.userId ?? scope.userId,
+    timeout: options.timeout ?? scope.timeout,
+    totalTimeout: options.totalTimeout ?? scope.totalTimeout,
+    idleTimeout: options.idleTimeout ?? scope.idleTimeout,
+    retryPolicy: options.retryPolicy ?? scope.retryPolicy,
+    headers: scope.headers || options.headers ? { ...scope.headers, ...options.headers } : undefined,
+    signal: scope.signal && options.signal ? anySignal([scope.signal, options.signal]) : (options.signal ?? scope.signal),
+  };
+}
+
+type AttemptResult = { response: Response; error?: undefined } | { response?: undefined; error: AidenError; retryAfterMs?: number };
+
 export class HttpClient {
-  readonly config: Required<Pick<AidenClientConfig, 'apiKey' | 'baseUrl'>> & AidenClientConfig;
+  readonly config: Required<Pick<AidenClientConfig, 'baseUrl'>> & AidenClientConfig;
   private readonly fetchFn: typeof fetch;
   private readonly defaultTimeout: number;
-  private readonly maxRetries: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly autoIdempotencyKeys: boolean;
+  private readonly middleware: MiddlewareChain;
+  /** Present when `circuitBreaker` is configured. */
+  readonly circuitBreaker?: CircuitBreaker;
+  /** Present when `limiter` is configured. */
+  readonly limiter?: RequestLimiter;
+  /** Present when `cache` is configured. */
+  readonly cache?: ResponseCache;
+  /** Rate-limit quota seen in response headers, per route group. */
+  readonly quota: QuotaTracker;
+  readonly validator: ResponseValidator;
+  private readonly log: RequestLogger;
+  private readonly deprecations: DeprecationMonitor;
+  private readonly tracer?: Tracer;
+  private readonly metrics?: MetricsSink;
+  private readonly coalescer?: RequestCoalescer;
+  /** Present when `auth` is configured (otherwise the static `apiKey` is sent). */
+  private readonly auth?: AuthManager;
+  /** Defaults of a client returned by `scoped()`. */
+  private scope?: ScopedRequestOptions;
 
   constructor(config: AidenClientConfig) {
     this.config = config;
     this.fetchFn = config.fetch ?? globalThis.fetch;
     this.defaultTimeout = config.timeout ?? 30_000;
-    this.maxRetries = config.maxRetries ?? 3;
+    this.retryPolicy = config.retryPolicy ?? new DefaultRetryPolicy({ maxRetries: config.maxRetries });
+    this.autoIdempotencyKeys = config.idempotencyKeys ?? true;
+    this.middleware = new MiddlewareChain(config.middleware);
+    if (config.circuitBreaker) {
+      this.circuitBreaker =
+        config.circuitBreaker instanceof CircuitBreaker
+          ? config.circuitBreaker
+          : new CircuitBreaker(config.circuitBreaker === true ? {} : config.circuitBreaker);
+    }
+    if (config.limiter) {
+      this.limiter = config.limiter instanceof RequestLimiter ? config.limiter : new RequestLimiter(config.limiter);
+    }
+    if (config.cache) {
+      this.cache =
+        config.cache instanceof ResponseCache ? config.cache : new ResponseCache(config.cache === true ? {} : config.cache);
+    }
+    this.quota = config.quota instanceof QuotaTracker ? config.quota : new QuotaTracker(config.quota);
+    this.validator = new ResponseValidator(config.validate, config.onSchemaMismatch);
+    this.log = new RequestLogger(config.logger, config.logLevel, config.logRedact);
+    this.deprecations = new DeprecationMonitor(
+      config.onDeprecation ?? ((notice) => this.log.warn('aiden.deprecation', describeDeprecation(notice), { ...notice })),
+    );
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    if (config.coalesceGets ?? true) this.coalescer = new RequestCoalescer();
+    if (config.auth) this.auth = new AuthManager(config.auth);
 
     if (!this.fetchFn) {
       throw new Error(
@@ -41,96 +148,340 @@ export class HttpClient {
     }
   }
 
+  /**
+   * Client applying `scope` to every call on top of this client's own scope. It shares
+   * everything else (config, middleware, breaker, limiter, cache, coalescing, auth) with this one.
+   */
+  scoped(scope: ScopedRequestOptions): HttpClient {
+    const child = Object.create(this) as HttpClient;
+    child.scope = this.scope ? applyScope(this.scope, scope) : scope;
+    return child;
+  }
+
   async request<T>(options: HttpRequestOptions): Promise<ApiResponse<T>> {
-    const response = await this.requestRaw(options);
-    return response.json() as Promise<ApiResponse<T>>;
+    return this.requestJson<ApiResponse<T>>(this.withScope(options), envelopeSchema);
   }
 
   async requestPaginated<T>(options: HttpRequestOptions): Promise<PaginatedResponse<T>> {
-    const response = await this.requestRaw(options);
-    return response.json() as Promise<PaginatedResponse<T>>;
+    return this.requestJson<PaginatedResponse<T>>(this.withScope(options), paginatedSchema);
   }
 
   /** JSON body without `{ data, meta }` (e.g. some admin or legacy endpoints). */
   async requestPlain<T>(options: HttpRequestOptions): Promise<T> {
-    const response = await this.requestRaw(options);
-    return response.json() as Promise<T>;
+    return this.requestJson<T>(this.withScope(options), options.schema);
+  }
+
+  /**
+   * Validation hook for payloads read later from `response` (stream events), or `undefined`
+   * when `validate` is off.
+   */
+  payloadCheck(path: string, response: Response): PayloadCheck | undefined {
+    if (this.validator.mode === 'off') return undefined;
+    return (schema, value) => this.validator.check(schema, value, path, response);
   }
 
+  /** Unparsed response of a successful call; streamed bodies stay traced until they finish. */
   async requestRaw(options: HttpRequestOptions): Promise<Response> {
+    const scoped = this.withScope(options);
+    const performed = await this.perform(scoped);
+    let response = performed.response;
+    if (performed.metrics) response = performed.metrics.succeed(response, performed.attempts);
+    if (performed.trace) response = performed.trace.succeed(response);
+    this.reportResponse(scoped, { ...performed, response });
+    return response;
+  }
+
+  /**
+   * Call whose response body is not needed (deletes, bulk actions). The body is cancelled, which also
+   * ends the call's `totalTimeout`; `requestRaw` callers that ignore the body should do the same.
+   */
+  async requestVoid(options: HttpRequestOptions): Promise<void> {
+    const response = await this.requestRaw(options);
+    await response.body?.cancel().catch(() => undefined);
+  }
+
+  /**
+   * Parsed JSON body of a call. Concurrent identical GETs share one call (see `coalesceGets`) and
+   * each caller gets its own copy of the body; a caller's abort only detaches that caller.
+   */
+  private async requestJson<T>(options: HttpRequestOptions, schema?: Schema): Promise<T> {
+    const key = this.coalesceKey(options);
+    if (!key) {
+      const performed = await this.perform(options);
+      const body = await this.parseJson<T>(performed, options.path, schema);
+      this.reportResponse(options, performed, body);
+      return body;
+    }
+    try {
+      const { performed, body } = await this.coalescer!.run(key, options.signal, async (signal) => {
+        const performed = await this.perform({ ...options, signal });
+        return { performed, body: await this.parseJson<T>(performed, options.path, schema) };
+      });
+      this.reportResponse(options, performed, body);
+      return structuredClone(body);
+    } catch (error) {
+      if (options.signal?.aborted && !(error instanceof AidenError)) {
+        throw this.toRequestError(error, this.buildUrl(options.path, options.query), options.signal);
+      }
+      throw error;
+    }
+  }
+
+  /** Hands the response metadata to `options.onResponse`; `body` supplies `meta.requestId`. */
+  private reportResponse(options: HttpRequestOptions, { response, attempts, startedAt }: Performed, body?: unknown): void {
+    if (!options.onResponse) return;
+    const requestId = (body as { meta?: { requestId?: unknown } } | undefined)?.meta?.requestId;
+    options.onResponse({
+      response,
+      headers: response.headers,
+      requestId: typeof requestId === 'string' ? requestId : (response.headers.get('x-request-id') ?? undefined),
+      attempts,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  private withScope(options: HttpRequestOptions): HttpRequestOptions {
+    return this.scope ? applyScope(this.scope, options) : options;
+  }
+
+  /** Coalescing key for GETs that may share a call, otherwise `undefined`. */
+  private coalesceKey(options: HttpRequestOptions): string | undefined {
+    if (!this.coalescer || options.method !== 'GET' || options.bodyMode === 'raw' || options.coalesce === false) {
+      return undefined;
+    }
+    return this.coalescer.key(this.buildUrl(options.path, options.query), this.buildHeaders(options), {
+      timeout: options.timeout,
+      totalTimeout: options.totalTimeout,
+      idleTimeout: options.idleTimeout,
+      retryPolicy: options.retryPolicy,
+    });
+  }
+
+  /** Runs the attempts of one call until a response succeeds or the retry policy gives up. */
+  private async perform(options: HttpRequestOptions): Promise<Performed> {
     const { method, path, body, query, signal, bodyMode, ...rest } = options;
     const url = this.buildUrl(path, query);
     const mode = bodyMode ?? 'json';
     const headers = this.buildHeaders(rest, mode);
     const timeout = rest.timeout ?? this.defaultTimeout;
+    const replaySafe = this.prepareIdempotency(method, headers, rest.idempotencyKey);
+    const retryPolicy = rest.retryPolicy ?? this.retryPolicy;
+    const startedAt = Date.now();
+    const breaker = this.circuitBreaker;
+    const breakerRoute = breaker?.routeKey(path) ?? '';
+
+    // Provider tokens are resolved per call; an explicit `Authorization` header in `options.headers` wins.
+    let token: string | undefined;
+    if (this.auth && !Object.keys(headers).some((h) => h.toLowerCase() === 'authorization')) {
+      token = await this.auth.token();
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    let refreshed = false;
+
+    const cacheTtl = this.cache?.ttl(method, path);
+    const cacheKey = cacheTtl ? await this.cache!.key(url, headers) : undefined;
+    let stale: CacheEntry | undefined;
+    if (cacheKey) {
+      const entry = await this.cache!.get(cacheKey);
+      if (entry && entry.expiresAt > Date.now()) {
+        return { response: this.cache!.toResponse(entry), attempts: 0, startedAt };
+      }
+      stale = entry;
+      if (stale) Object.assign(headers, this.cache!.conditionalHeaders(stale));
+    }
 
     const fetchBody =
       body === undefined ? undefined : mode === 'raw' ? (body as BodyInit) : JSON.stringify(body);
+    const deadline = new CallDeadline(
+      rest.totalTimeout ?? this.config.totalTimeout,
+      rest.idleTimeout ?? this.config.idleTimeout,
+      signal,
+    );
+
+    const ctx: MutableRequestContext = {
+      method,
+      path,
+      domain: routeDomain(path),
+      attempt: 0,
+      url,
+      headers,
+      body: fetchBody,
+      options,
+      state: {},
+    };
+    const trace = this.tracer ? new OperationTrace(this.tracer, ctx, rest.parentSpan) : undefined;
+    const metrics = this.metrics ? new CallMetrics(this.metrics, method, routeTemplate(method, path)) : undefined;
 
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        const response = await this.fetchWithTimeout(
-          url,
-          { method, headers, body: fetchBody, signal },
-          timeout,
-        );
-
-        if (response.ok) {
-          return response;
-        }
-
-        if (response.status === 204) {
-          return response;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        ctx.attempt = attempt;
+        ctx.url = url;
+        ctx.headers = { ...headers };
+        ctx.body = fetchBody;
+        trace?.startAttempt(ctx);
+        await this.middleware.runRequest(ctx);
+
+        const rejected = breaker?.acquire(breakerRoute);
+        let result: AttemptResult;
+        if (rejected) {
+          result = { error: rejected };
+        } else {
+          try {
+            result = await this.send(ctx, deadline.signal, timeout);
+          } catch (error) {
+            // Response middleware or logging threw: the probe slot must not stay taken.
+            breaker?.release(breakerRoute);
+            throw error;
+          }
+          breaker?.record(breakerRoute, result.error);
         }
-
-        const errorBody = await this.safeParseJson(response);
-
-        if (response.status === 429 && attempt < this.maxRetries) {
-          const retryAfterMs = this.parseRetryAfter(response);
-          const backoff = Math.min(retryAfterMs, this.calculateBackoff(attempt));
-          await this.sleep(backoff);
-          lastError = createErrorFromResponse(response.status, errorBody as unknown, retryAfterMs);
-          continue;
+        trace?.endAttempt(result.response, result.error);
+        if (result.response) {
+          let response = deadline.guard(result.response);
+          if (cacheKey) response = await this.cache!.update(cacheKey, cacheTtl!, response, stale);
+          // Success is recorded by the caller once the body is parsed (or handed out raw).
+          return { response, trace, metrics, attempts: attempt + 1, startedAt };
         }
 
-        if (response.status >= 500 && attempt < this.maxRetries) {
-          const backoff = this.calculateBackoff(attempt);
-          await this.sleep(backoff);
-          lastError = createErrorFromResponse(response.status, errorBody as unknown);
+        const { error, retryAfterMs } = result;
+        if (token !== undefined && !refreshed && error instanceof AuthenticationError) {
+          // Replay once with a fresh token; this is not a retry, so the policy is not consulted and the
+          // replay runs as the same attempt.
+          refreshed = true;
+          token = await this.auth!.refresh(token);
+          headers['Authorization'] = `Bearer ${token}`;
+          attempt--;
           continue;
         }
+        // An aborted call (caller signal or total deadline) is over, whatever the policy would say.
+        const delayMs = deadline.signal?.aborted
+          ? null
+          : retryPolicy.nextDelay({
+              method,
+              path,
+              attempt,
+              error,
+              status: error.status,
+              retryAfterMs,
+              elapsedMs: Date.now() - startedAt,
+              replaySafe,
+            });
+        if (delayMs === null) throw error;
+
+        this.log.retry(ctx, error, delayMs);
+        await this.middleware.runRetry(ctx, { error, delayMs, nextAttempt: attempt + 1 });
+        await this.sleep(delayMs, deadline.signal);
+      }
+    } catch (caught) {
+      // Every way out of the loop ends here once: policy give-up, middleware, token refresh, aborted backoff.
+      deadline.clear();
+      const error = caught instanceof AidenError ? await this.middleware.runError(ctx, caught) : caught;
+      if (error instanceof Error) {
+        trace?.endAttempt(undefined, error);
+        this.log.failure(ctx, error, Date.now() - startedAt);
+        trace?.fail(error);
+        metrics?.fail(error, ctx.attempt + 1);
+      }
+      throw error;
+    }
+  }
 
-        throw createErrorFromResponse(
-          response.status,
-          errorBody as unknown,
-          response.status === 429 ? this.parseRetryAfter(response) : undefined,
-        );
-      } catch (error) {
-        if (error instanceof AidenError) {
-          throw error;
-        }
+  /** Add a middleware at the end of the chain (see {@link Middleware}). */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
 
-        if (error instanceof TypeError && error.message.includes('fetch')) {
-          lastError = new ConnectionError(`Failed to connect to ${url}`, error);
-        } else if (error instanceof DOMException && error.name === 'AbortError') {
-          throw new TimeoutError(`Request timed out after ${timeout}ms`, timeout);
-        } else {
-          lastError = new ConnectionError(
-            `Request failed: ${error instanceof Error ? error.message : String(error)}`,
-            error instanceof Error ? error : undefined,
-          );
-        }
+  /** Report a one-off warning through the configured logger (or `console.warn` without one). */
+  notice(message: string, text: string, fields: Record<string, unknown> = {}): void {
+    this.log.notice(message, text, fields);
+  }
 
-        if (attempt < this.maxRetries) {
-          await this.sleep(this.calculateBackoff(attempt));
-          continue;
-        }
+  /** One attempt: resolves with a successful response, or the error describing the failure. */
+  private async send(ctx: RequestContext, signal: AbortSignal | undefined, timeout: number): Promise<AttemptResult> {
+    let response: Response;
+    this.log.request(ctx);
+    const sentAt = Date.now();
+    try {
+      signal?.throwIfAborted();
+      const release = await this.limiter?.acquire(signal);
+      try {
+        const { onUploadProgress } = ctx.options;
+        const init: RequestInit =
+          onUploadProgress && ctx.body instanceof Uint8Array
+            ? ({
+                method: ctx.method,
+                headers: ctx.headers,
+                body: uploadStream(ctx.body, onUploadProgress),
+                duplex: 'half',
+                signal,
+              } as RequestInit)
+            : { method: ctx.method, headers: ctx.headers, body: ctx.body, signal };
+        response = await this.fetchWithTimeout(ctx.url, init, timeout);
+      } finally {
+        release?.();
       }
+    } catch (error) {
+      return { error: this.toRequestError(error, ctx.url, signal) };
+    }
+
+    response = await this.middleware.runResponse(ctx, response);
+    response = await this.log.response(ctx, response, Date.now() - sentAt);
+    this.quota.observe(ctx.path, response.headers);
+    this.deprecations.observe(ctx.method, ctx.path, response.headers);
+    const revalidated = response.status === 304 && ('If-None-Match' in ctx.headers || 'If-Modified-Since' in ctx.headers);
+    if (response.ok || revalidated) {
+      return { response };
     }
 
-    throw lastError ?? new ConnectionError('Request failed after all retries');
+    const errorBody = await this.safeParseJson(response);
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    if (response.status === 429 && retryAfterMs !== undefined) {
+      this.limiter?.pause(retryAfterMs);
+    }
+    return {
+      error: createErrorFromResponse(response.status, errorBody, retryAfterMs),
+      retryAfterMs,
+    };
+  }
+
+  private toRequestError(error: unknown, url: string, signal?: AbortSignal): AidenError {
+    if (error instanceof AidenError) {
+      return error;
+    }
+    if (signal?.aborted) {
+      // The total deadline aborts with its `TimeoutError`; anything else is the caller giving up.
+      return signal.reason instanceof AidenError ? signal.reason : new AbortedError(`Request to ${url} was aborted`, signal.reason);
+    }
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      return new ConnectionError(`Failed to connect to ${url}`, error);
+    }
+    return new ConnectionError(
+      `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  /**
+   * Attaches one `Idempotency-Key` per logical call to POST/PATCH requests (reused by every retry).
+   * Returns whether the request may be replayed after any retryable failure.
+   */
+  private prepareIdempotency(method: HttpMethod, headers: Record<string, string>, key?: string): boolean {
+    if (!NON_IDEMPOTENT_METHODS.has(method)) {
+      return true;
+    }
+
+    const existing = Object.keys(headers).find((h) => h.toLowerCase() === 'idempotency-key');
+    if (existing) {
+      if (key) headers[existing] = key;
+      return true;
+    }
+
+    if (key || this.autoIdempotencyKeys) {
+      headers['Idempotency-Key'] = key ?? randomUUID();
+      return true;
+    }
+    return false;
   }
 
   private buildUrl(path: string, query?: Record<string, string | number | boolean | undefined>): string {
@@ -150,9 +501,10 @@ export class HttpClient {
   }
 
   private buildHeaders(options: RequestOptions, bodyMode: 'json' | 'raw' = 'json'): Record<string, string> {
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.config.apiKey}`,
-    };
+    const headers: Record<string, string> = {};
+    if (!this.auth) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
 
     if (bodyMode === 'json') {
       headers['Content-Type'] = 'application/json';
@@ -178,29 +530,62 @@ export class HttpClient {
     init: RequestInit,
     timeoutMs: number,
   ): Promise<Response> {
-    if (init.signal) {
-      return this.fetchFn(url, init);
-    }
-
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    // The caller's signal keeps aborting the body after the headers arrived (streams), so it stays
+    // linked until the body ends; long-lived signals would otherwise collect a listener per request.
+    const { signal } = init;
+    const onAbort = () => controller.abort();
+    const unlink = () => signal?.removeEventListener('abort', onAbort);
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      return await this.fetchFn(url, { ...init, signal: controller.signal });
+      const response = await this.fetchFn(url, { ...init, signal: controller.signal });
+      if (!signal || !response.body) {
+        unlink();
+        return response;
+      }
+      return tapBody(response, { onEnd: unlink });
+    } catch (error) {
+      unlink();
+      if (timedOut && !signal?.aborted) {
+        throw new TimeoutError(`Request timed out after ${timeoutMs}ms waiting for the first byte`, timeoutMs, 'firstByte');
+      }
+      throw error;
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
-  private async safeParseJson(response: Response): Promise<ApiErrorResponse> {
+  private async parseJson<T>({ response, trace, metrics, attempts }: Performed, path: string, schema?: Schema): Promise<T> {
+    let body: unknown;
     try {
-      return (await response.json()) as ApiErrorResponse;
+      body = await response.json();
+      if (schema) {
+        this.validator.check(schema, body, path, response);
+      }
+    } catch (error) {
+      trace?.fail(error as Error);
+      metrics?.fail(error as Error, attempts, response.status);
+      throw error;
+    }
+    trace?.succeed(response, body);
+    metrics?.succeed(response, attempts);
+    return body as T;
+  }
+
+  private async safeParseJson(response: Response): Promise<unknown> {
+    try {
+      return await response.json();
     } catch {
+      // Without a code, `createErrorFromResponse` derives one from the status.
       return {
-        error: {
-          code: 'UNKNOWN_ERROR',
-          message: response.statusText || `HTTP ${response.status}`,
-        },
+        error: response.statusText || `HTTP ${response.status}`,
         meta: {
           requestId: response.headers.get('x-request-id') ?? 'unknown',
           timestamp: new Date().toISOString(),
@@ -209,28 +594,16 @@ export class HttpClient {
     }
   }
 
-  private parseRetryAfter(response: Response): number {
-    const retryAfter = response.headers.get('retry-after');
-    if (!retryAfter) return 60_000;
-
-    const seconds = parseInt(retryAfter, 10);
-    if (!isNaN(seconds)) return seconds * 1000;
-
-    const date = new Date(retryAfter);
-    if (!isNaN(date.getTime())) {
-      return Math.max(0, date.getTime() - Date.now());
-    }
-
-    return 60_000;
-  }
-
-  private calculateBackoff(attempt: number): number {
-    const base = Math.pow(2, attempt) * 1000;
-    const jitter = Math.random() * 500;
-    return Math.min(base + jitter, 30_000);
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /** Waits `ms`, or less when `signal` aborts (the next attempt then fails right away). */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+    });
   }
 }
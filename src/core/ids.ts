@@ -0,0 +1,30 @@
+/**
+ * Random identifiers that work in Node.js 18+ and browsers without importing `node:crypto`.
+ */
+
+/** `length` random bytes; `Math.random` where Web Crypto is missing (Node.js 18 without a flag). */
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  const webCrypto = globalThis.crypto;
+  if (webCrypto?.getRandomValues) {
+    webCrypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+}
+
+/** RFC 4122 version 4 UUID. */
+export function randomUUID(): string {
+  const webCrypto = globalThis.crypto;
+  if (webCrypto?.randomUUID) {
+    return webCrypto.randomUUID();
+  }
+
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6]! & 0x0f) | 0x40;
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,159 @@
+/**
+ * Client-side request limiter: token bucket (requests per second) plus a concurrency cap,
+ * with a shared pause when the server answers 429 with `Retry-After`.
+ */
+
+import { abortReason } from './abort';
+
+export interface RequestLimiterOptions {
+  /** Sustained request rate; unlimited when omitted. */
+  requestsPerSecond?: number;
+  /** Bucket size, i.e. requests allowed back-to-back (default: `requestsPerSecond`, at least 1). */
+  burst?: number;
+  /** Attempts allowed in flight at once; unlimited when omitted. */
+  maxConcurrency?: number;
+}
+
+export interface RequestLimiterStats {
+  /** Requests waiting for a slot. */
+  queueDepth: number;
+  inFlight: number;
+  /** How long the oldest queued request has been waiting. */
+  oldestWaitMs: number;
+  /** Epoch ms until which the queue is held after a 429; `0` when not paused. */
+  pausedUntil: number;
+  /** Requests that got a slot so far. */
+  acquired: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class RequestLimiter {
+  private readonly queue: Waiter[] = [];
+  private readonly rate?: number;
+  private readonly burst: number;
+  private readonly maxConcurrency?: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private acquired = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: RequestLimiterOptions = {}) {
+    this.rate = options.requestsPerSecond;
+    this.burst = options.burst ?? Math.max(1, options.requestsPerSecond ?? 1);
+    this.maxConcurrency = options.maxConcurrency;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Wait for a slot. Resolves with a `release` function to call once the attempt is done;
+   * rejects with the signal's reason (and leaves the queue) when `signal` aborts first.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { enqueuedAt: Date.now(), resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index >= 0) this.queue.splice(index, 1);
+          reject(abortReason(signal));
+          this.drain();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /** Hold every queued and future request for `ms` (e.g. the server's `Retry-After`). */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  stats(): RequestLimiterStats {
+    const now = Date.now();
+    return {
+      queueDepth: this.queue.length,
+      inFlight: this.inFlight,
+      oldestWaitMs: this.queue.length > 0 ? now - this.queue[0]!.enqueuedAt : 0,
+      pausedUntil: this.pausedUntil > now ? this.pausedUntil : 0,
+      acquired: this.acquired,
+      averageWaitMs: this.acquired > 0 ? this.totalWaitMs / this.acquired : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+      if (this.maxConcurrency !== undefined && this.inFlight >= this.maxConcurrency) {
+        return;
+      }
+      if (this.rate !== undefined) {
+        this.refill(now, this.rate);
+        if (this.tokens < 1) {
+          this.schedule(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+          return;
+        }
+        this.tokens -= 1;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort);
+
+      const waited = now - waiter.enqueuedAt;
+      this.acquired++;
+      this.totalWaitMs += waited;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      this.inFlight++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+        this.drain();
+      });
+    }
+  }
+
+  private refill(now: number, rate: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * rate);
+    this.lastRefill = now;
+  }
+
+  private schedule(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, ms);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Structured request logging (`AidenClientConfig.logger` / `logLevel`). Secrets are redacted before
+ * anything reaches the logger: the `Authorization` header, credential payloads and `logRedact` fields.
+ */
+
+import { AidenError } from './errors';
+import type { RequestContext } from './middleware';
+import { REDACTED, redactFields, redactHeaders } from './redact';
+import { tapBody } from './body';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogFields = Record<string, unknown>;
+
+/** Anything with level methods: `console`, pino, winston, bunyan, … */
+export interface Logger {
+  debug(message: string, fields: LogFields): void;
+  info(message: string, fields: LogFields): void;
+  warn(message: string, fields: LogFields): void;
+  error(message: string, fields: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+/** Logged bodies are cut to this many characters. */
+const MAX_BODY_LENGTH = 1_000;
+
+/** `credentials.create` and `credentials.rotate`: request and response bodies carry secret values. */
+const CREDENTIAL_PAYLOAD = /^\/api\/v1\/credentials(?:\/[^/]+\/rotate)?\/?$/;
+
+function truncate(text: string): string {
+  if (text.length <= MAX_BODY_LENGTH) return text;
+  return `${text.slice(0, MAX_BODY_LENGTH)}… (${text.length - MAX_BODY_LENGTH} more chars)`;
+}
+
+function isTextual(contentType: string | null): boolean {
+  return !!contentType && /json|^text\//i.test(contentType);
+}
+
+/**
+ * Emits `aiden.request` (debug) and `aiden.response` (info) per attempt, `aiden.retry` (warn) per
+ * retry, `aiden.error` (error) per failed call and `aiden.stream` (info) per finished stream.
+ */
+export class RequestLogger {
+  private readonly threshold: number;
+  private readonly headerNames: Set<string>;
+  private readonly fields: Set<string>;
+
+  constructor(
+    private readonly logger?: Logger,
+    level: LogLevel = logger ? 'info' : 'silent',
+    redact: string[] = [],
+  ) {
+    this.logger = logger ?? (level === 'silent' ? undefined : console);
+    this.threshold = LEVELS[level];
+    this.headerNames = new Set(['authorization', ...redact.map((f) => f.toLowerCase())]);
+    this.fields = new Set(redact);
+  }
+
+  enabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return !!this.logger && LEVELS[level] >= this.threshold;
+  }
+
+  /** `aiden.request` (debug): outgoing headers and body of one attempt. */
+  request(ctx: RequestContext): void {
+    if (!this.enabled('debug')) return;
+    this.logger!.debug('aiden.request', {
+      ...this.target(ctx),
+      attempt: ctx.attempt,
+      headers: redactHeaders(ctx.headers, this.headerNames),
+      body: this.requestBody(ctx),
+    });
+  }
+
+  /**
+   * `aiden.response` for one HTTP response. At debug level non-streamed bodies are read from a clone
+   * (for `meta.requestId` and a truncated copy); streamed bodies are wrapped to log `aiden.stream`
+   * when they finish. Returns the response to hand on.
+   */
+  async response(ctx: RequestContext, response: Response, durationMs: number): Promise<Response> {
+    if (!this.enabled('info')) return response;
+
+    const fields: LogFields = {
+      ...this.target(ctx),
+      status: response.status,
+      durationMs,
+      attempt: ctx.attempt,
+      requestId: response.headers.get('x-request-id') ?? undefined,
+    };
+    const contentType = response.headers.get('content-type');
+    const streamed = !!contentType?.includes('text/event-stream');
+
+    if (this.enabled('debug') && !streamed && isTextual(contentType)) {
+      const text = await response.clone().text();
+      const parsed = this.parse(text);
+      const requestId = (parsed as { meta?: { requestId?: unknown } } | undefined)?.meta?.requestId;
+      if (typeof requestId === 'string') fields.requestId = requestId;
+      fields.body = this.isCredentialPayload(ctx) ? REDACTED : truncate(parsed === undefined ? text : this.serialize(parsed));
+    }
+    this.emit('info', 'aiden.response', fields);
+
+    return streamed && response.ok ? this.watchStream(ctx, response, fields) : response;
+  }
+
+  /** `aiden.retry` (warn): the failed attempt and the backoff before the next one. */
+  retry(ctx: RequestContext, error: AidenError, delayMs: number): void {
+    this.emit('warn', 'aiden.retry', {
+      ...this.target(ctx),
+      attempt: ctx.attempt,
+      delayMs,
+      ...this.errorFields(error),
+    });
+  }
+
+  /** `aiden.error` (error): the error the call rejects with. */
+  failure(ctx: RequestContext, error: Error, durationMs: number): void {
+    this.emit('error', 'aiden.error', {
+      ...this.target(ctx),
+      attempts: ctx.attempt + 1,
+      durationMs,
+      ...this.errorFields(error),
+    });
+  }
+
+  /** Warning such as `aiden.deprecation`; dropped when no logger is configured. */
+  warn(message: string, text: string, fields: LogFields): void {
+    if (this.logger) this.emit('warn', message, { ...fields, message: text });
+  }
+
+  /**
+   * Warning of a check the caller turned on, such as `aiden.version`: logged at warn level, or written
+   * to `console.warn` when no logger is configured.
+   */
+  notice(message: string, text: string, fields: LogFields): void {
+    if (!this.logger) console.warn(`[aiden-sdk] ${text}`);
+    else this.emit('warn', message, { ...fields, message: text });
+  }
+
+  private watchStream(ctx: RequestContext, response: Response, fields: LogFields): Response {
+    const startedAt = Date.now();
+    let bytes = 0;
+    let chunks = 0;
+    return tapBody(response, {
+      onChunk(chunk) {
+        bytes += chunk.byteLength;
+        chunks++;
+      },
+      onEnd: (outcome, error) => {
+        this.emit(outcome === 'error' ? 'warn' : 'info', 'aiden.stream', {
+          ...this.target(ctx),
+          status: fields.status,
+          requestId: fields.requestId,
+          attempt: ctx.attempt,
+          outcome,
+          durationMs: Date.now() - startedAt,
+          bytes,
+          chunks,
+          ...(error instanceof Error ? { error: error.message } : {}),
+        });
+      },
+    });
+  }
+
+  private emit(level: Exclude<LogLevel, 'silent'>, message: string, fields: LogFields): void {
+    if (this.enabled(level)) this.logger![level](message, fields);
+  }
+
+  private target(ctx: RequestContext): LogFields {
+    return { method: ctx.method, url: this.redactUrl(ctx.url) };
+  }
+
+  private errorFields(error: Error): LogFields {
+    if (!(error instanceof AidenError)) return { error: error.name, message: error.message };
+    return { error: error.name, code: error.code, status: error.status, requestId: error.requestId, message: error.message };
+  }
+
+  private requestBody(ctx: RequestContext): unknown {
+    if (ctx.body === undefined || ctx.body === null) return undefined;
+    if (this.isCredentialPayload(ctx)) return REDACTED;
+    if (typeof ctx.body !== 'string') return `[${ctx.body.constructor?.name ?? 'binary'} body]`;
+    const parsed = this.parse(ctx.body);
+    return truncate(parsed === undefined ? ctx.body : this.serialize(parsed));
+  }
+
+  private isCredentialPayload(ctx: RequestContext): boolean {
+    return ctx.method === 'POST' && CREDENTIAL_PAYLOAD.test(ctx.path);
+  }
+
+  private parse(text: string): unknown {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private serialize(value: unknown): string {
+    return JSON.stringify(this.fields.size ? redactFields(value, this.fields) : value);
+  }
+
+  private redactUrl(url: string): string {
+    if (!this.fields.size || !url.includes('?')) return url;
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (this.fields.has(key)) parsed.searchParams.set(key, REDACTED);
+    }
+    return parsed.toString();
+  }
+}
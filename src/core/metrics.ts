@@ -0,0 +1,410 @@
+/**
+ * Client metrics (`AidenClientConfig.metrics`): one sample per finished call and per finished stream,
+ * labeled by route template (`/api/v1/skills/:id/run`). `MetricsCollector` aggregates them in memory
+ * and exports Prometheus text.
+ */
+
+import { AidenError } from './errors';
+import { tapBody } from './body';
+import type { BodyOutcome } from './body';
+
+export interface RequestMetric {
+  method: string;
+  /** Route template, e.g. `/api/v1/skills/:id/run`. */
+  route: string;
+  /** Final HTTP status (`0` when no response arrived). */
+  status: number;
+  /** `AidenError` subclass name of the final error (`RateLimitError`, `TimeoutError`, …). */
+  errorType?: string;
+  /** Time until the parsed body (raw calls: the final response headers) or error, including retries and backoff. */
+  durationMs: number;
+  attempts: number;
+}
+
+export interface StreamMetric {
+  method: string;
+  route: string;
+  outcome: BodyOutcome;
+  /** From the response headers until the stream ended. */
+  durationMs: number;
+  bytes: number;
+  /** Delta events parsed by `AidenStream` / `OpenAIChatStream`. */
+  deltas: number;
+  /** From the start of the call until the first delta. */
+  timeToFirstDeltaMs?: number;
+}
+
+export interface MetricsSink {
+  recordRequest?(metric: RequestMetric): void;
+  recordStream?(metric: StreamMetric): void;
+}
+
+export interface LatencySummary {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export interface RouteMetrics {
+  method: string;
+  route: string;
+  requests: number;
+  errors: number;
+  /** Failed calls by `AidenError` subclass. */
+  errorsByType: Record<string, number>;
+  /** Calls by final status (`'0'` when no response arrived). */
+  statuses: Record<string, number>;
+  /** Attempts beyond the first. */
+  retries: number;
+  latencyMs: LatencySummary;
+}
+
+export interface StreamRouteMetrics {
+  method: string;
+  route: string;
+  streams: number;
+  outcomes: Record<BodyOutcome, number>;
+  bytes: number;
+  deltas: number;
+  /** `bytes` over the summed stream durations. */
+  bytesPerSecond: number;
+  durationMs: LatencySummary;
+  timeToFirstDeltaMs: LatencySummary;
+}
+
+export interface MetricsSnapshot {
+  routes: RouteMetrics[];
+  streams: StreamRouteMetrics[];
+}
+
+export interface MetricsCollectorOptions {
+  /** Latest durations kept per route for percentiles (default `1024`). */
+  maxSamples?: number;
+  /** Metric name prefix for `toPrometheus()` (default `'aiden_sdk'`). */
+  prefix?: string;
+}
+
+/** Bounded window of recent values plus exact count/sum/min/max. */
+class Samples {
+  private readonly values: number[] = [];
+  private next = 0;
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  constructor(private readonly limit: number) {}
+
+  add(value: number): void {
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+    if (this.values.length < this.limit) {
+      this.values.push(value);
+    } else {
+      this.values[this.next] = value;
+      this.next = (this.next + 1) % this.limit;
+    }
+  }
+
+  summary(): LatencySummary {
+    const sorted = [...this.values].sort((a, b) => a - b);
+    const quantile = (q: number) => (sorted.length ? sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)]! : 0);
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: this.count ? this.min : 0,
+      max: this.count ? this.max : 0,
+      p50: quantile(0.5),
+      p90: quantile(0.9),
+      p95: quantile(0.95),
+      p99: quantile(0.99),
+    };
+  }
+}
+
+interface RouteState {
+  method: string;
+  route: string;
+  requests: number;
+  errors: number;
+  errorsByType: Record<string, number>;
+  statuses: Record<string, number>;
+  retries: number;
+  latency: Samples;
+}
+
+interface StreamState {
+  method: string;
+  route: string;
+  streams: number;
+  outcomes: Record<BodyOutcome, number>;
+  bytes: number;
+  deltas: number;
+  duration: Samples;
+  firstDelta: Samples;
+}
+
+/** In-memory `MetricsSink` with `snapshot()` and a Prometheus text exporter. */
+export class MetricsCollector implements MetricsSink {
+  private readonly routes = new Map<string, RouteState>();
+  private readonly streams = new Map<string, StreamState>();
+  private readonly maxSamples: number;
+  private readonly prefix: string;
+
+  constructor(options: MetricsCollectorOptions = {}) {
+    this.maxSamples = options.maxSamples ?? 1024;
+    this.prefix = options.prefix ?? 'aiden_sdk';
+  }
+
+  recordRequest(metric: RequestMetric): void {
+    const key = `${metric.method} ${metric.route}`;
+    let state = this.routes.get(key);
+    if (!state) {
+      state = {
+        method: metric.method,
+        route: metric.route,
+        requests: 0,
+        errors: 0,
+        errorsByType: {},
+        statuses: {},
+        retries: 0,
+        latency: new Samples(this.maxSamples),
+      };
+      this.routes.set(key, state);
+    }
+    state.requests++;
+    state.retries += Math.max(0, metric.attempts - 1);
+    state.statuses[metric.status] = (state.statuses[metric.status] ?? 0) + 1;
+    if (metric.errorType) {
+      state.errors++;
+      state.errorsByType[metric.errorType] = (state.errorsByType[metric.errorType] ?? 0) + 1;
+    }
+    state.latency.add(metric.durationMs);
+  }
+
+  recordStream(metric: StreamMetric): void {
+    const key = `${metric.method} ${metric.route}`;
+    let state = this.streams.get(key);
+    if (!state) {
+      state = {
+        method: metric.method,
+        route: metric.route,
+        streams: 0,
+        outcomes: { complete: 0, cancelled: 0, error: 0 },
+        bytes: 0,
+        deltas: 0,
+        duration: new Samples(this.maxSamples),
+        firstDelta: new Samples(this.maxSamples),
+      };
+      this.streams.set(key, state);
+    }
+    state.streams++;
+    state.outcomes[metric.outcome]++;
+    state.bytes += metric.bytes;
+    state.deltas += metric.deltas;
+    state.duration.add(metric.durationMs);
+    if (metric.timeToFirstDeltaMs !== undefined) state.firstDelta.add(metric.timeToFirstDeltaMs);
+  }
+
+  snapshot(): MetricsSnapshot {
+    return {
+      routes: [...this.routes.values()].map((s) => ({
+        method: s.method,
+        route: s.route,
+        requests: s.requests,
+        errors: s.errors,
+        errorsByType: { ...s.errorsByType },
+        statuses: { ...s.statuses },
+        retries: s.retries,
+        latencyMs: s.latency.summary(),
+      })),
+      streams: [...this.streams.values()].map((s) => {
+        const durationMs = s.duration.summary();
+        return {
+          method: s.method,
+          route: s.route,
+          streams: s.streams,
+          outcomes: { ...s.outcomes },
+          bytes: s.bytes,
+          deltas: s.deltas,
+          bytesPerSecond: durationMs.sum > 0 ? (s.bytes * 1000) / durationMs.sum : 0,
+          durationMs,
+          timeToFirstDeltaMs: s.firstDelta.summary(),
+        };
+      }),
+    };
+  }
+
+  reset(): void {
+    this.routes.clear();
+    this.streams.clear();
+  }
+
+  /** Prometheus text exposition format (version 0.0.4); durations in seconds. */
+  toPrometheus(): string {
+    return formatPrometheus(this.snapshot(), this.prefix);
+  }
+}
+
+const QUANTILES = [
+  ['p50', '0.5'],
+  ['p90', '0.9'],
+  ['p95', '0.95'],
+  ['p99', '0.99'],
+] as const;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labels(values: Record<string, string>): string {
+  return `{${Object.entries(values)
+    .map(([k, v]) => `${k}="${escapeLabel(v)}"`)
+    .join(',')}}`;
+}
+
+/** Prometheus text for a `MetricsSnapshot`. */
+export function formatPrometheus(snapshot: MetricsSnapshot, prefix = 'aiden_sdk'): string {
+  const lines: string[] = [];
+  const family = (name: string, type: string, help: string, samples: string[]) => {
+    if (!samples.length) return;
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`, ...samples);
+  };
+  const summary = (name: string, base: Record<string, string>, s: LatencySummary) => [
+    ...QUANTILES.map(([key, quantile]) => `${prefix}_${name}${labels({ ...base, quantile })} ${s[key] / 1000}`),
+    `${prefix}_${name}_sum${labels(base)} ${s.sum / 1000}`,
+    `${prefix}_${name}_count${labels(base)} ${s.count}`,
+  ];
+  const route = (s: { method: string; route: string }) => ({ method: s.method, route: s.route });
+
+  family(
+    'requests_total',
+    'counter',
+    'Calls by final status.',
+    snapshot.routes.flatMap((s) =>
+      Object.entries(s.statuses).map(([status, n]) => `${prefix}_requests_total${labels({ ...route(s), status })} ${n}`),
+    ),
+  );
+  family(
+    'request_errors_total',
+    'counter',
+    'Failed calls by error class.',
+    snapshot.routes.flatMap((s) =>
+      Object.entries(s.errorsByType).map(([error, n]) => `${prefix}_request_errors_total${labels({ ...route(s), error })} ${n}`),
+    ),
+  );
+  family(
+    'retries_total',
+    'counter',
+    'Attempts beyond the first.',
+    snapshot.routes.map((s) => `${prefix}_retries_total${labels(route(s))} ${s.retries}`),
+  );
+  family(
+    'request_duration_seconds',
+    'summary',
+    'Call latency including retries.',
+    snapshot.routes.flatMap((s) => summary('request_duration_seconds', route(s), s.latencyMs)),
+  );
+  family(
+    'streams_total',
+    'counter',
+    'Finished streams by outcome.',
+    snapshot.streams.flatMap((s) =>
+      Object.entries(s.outcomes).map(([outcome, n]) => `${prefix}_streams_total${labels({ ...route(s), outcome })} ${n}`),
+    ),
+  );
+  family(
+    'stream_bytes_total',
+    'counter',
+    'Bytes received on streams.',
+    snapshot.streams.map((s) => `${prefix}_stream_bytes_total${labels(route(s))} ${s.bytes}`),
+  );
+  family(
+    'stream_deltas_total',
+    'counter',
+    'Delta events received on streams.',
+    snapshot.streams.map((s) => `${prefix}_stream_deltas_total${labels(route(s))} ${s.deltas}`),
+  );
+  family(
+    'stream_duration_seconds',
+    'summary',
+    'Stream duration after the response headers.',
+    snapshot.streams.flatMap((s) => summary('stream_duration_seconds', route(s), s.durationMs)),
+  );
+  family(
+    'stream_time_to_first_delta_seconds',
+    'summary',
+    'Time from the start of the call to the first delta.',
+    snapshot.streams.flatMap((s) => summary('stream_time_to_first_delta_seconds', route(s), s.timeToFirstDeltaMs)),
+  );
+  return lines.length ? `${lines.join('\n')}\n` : '';
+}
+
+/** Samples of one logical call for a `MetricsSink`. */
+export class CallMetrics {
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly sink: MetricsSink,
+    private readonly method: string,
+    private readonly route: string,
+  ) {}
+
+  /** Records the call; `text/event-stream` bodies are wrapped to record a stream sample when they end. */
+  succeed(response: Response, attempts: number): Response {
+    this.sink.recordRequest?.({
+      method: this.method,
+      route: this.route,
+      status: response.status,
+      durationMs: Date.now() - this.startedAt,
+      attempts,
+    });
+    if (!this.sink.recordStream || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      return response;
+    }
+
+    const headersAt = Date.now();
+    let bytes = 0;
+    let deltas = 0;
+    let timeToFirstDeltaMs: number | undefined;
+    return tapBody(response, {
+      onChunk: (chunk) => {
+        bytes += chunk.byteLength;
+      },
+      onDelta: () => {
+        deltas++;
+        timeToFirstDeltaMs ??= Date.now() - this.startedAt;
+      },
+      onEnd: (outcome) => {
+        this.sink.recordStream?.({
+          method: this.method,
+          route: this.route,
+          outcome,
+          durationMs: Date.now() - headersAt,
+          bytes,
+          deltas,
+          timeToFirstDeltaMs,
+        });
+      },
+    });
+  }
+
+  /** Records the error the call rejects with; `status` is that of a response whose body failed to parse or validate. */
+  fail(error: Error, attempts: number, status = error instanceof AidenError ? error.status : 0): void {
+    this.sink.recordRequest?.({
+      method: this.method,
+      route: this.route,
+      status,
+      errorType: error.name,
+      durationMs: Date.now() - this.startedAt,
+      attempts,
+    });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Request/response interceptors around `HttpClient.requestRaw`.
+ *
+ * Hooks run in registration order on the way out (`onRequest`, `onRetry`) and in reverse
+ * order on the way back (`onResponse`, `onError`), so the first middleware wraps all others.
+ */
+
+import type { AidenError } from './errors';
+import type { HttpMethod, HttpRequestOptions } from './http-client';
+
+export interface RequestContext {
+  readonly method: HttpMethod;
+  /** Path as passed by the domain client, without query string. */
+  readonly path: string;
+  /** Domain client that issued the call (`knowledge`, `skills`, `openai`, …). */
+  readonly domain: string;
+  /** Zero-based attempt number; `> 0` on retries. */
+  readonly attempt: number;
+  /** Fully built URL; may be rewritten in `onRequest`. Reset before every attempt. */
+  url: string;
+  /** Outgoing headers; may be modified in `onRequest`. Reset before every attempt. */
+  headers: Record<string, string>;
+  body?: BodyInit;
+  readonly options: HttpRequestOptions;
+  /** Scratch space shared by all hooks for one logical call (survives retries). */
+  readonly state: Record<string, unknown>;
+}
+
+export interface RetryInfo {
+  /** Error that made the previous attempt fail. */
+  error: AidenError;
+  /** Backoff before the next attempt. */
+  delayMs: number;
+  /** Attempt number that will run next. */
+  nextAttempt: number;
+}
+
+export interface Middleware {
+  name?: string;
+  /** Before every attempt (including retries). */
+  onRequest?(ctx: RequestContext): void | Promise<void>;
+  /**
+   * For every HTTP response, before the status is inspected. Streaming bodies are not consumed
+   * yet, so the response may be wrapped. Return a `Response` to replace it.
+   */
+  onResponse?(ctx: RequestContext, response: Response): Response | void | Promise<Response | void>;
+  /** Once, with the error the call is about to reject with. Return an error to replace it. */
+  onError?(ctx: RequestContext, error: AidenError): AidenError | void | Promise<AidenError | void>;
+  /** Before sleeping for the next attempt. */
+  onRetry?(ctx: RequestContext, info: RetryInfo): void | Promise<void>;
+}
+
+export class MiddlewareChain {
+  private readonly items: Middleware[];
+
+  constructor(items: Middleware[] = []) {
+    this.items = [...items];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  use(middleware: Middleware): void {
+    this.items.push(middleware);
+  }
+
+  async runRequest(ctx: RequestContext): Promise<void> {
+    for (const mw of this.items) {
+      await mw.onRequest?.(ctx);
+    }
+  }
+
+  async runResponse(ctx: RequestContext, response: Response): Promise<Response> {
+    let current = response;
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const replaced = await this.items[i]!.onResponse?.(ctx, current);
+      if (replaced) current = replaced;
+    }
+    return current;
+  }
+
+  async runError(ctx: RequestContext, error: AidenError): Promise<AidenError> {
+    let current = error;
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const replaced = await this.items[i]!.onError?.(ctx, current);
+      if (replaced) current = replaced;
+    }
+    return current;
+  }
+
+  async runRetry(ctx: RequestContext, info: RetryInfo): Promise<void> {
+    for (const mw of this.items) {
+      await mw.onRetry?.(ctx, info);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Auto-pagination over `requestPaginated` list methods, driven by `meta.pagination`.
+ */
+
+import type { PaginatedResponse, PaginationParams, RequestOptions } from './types';
+import { AbortedError } from './errors';
+
+export interface AutoPaginateOptions extends RequestOptions {
+  /** `limit` sent with every page request (default: `params.limit`, else the server default). */
+  pageSize?: number;
+  /** Stop after this many items in total. */
+  maxItems?: number;
+}
+
+export type PageFetcher<T, P extends PaginationParams> = (
+  params: P,
+  options?: RequestOptions,
+) => Promise<PaginatedResponse<T>>;
+
+/**
+ * Async iterable over every item of a paginated list; `pages()` yields whole responses instead.
+ *
+ * Without `meta.pagination`, iteration continues only while full pages (`data.length === limit`)
+ * come back, and stops after the first page when no limit is known.
+ */
+export class PageIterator<T, P extends PaginationParams = PaginationParams> implements AsyncIterable<T> {
+  constructor(
+    private readonly fetchPage: PageFetcher<T, P>,
+    private readonly params: P | undefined,
+    private readonly options: AutoPaginateOptions = {},
+  ) {}
+
+  async *pages(): AsyncIterableIterator<PaginatedResponse<T>> {
+    const { pageSize, maxItems, ...requestOptions } = this.options;
+    const signal = requestOptions.signal;
+    const limit = pageSize ?? this.params?.limit;
+    let page = this.params?.page ?? 1;
+    let remaining = maxItems ?? Infinity;
+
+    while (remaining > 0) {
+      if (signal?.aborted) {
+        throw new AbortedError('Pagination was aborted', signal.reason);
+      }
+
+      const query = { ...this.params, page, ...(limit !== undefined ? { limit } : {}) } as P;
+      const response = await this.fetchPage(query, requestOptions);
+      const items = Array.isArray(response.data) ? response.data : [];
+
+      const taken = items.length > remaining ? items.slice(0, remaining) : items;
+      remaining -= taken.length;
+      yield taken === items ? response : { ...response, data: taken };
+
+      if (items.length === 0) return;
+
+      const pagination = response.meta?.pagination;
+      if (pagination) {
+        if (page >= pagination.totalPages) return;
+      } else if (limit === undefined || items.length !== limit) {
+        return;
+      }
+      page++;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    for await (const response of this.pages()) {
+      yield* response.data;
+    }
+  }
+
+  /** Collect every item (mind `maxItems` on large lists). */
+  async toArray(): Promise<T[]> {
+    const out: T[] = [];
+    for await (const item of this) out.push(item);
+    return out;
+  }
+}
+
+export function paginate<T, P extends PaginationParams>(
+  fetchPage: PageFetcher<T, P>,
+  params?: P,
+  options?: AutoPaginateOptions,
+): PageIterator<T, P> {
+  return new PageIterator(fetchPage, params, options);
+}
@@ -0,0 +1,148 @@
+/**
+ * Rate-limit quota read from response headers (`RateLimit-*`, `X-RateLimit-*`, `RateLimit`), kept
+ * per route group so callers can slow down before the server starts answering 429.
+ */
+
+import { routeGroup } from './routes';
+
+export interface RateLimitInfo {
+  /** Requests allowed in the current window, when the server sends it. */
+  limit?: number;
+  remaining: number;
+  /** When the window resets (epoch ms), when the server sends it. */
+  resetAt?: number;
+}
+
+export interface QuotaState extends RateLimitInfo {
+  /** When the headers were received (epoch ms). */
+  updatedAt: number;
+}
+
+export interface LowQuotaEvent {
+  route: string;
+  state: QuotaState;
+}
+
+export interface QuotaTrackerOptions {
+  /** Quota is low once `remaining` is at or below this fraction of `limit` (default `0.1`). */
+  lowFraction?: number;
+  /** Quota is also low once `remaining` is at or below this count (needed when the server sends no limit). */
+  lowRemaining?: number;
+  /** Route key for a path (default: `/api/v1/<domain>`, `/v1/chat/completions`, …). */
+  routeKey?: (path: string) => string;
+  /** Called when a route group's quota becomes low; called again only after it recovered. */
+  onLowQuota?: (event: LowQuotaEvent) => void;
+}
+
+/** `Retry-After` in milliseconds (delay in seconds or an HTTP date), or `undefined` when absent or invalid. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = parseInt(value, 10);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = new Date(value);
+  if (!isNaN(date.getTime())) {
+    return Math.max(0, date.getTime() - Date.now());
+  }
+
+  return undefined;
+}
+
+function parseCount(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const n = parseInt(value, 10);
+  return isNaN(n) || n < 0 ? undefined : n;
+}
+
+/** Reset as seconds from now, or as epoch seconds (some `X-RateLimit-Reset` implementations). */
+function parseReset(value: string | null | undefined, now: number): number | undefined {
+  const n = parseCount(value);
+  if (n === undefined) return undefined;
+  return n > 1_000_000_000 ? n * 1000 : now + n * 1000;
+}
+
+/** Parameters of a structured `RateLimit` / `RateLimit-Policy` header (`limit=100, remaining=5` or `"default";r=5;t=30`). */
+function parseParams(value: string | null): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const match of (value ?? '').matchAll(/([a-z]+)=("?)([^",;\s]+)\2/gi)) {
+    params[match[1]!.toLowerCase()] ??= match[3]!;
+  }
+  return params;
+}
+
+/** Quota announced by `headers`, or `undefined` when the response carries no rate-limit headers. */
+export function parseRateLimit(headers: Headers, now = Date.now()): RateLimitInfo | undefined {
+  for (const prefix of ['ratelimit-', 'x-ratelimit-']) {
+    const remaining = parseCount(headers.get(`${prefix}remaining`));
+    if (remaining !== undefined) {
+      return {
+        limit: parseCount(headers.get(`${prefix}limit`)),
+        remaining,
+        resetAt: parseReset(headers.get(`${prefix}reset`), now),
+      };
+    }
+  }
+
+  const params = parseParams(headers.get('ratelimit'));
+  const remaining = parseCount(params.remaining ?? params.r);
+  if (remaining === undefined) return undefined;
+  const policy = parseParams(headers.get('ratelimit-policy'));
+  return {
+    limit: parseCount(params.limit ?? policy.q),
+    remaining,
+    resetAt: parseReset(params.reset ?? params.t, now),
+  };
+}
+
+export class QuotaTracker {
+  private readonly states = new Map<string, QuotaState>();
+  private readonly low = new Set<string>();
+  private readonly lowFraction: number;
+  private readonly lowRemaining?: number;
+  private readonly onLowQuota?: (event: LowQuotaEvent) => void;
+  readonly routeKey: (path: string) => string;
+
+  constructor(options: QuotaTrackerOptions = {}) {
+    this.lowFraction = options.lowFraction ?? 0.1;
+    this.lowRemaining = options.lowRemaining;
+    this.onLowQuota = options.onLowQuota;
+    this.routeKey = options.routeKey ?? routeGroup;
+  }
+
+  /** Record the rate-limit headers of a response to `path`; responses without them are ignored. */
+  observe(path: string, headers: Headers): void {
+    const info = parseRateLimit(headers);
+    if (!info) return;
+
+    const route = this.routeKey(path);
+    const state: QuotaState = { ...info, updatedAt: Date.now() };
+    this.states.set(route, state);
+
+    if (!this.isLow(state)) {
+      this.low.delete(route);
+    } else if (!this.low.has(route)) {
+      this.low.add(route);
+      this.onLowQuota?.({ route, state });
+    }
+  }
+
+  /** Latest quota of a route group (`/api/v1/knowledge`, …). */
+  get(route: string): QuotaState | undefined {
+    return this.states.get(route);
+  }
+
+  snapshot(): Record<string, QuotaState> {
+    return Object.fromEntries(this.states);
+  }
+
+  reset(): void {
+    this.states.clear();
+    this.low.clear();
+  }
+
+  private isLow({ limit, remaining }: RateLimitInfo): boolean {
+    if (this.lowRemaining !== undefined && remaining <= this.lowRemaining) return true;
+    return limit !== undefined && limit > 0 && remaining <= limit * this.lowFraction;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Secret redaction for anything the SDK writes out (logs, recorded cassettes).
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** Copy of `value` with every key in `fields` replaced by `[REDACTED]`, at any depth. */
+export function redactFields(value: unknown, fields: ReadonlySet<string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => redactFields(v, fields));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, fields.has(key) ? REDACTED : redactFields(v, fields)]),
+  );
+}
+
+/** Headers as a plain lower-cased record with the `redact` names (lower case) masked. */
+export function redactHeaders(headers: HeadersInit | undefined, redact: ReadonlySet<string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    out[key] = redact.has(key) ? REDACTED : value;
+  });
+  return out;
+}
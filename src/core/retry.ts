@@ -0,0 +1,153 @@
+/**
+ * Retry decisions for `HttpClient` — pluggable per client (`AidenClientConfig.retryPolicy`)
+ * and per call (`RequestOptions.retryPolicy`).
+ */
+
+import type { HttpMethod } from './http-client';
+import { AidenError, ConnectionError, RateLimitError, ServiceUnavailableError, TimeoutError } from './errors';
+
+export interface RetryContext {
+  method: HttpMethod;
+  path: string;
+  /** Zero-based number of the attempt that just failed. */
+  attempt: number;
+  error: AidenError;
+  /** HTTP status of the failed attempt (`0` for connection errors and timeouts). */
+  status: number;
+  /** Server-provided `Retry-After`, when the response carried one. */
+  retryAfterMs?: number;
+  /** Time since the first attempt started. */
+  elapsedMs: number;
+  /** Safe method, or a POST/PATCH carrying an `Idempotency-Key`. */
+  replaySafe: boolean;
+}
+
+export interface RetryPolicy {
+  /** Milliseconds to wait before the next attempt, or `null` to give up and throw `ctx.error`. */
+  nextDelay(ctx: RetryContext): number | null;
+}
+
+export interface RetryPolicyOptions {
+  /** Retries after the first attempt (default `3`). */
+  maxRetries?: number;
+  /** First backoff step; doubles per attempt (default `1000`). */
+  baseDelayMs?: number;
+  /** Cap for computed backoff (default `30000`). Does not cap a server `Retry-After`. */
+  maxDelayMs?: number;
+  /** Random extra delay added to each backoff (default `500`). */
+  jitterMs?: number;
+  /** Give up when the next attempt would start later than this after the first one. */
+  budgetMs?: number;
+  /** Statuses worth retrying (default: 429 and every 5xx). */
+  retryableStatuses?: number[];
+  /** Retry `ConnectionError` (default `true`). */
+  retryConnectionErrors?: boolean;
+  /** Retry `TimeoutError` (default `false`). */
+  retryTimeouts?: boolean;
+  /** Wait exactly as long as `Retry-After` asks when it is present (default `true`). */
+  respectRetryAfter?: boolean;
+  /** Give up instead of waiting when `Retry-After` asks for longer than this (default `60000`). */
+  maxRetryAfterMs?: number;
+}
+
+export interface RetryRule extends RetryPolicyOptions {
+  method?: HttpMethod | HttpMethod[];
+  /** Path prefix (`/api/v1/knowledge`) or pattern. */
+  path?: string | RegExp;
+  status?: number | number[];
+}
+
+const UNSENT_CONNECTION_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+/**
+ * Failures where the server cannot have acted on the request: it refused it (429 / 503) or the
+ * connection was never established. Requests without idempotency protection only retry on these.
+ */
+export function isSafeFailure(error: AidenError): boolean {
+  if (error instanceof RateLimitError || error instanceof ServiceUnavailableError) {
+    return true;
+  }
+  if (error instanceof ConnectionError) {
+    for (let cause = error.cause; cause instanceof Error; cause = cause.cause) {
+      const code = (cause as Error & { code?: unknown }).code;
+      if (typeof code === 'string' && UNSENT_CONNECTION_CODES.has(code)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function asList<T>(value: T | T[] | undefined): T[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Exponential backoff with jitter, `Retry-After` support, a total time budget and
+ * per-route / per-status overrides. The first matching rule is merged over the defaults.
+ *
+ * ```ts
+ * new DefaultRetryPolicy({
+ *   maxRetries: 2,
+ *   rules: [
+ *     { path: '/api/v1/knowledge', maxRetries: 5, budgetMs: 120_000 },
+ *     { status: 503, baseDelayMs: 5_000 },
+ *   ],
+ * });
+ * ```
+ */
+export class DefaultRetryPolicy implements RetryPolicy {
+  private readonly defaults: RetryPolicyOptions;
+  private readonly rules: RetryRule[];
+
+  constructor(options: RetryPolicyOptions & { rules?: RetryRule[] } = {}) {
+    const { rules, ...defaults } = options;
+    this.defaults = defaults;
+    this.rules = rules ?? [];
+  }
+
+  nextDelay(ctx: RetryContext): number | null {
+    const opts = this.resolve(ctx);
+
+    if (ctx.attempt >= (opts.maxRetries ?? 3)) return null;
+    if (!this.isRetryable(ctx.error, opts)) return null;
+    if (!ctx.replaySafe && !isSafeFailure(ctx.error)) return null;
+
+    const backoff = Math.min(
+      (opts.baseDelayMs ?? 1000) * Math.pow(2, ctx.attempt) + Math.random() * (opts.jitterMs ?? 500),
+      opts.maxDelayMs ?? 30_000,
+    );
+    const retryAfter = (opts.respectRetryAfter ?? true) ? ctx.retryAfterMs : undefined;
+    // A server asking for an hour's pause is better surfaced (with its `retryAfter`) than slept through.
+    if (retryAfter !== undefined && retryAfter > (opts.maxRetryAfterMs ?? 60_000)) return null;
+    const delay = retryAfter ?? backoff;
+
+    if (opts.budgetMs !== undefined && ctx.elapsedMs + delay > opts.budgetMs) return null;
+    return delay;
+  }
+
+  private resolve(ctx: RetryContext): RetryPolicyOptions {
+    const rule = this.rules.find((r) => this.matches(r, ctx));
+    return rule ? { ...this.defaults, ...rule } : this.defaults;
+  }
+
+  private matches(rule: RetryRule, ctx: RetryContext): boolean {
+    const methods = asList(rule.method);
+    if (methods && !methods.includes(ctx.method)) return false;
+
+    const statuses = asList(rule.status);
+    if (statuses && !statuses.includes(ctx.status)) return false;
+
+    if (typeof rule.path === 'string' && !ctx.path.startsWith(rule.path)) return false;
+    if (rule.path instanceof RegExp && !rule.path.test(ctx.path)) return false;
+
+    return true;
+  }
+
+  private isRetryable(error: AidenError, opts: RetryPolicyOptions): boolean {
+    if (error instanceof TimeoutError) return opts.retryTimeouts ?? false;
+    if (error instanceof ConnectionError) return opts.retryConnectionErrors ?? true;
+    if (opts.retryableStatuses) return opts.retryableStatuses.includes(error.status);
+    return error.status === 429 || error.status >= 500;
+  }
+}
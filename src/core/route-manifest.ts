@@ -0,0 +1,207 @@
+/**
+ * Every HTTP route the SDK calls, keyed by the method that calls it. Paths use `:param` placeholders
+ * (`/v1/models/:model` may span several segments). Keep in sync with `src/domains/*.ts` (the drift
+ * test fails on any `this.http.request*` call missing here); the drift checker
+ * (`@aiden-ai/sdk/drift`) compares this list with the OpenAPI document.
+ */
+
+import type { HttpMethod } from './http-client';
+
+export interface SdkRoute {
+  method: HttpMethod;
+  path: string;
+  /** Client method, e.g. `skills.run` or `users.groups.list`. */
+  operation: string;
+}
+
+export const SDK_ROUTES: readonly SdkRoute[] = [
+  { method: 'POST', path: '/api/v1/agents/builder/sessions', operation: 'agents.createBuilderSession' },
+  { method: 'GET', path: '/api/v1/agents/builder/sessions', operation: 'agents.listBuilderSessions' },
+  { method: 'GET', path: '/api/v1/agents/builder/sessions/:sessionId', operation: 'agents.getBuilderSession' },
+  { method: 'DELETE', path: '/api/v1/agents/builder/sessions/:sessionId', operation: 'agents.deleteBuilderSession' },
+  { method: 'POST', path: '/api/v1/agents/builder/sessions/:sessionId/reset', operation: 'agents.resetBuilderSession' },
+  { method: 'POST', path: '/api/v1/agents/builder/sessions/:sessionId/messages', operation: 'agents.sendBuilderMessage' },
+  { method: 'POST', path: '/api/v1/agents/builder/sessions/:sessionId/messages/stream', operation: 'agents.sendBuilderMessageStream' },
+  { method: 'GET', path: '/api/v1/agents/microapps', operation: 'agents.listMicroApps' },
+  { method: 'POST', path: '/api/v1/agents/microapps', operation: 'agents.createMicroApp' },
+  { method: 'GET', path: '/api/v1/agents/microapps/:identifier', operation: 'agents.getMicroApp' },
+  { method: 'PUT', path: '/api/v1/agents/microapps/:slug', operation: 'agents.updateMicroApp' },
+  { method: 'DELETE', path: '/api/v1/agents/microapps/:slug', operation: 'agents.deleteMicroApp' },
+  { method: 'POST', path: '/api/v1/artifacts', operation: 'artifacts.create' },
+  { method: 'GET', path: '/api/v1/artifacts', operation: 'artifacts.list' },
+  { method: 'GET', path: '/api/v1/artifacts/:id', operation: 'artifacts.get' },
+  { method: 'PATCH', path: '/api/v1/artifacts/:id', operation: 'artifacts.patch' },
+  { method: 'DELETE', path: '/api/v1/artifacts/:id', operation: 'artifacts.delete' },
+  { method: 'POST', path: '/api/v1/artifacts/bulk-delete', operation: 'artifacts.bulkDelete' },
+  { method: 'POST', path: '/api/v1/artifacts/:id/versions', operation: 'artifacts.addVersion' },
+  { method: 'GET', path: '/api/v1/artifacts/:id/versions', operation: 'artifacts.listVersions' },
+  { method: 'GET', path: '/api/v1/artifacts/:id/versions/:versionId', operation: 'artifacts.getVersion' },
+  { method: 'GET', path: '/api/v1/artifacts/export/capabilities', operation: 'artifacts.exportCapabilities' },
+  { method: 'GET', path: '/api/v1/billing/status', operation: 'billing.status' },
+  { method: 'GET', path: '/api/v1/billing/overview', operation: 'billing.overview' },
+  { method: 'GET', path: '/api/v1/billing/config', operation: 'billing.config' },
+  { method: 'PUT', path: '/api/v1/billing/limits', operation: 'billing.updateLimits' },
+  { method: 'PUT', path: '/api/v1/billing/invoice-settings', operation: 'billing.updateInvoiceSettings' },
+  { method: 'GET', path: '/api/v1/billing/usage/daily', operation: 'billing.usageDaily' },
+  { method: 'GET', path: '/api/v1/billing/usage/users', operation: 'billing.usageUsers' },
+  { method: 'GET', path: '/api/v1/billing/usage/models', operation: 'billing.usageModels' },
+  { method: 'GET', path: '/api/v1/billing/transactions', operation: 'billing.transactions' },
+  { method: 'GET', path: '/api/v1/billing/audit', operation: 'billing.audit' },
+  { method: 'GET', path: '/api/v1/billing/invoices', operation: 'billing.invoices' },
+  { method: 'GET', path: '/api/v1/billing/invoices/:id', operation: 'billing.getInvoice' },
+  { method: 'GET', path: '/api/v1/billing/invoices/:id/pdf', operation: 'billing.downloadInvoicePdf' },
+  { method: 'GET', path: '/api/v1/billing/invoices/:id/xml', operation: 'billing.downloadInvoiceXml' },
+  { method: 'POST', path: '/api/v1/chat/:widgetId/session', operation: 'chat.createWidgetSession' },
+  { method: 'POST', path: '/api/v1/chat/:widgetId/message', operation: 'chat.sendWidgetMessage' },
+  { method: 'GET', path: '/api/v1/chat/:widgetId/session/:sessionId', operation: 'chat.getWidgetSession' },
+  { method: 'DELETE', path: '/api/v1/chat/:widgetId/session/:sessionId', operation: 'chat.deleteWidgetSession' },
+  { method: 'POST', path: '/api/v1/chat/feedback', operation: 'chat.submitFeedback' },
+  { method: 'GET', path: '/api/v1/chat/feedback/:messageId', operation: 'chat.getFeedback' },
+  { method: 'GET', path: '/api/v1/context/settings', operation: 'context.getSettings' },
+  { method: 'POST', path: '/api/v1/context/settings', operation: 'context.updateSettings' },
+  { method: 'PUT', path: '/api/v1/context/settings/complete', operation: 'context.completeOnboarding' },
+  { method: 'POST', path: '/api/v1/credentials', operation: 'credentials.create' },
+  { method: 'GET', path: '/api/v1/credentials', operation: 'credentials.list' },
+  { method: 'GET', path: '/api/v1/credentials/:id', operation: 'credentials.get' },
+  { method: 'POST', path: '/api/v1/credentials/:id/rotate', operation: 'credentials.rotate' },
+  { method: 'POST', path: '/api/v1/credentials/:id/test', operation: 'credentials.test' },
+  { method: 'DELETE', path: '/api/v1/credentials/:id', operation: 'credentials.delete' },
+  { method: 'GET', path: '/api/v1/credentials/meta/types', operation: 'credentials.metaTypes' },
+  { method: 'GET', path: '/api/v1/credentials/meta/for-node/:nodeType', operation: 'credentials.metaForNode' },
+  { method: 'POST', path: '/api/v1/documents/upload', operation: 'documents.upload' },
+  { method: 'POST', path: '/api/v1/documents/uploads', operation: 'documents.uploadResumable' },
+  { method: 'PUT', path: '/api/v1/documents/uploads/:uploadId', operation: 'documents.uploadResumable' },
+  { method: 'POST', path: '/api/v1/documents/uploads/:uploadId/complete', operation: 'documents.uploadResumable' },
+  { method: 'GET', path: '/api/v1/documents/uploads/:uploadId', operation: 'documents.uploadStatus' },
+  { method: 'GET', path: '/api/v1/documents', operation: 'documents.list' },
+  { method: 'GET', path: '/api/v1/documents/:id', operation: 'documents.get' },
+  { method: 'GET', path: '/api/v1/documents/:id/download', operation: 'documents.download' },
+  { method: 'DELETE', path: '/api/v1/documents/:id', operation: 'documents.delete' },
+  { method: 'GET', path: '/api/v1/experts', operation: 'experts.list' },
+  { method: 'GET', path: '/api/v1/experts/:id', operation: 'experts.get' },
+  { method: 'GET', path: '/api/v1/experts/find', operation: 'experts.find' },
+  { method: 'POST', path: '/api/v1/flows/instances', operation: 'flows.createInstance' },
+  { method: 'GET', path: '/api/v1/flows/instances', operation: 'flows.listInstances' },
+  { method: 'POST', path: '/api/v1/flows', operation: 'flows.createFlow' },
+  { method: 'GET', path: '/api/v1/flows', operation: 'flows.listFlows' },
+  { method: 'POST', path: '/api/v1/flows/:id/run', operation: 'flows.runFlow' },
+  { method: 'GET', path: '/api/v1/flows/runs', operation: 'flows.listRuns' },
+  { method: 'GET', path: '/api/v1/flows/runs/:id', operation: 'flows.getRun' },
+  { method: 'GET', path: '/api/v1/flows/runs/:id/stream', operation: 'flows.streamRun' },
+  { method: 'GET', path: '/api/v1/flows/runs/:id/logs', operation: 'flows.runLogs' },
+  { method: 'GET', path: '/api/v1/flows/executions', operation: 'flows.listExecutions' },
+  { method: 'GET', path: '/api/v1/flows/executions/:id', operation: 'flows.getExecution' },
+  { method: 'POST', path: '/api/v1/knowledge/chat/think', operation: 'knowledge.think' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/chat/think', operation: 'knowledge.thinkInNotebook' },
+  { method: 'POST', path: '/api/v1/knowledge/chat/sessions', operation: 'knowledge.createSession' },
+  { method: 'GET', path: '/api/v1/knowledge/chat/sessions', operation: 'knowledge.listSessions' },
+  { method: 'GET', path: '/api/v1/knowledge/chat/sessions/:sessionId', operation: 'knowledge.getSession' },
+  { method: 'DELETE', path: '/api/v1/knowledge/chat/sessions/:sessionId', operation: 'knowledge.deleteSession' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/chat/sessions', operation: 'knowledge.createNotebookSession' },
+  { method: 'GET', path: '/api/v1/knowledge/notebooks/:notebookId/chat/sessions', operation: 'knowledge.listNotebookSessions' },
+  { method: 'GET', path: '/api/v1/knowledge/notebooks/:notebookId/chat/sessions/:sessionId', operation: 'knowledge.getNotebookSession' },
+  { method: 'DELETE', path: '/api/v1/knowledge/notebooks/:notebookId/chat/sessions/:sessionId', operation: 'knowledge.deleteNotebookSession' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/rag/ask', operation: 'knowledge.ragAsk' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/rag/ask/stream', operation: 'knowledge.ragAskStream' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/rag/search', operation: 'knowledge.ragSearch' },
+  { method: 'POST', path: '/api/v1/knowledge/search', operation: 'knowledge.search' },
+  { method: 'GET', path: '/api/v1/knowledge/assets/:assetId', operation: 'knowledge.getAsset' },
+  { method: 'GET', path: '/api/v1/knowledge/rag/stats', operation: 'knowledge.ragStats' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/rag/reindex', operation: 'knowledge.reindexNotebook' },
+  { method: 'GET', path: '/api/v1/knowledge/chat/capabilities', operation: 'knowledge.capabilities' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/research/generate', operation: 'knowledge.researchGenerate' },
+  { method: 'POST', path: '/api/v1/knowledge/research/preview', operation: 'knowledge.researchPreview' },
+  { method: 'GET', path: '/api/v1/knowledge/research/capabilities', operation: 'knowledge.researchCapabilities' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/research/sessions', operation: 'knowledge.createResearchSession' },
+  { method: 'GET', path: '/api/v1/knowledge/notebooks/:notebookId/research/sessions', operation: 'knowledge.listResearchSessions' },
+  { method: 'GET', path: '/api/v1/knowledge/notebooks/:notebookId/research/sessions/:sessionId', operation: 'knowledge.getResearchSession' },
+  { method: 'POST', path: '/api/v1/knowledge/notebooks/:notebookId/research/sessions/:sessionId/stream', operation: 'knowledge.streamResearch' },
+  { method: 'GET', path: '/api/v1/models', operation: 'models.list' },
+  { method: 'GET', path: '/api/v1/models/orchestrator-options', operation: 'models.orchestratorOptions' },
+  { method: 'GET', path: '/api/v1/models/services', operation: 'models.services' },
+  { method: 'GET', path: '/api/v1/models/allowlist', operation: 'models.getAllowlist' },
+  { method: 'PUT', path: '/api/v1/models/allowlist', operation: 'models.setAllowlist' },
+  { method: 'GET', path: '/api/v1/models/validate', operation: 'models.validateMappings' },
+  { method: 'GET', path: '/api/v1/monitoring/usage', operation: 'monitoring.usage' },
+  { method: 'GET', path: '/api/v1/monitoring/tools', operation: 'monitoring.tools' },
+  { method: 'POST', path: '/api/v1/notebooks', operation: 'notebooks.create' },
+  { method: 'GET', path: '/api/v1/notebooks', operation: 'notebooks.list' },
+  { method: 'GET', path: '/api/v1/notebooks/:id', operation: 'notebooks.get' },
+  { method: 'PUT', path: '/api/v1/notebooks/:id', operation: 'notebooks.update' },
+  { method: 'DELETE', path: '/api/v1/notebooks/:id', operation: 'notebooks.delete' },
+  { method: 'POST', path: '/api/v1/notebooks/bulk-delete', operation: 'notebooks.bulkDelete' },
+  { method: 'POST', path: '/api/v1/notebooks/:id/duplicate', operation: 'notebooks.duplicate' },
+  { method: 'POST', path: '/api/v1/notebooks/:notebookId/knowledge-assets', operation: 'notebooks.createKnowledgeAsset' },
+  { method: 'GET', path: '/api/v1/notebooks/:notebookId/knowledge-assets', operation: 'notebooks.listKnowledgeAssets' },
+  { method: 'GET', path: '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId', operation: 'notebooks.getKnowledgeAsset' },
+  { method: 'PATCH', path: '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId', operation: 'notebooks.patchKnowledgeAsset' },
+  { method: 'DELETE', path: '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId', operation: 'notebooks.deleteKnowledgeAsset' },
+  { method: 'POST', path: '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId/reindex', operation: 'notebooks.reindexKnowledgeAsset' },
+  { method: 'GET', path: '/api/v1/notebooks/:notebookId/artifacts', operation: 'notebooks.listArtifacts' },
+  { method: 'POST', path: '/api/v1/notebooks/:notebookId/cells', operation: 'notebooks.addCell' },
+  { method: 'PUT', path: '/api/v1/notebooks/:notebookId/cells/:cellId', operation: 'notebooks.updateCell' },
+  { method: 'DELETE', path: '/api/v1/notebooks/:notebookId/cells/:cellId', operation: 'notebooks.deleteCell' },
+  { method: 'POST', path: '/api/v1/prompts', operation: 'prompts.create' },
+  { method: 'GET', path: '/api/v1/prompts', operation: 'prompts.list' },
+  { method: 'GET', path: '/api/v1/prompts/:id', operation: 'prompts.get' },
+  { method: 'PUT', path: '/api/v1/prompts/:id', operation: 'prompts.update' },
+  { method: 'DELETE', path: '/api/v1/prompts/:id', operation: 'prompts.delete' },
+  { method: 'POST', path: '/api/v1/prompts/bulk-delete', operation: 'prompts.bulkDelete' },
+  { method: 'POST', path: '/api/v1/skills', operation: 'skills.create' },
+  { method: 'GET', path: '/api/v1/skills', operation: 'skills.list' },
+  { method: 'GET', path: '/api/v1/skills/:id', operation: 'skills.get' },
+  { method: 'PUT', path: '/api/v1/skills/:id', operation: 'skills.update' },
+  { method: 'PATCH', path: '/api/v1/skills/:id/definition', operation: 'skills.patchDefinition' },
+  { method: 'DELETE', path: '/api/v1/skills/:id', operation: 'skills.delete' },
+  { method: 'POST', path: '/api/v1/skills/bulk-delete', operation: 'skills.bulkDelete' },
+  { method: 'POST', path: '/api/v1/skills/:id/duplicate', operation: 'skills.duplicate' },
+  { method: 'POST', path: '/api/v1/skills/:id/activate', operation: 'skills.activate' },
+  { method: 'POST', path: '/api/v1/skills/:id/deactivate', operation: 'skills.deactivate' },
+  { method: 'POST', path: '/api/v1/skills/:id/run', operation: 'skills.run' },
+  { method: 'GET', path: '/api/v1/skills/:id/executions', operation: 'skills.listExecutions' },
+  { method: 'GET', path: '/api/v1/skills/:id/executions/:executionId', operation: 'skills.getExecution' },
+  { method: 'POST', path: '/api/v1/skills/:id/executions/:executionId/cancel', operation: 'skills.cancelExecution' },
+  { method: 'GET', path: '/api/v1/skills/:id/logs', operation: 'skills.listLogs' },
+  { method: 'GET', path: '/api/v1/skills/templates', operation: 'skills.listTemplates' },
+  { method: 'POST', path: '/api/v1/skills/copy-template', operation: 'skills.copyTemplate' },
+  { method: 'GET', path: '/api/v1/skills/nodes', operation: 'skills.listNodes' },
+  { method: 'GET', path: '/api/v1/skills/nodes/:type', operation: 'skills.getNode' },
+  { method: 'GET', path: '/api/v1/skills/nodes/meta/categories', operation: 'skills.nodeCategories' },
+  { method: 'GET', path: '/api/v1/skills/nodes/:type/examples', operation: 'skills.nodeExamples' },
+  { method: 'GET', path: '/api/v1/slides/themes', operation: 'slides.themes' },
+  { method: 'POST', path: '/api/v1/slides/sessions', operation: 'slides.createSession' },
+  { method: 'GET', path: '/api/v1/slides/sessions', operation: 'slides.listSessions' },
+  { method: 'GET', path: '/api/v1/slides/sessions/:sessionId', operation: 'slides.getSession' },
+  { method: 'DELETE', path: '/api/v1/slides/sessions/:sessionId', operation: 'slides.deleteSession' },
+  { method: 'POST', path: '/api/v1/slides/sessions/:sessionId/messages', operation: 'slides.sendMessage' },
+  { method: 'POST', path: '/api/v1/slides/sessions/:sessionId/messages/stream', operation: 'slides.sendMessageStream' },
+  { method: 'POST', path: '/api/v1/slides/sessions/:sessionId/design', operation: 'slides.selectDesign' },
+  { method: 'POST', path: '/api/v1/slides/sessions/:sessionId/generate-images', operation: 'slides.generateImages' },
+  { method: 'GET', path: '/api/v1/slides/sessions/:sessionId/html-preview', operation: 'slides.htmlPreview' },
+  { method: 'GET', path: '/api/v1/tasks', operation: 'tasks.list' },
+  { method: 'GET', path: '/api/v1/tasks/:taskId', operation: 'tasks.get' },
+  { method: 'POST', path: '/api/v1/tasks/:taskId', operation: 'tasks.submit' },
+  { method: 'GET', path: '/api/v1/tasks/:taskId/status', operation: 'tasks.status' },
+  { method: 'POST', path: '/api/v1/tasks/:taskId/cancel', operation: 'tasks.cancel' },
+  { method: 'GET', path: '/api/v1/tenant-admin/models', operation: 'tenantAdmin.listModels' },
+  { method: 'GET', path: '/api/v1/tenant-admin/models/allowlist', operation: 'tenantAdmin.getAllowlist' },
+  { method: 'PUT', path: '/api/v1/tenant-admin/models/allowlist', operation: 'tenantAdmin.setAllowlist' },
+  { method: 'GET', path: '/api/v1/users', operation: 'users.list' },
+  { method: 'POST', path: '/api/v1/users/invite', operation: 'users.invite' },
+  { method: 'PATCH', path: '/api/v1/users/:userId', operation: 'users.update' },
+  { method: 'DELETE', path: '/api/v1/users/:userId', operation: 'users.remove' },
+  { method: 'GET', path: '/api/v1/users/groups', operation: 'users.groups.list' },
+  { method: 'POST', path: '/api/v1/users/groups', operation: 'users.groups.create' },
+  { method: 'GET', path: '/api/v1/users/groups/:id', operation: 'users.groups.get' },
+  { method: 'PUT', path: '/api/v1/users/groups/:id', operation: 'users.groups.update' },
+  { method: 'DELETE', path: '/api/v1/users/groups/:id', operation: 'users.groups.delete' },
+  { method: 'POST', path: '/api/v1/tts', operation: 'voice.tts' },
+  { method: 'POST', path: '/api/v1/stt', operation: 'voice.stt' },
+  { method: 'POST', path: '/v1/chat/completions', operation: 'openai.chatCompletions' },
+  { method: 'GET', path: '/v1/models', operation: 'openai.listModels' },
+  { method: 'GET', path: '/v1/models/:model', operation: 'openai.retrieveModel' },
+  { method: 'POST', path: '/v1/audio/transcriptions', operation: 'openai.transcribe' },
+  { method: 'POST', path: '/v1/audio/speech', operation: 'openai.speech' },
+  { method: 'GET', path: '/api/version', operation: 'version' },
+  { method: 'GET', path: '/api/v1', operation: 'apiV1Index' },
+];
@@ -0,0 +1,80 @@
+/**
+ * Path helpers shared by the HTTP pipeline (domain attribution, per-route state, metric labels).
+ */
+
+import { SDK_ROUTES } from './route-manifest';
+
+/** First `/api/v1` segments whose domain client is named differently. */
+const DOMAIN_ALIASES: Record<string, string> = {
+  tts: 'voice',
+  stt: 'voice',
+  'tenant-admin': 'tenantAdmin',
+};
+
+function segments(path: string): string[] {
+  return path.split('?')[0]!.split('/').filter(Boolean);
+}
+
+/**
+ * Domain client that owns a path, e.g. `/api/v1/knowledge/chat/think` → `knowledge`,
+ * `/v1/chat/completions` → `openai`, `/api/version` → `client`.
+ */
+export function routeDomain(path: string): string {
+  const parts = segments(path);
+  if (parts[0] === 'v1') return 'openai';
+  if (parts[0] === 'api' && parts[1] === 'v1' && parts[2]) {
+    return DOMAIN_ALIASES[parts[2]] ?? parts[2];
+  }
+  return 'client';
+}
+
+/**
+ * Route prefix used to group per-route state, e.g. `/api/v1/knowledge/chat/think` → `/api/v1/knowledge`,
+ * `/v1/chat/completions` → `/v1/chat/completions`, `/v1/models/openai/gpt-4o` → `/v1/models`.
+ */
+export function routeGroup(path: string): string {
+  const parts = segments(path);
+  if (parts[0] === 'api' && parts[1] === 'v1') {
+    return `/${parts.slice(0, 3).join('/')}`;
+  }
+  if (parts[0] === 'v1') {
+    return parts[1] === 'models' ? '/v1/models' : `/${parts.slice(0, 3).join('/')}`;
+  }
+  return `/${parts.slice(0, 2).join('/')}`;
+}
+
+interface CompiledRoute {
+  method: string;
+  template: string;
+  pattern: RegExp;
+}
+
+let compiledRoutes: CompiledRoute[] | undefined;
+
+/** `SDK_ROUTES` as regexes, most literal segments first so `/skills/templates` beats `/skills/:id`. */
+function compileRoutes(): CompiledRoute[] {
+  const literals = (template: string) => segments(template).filter((s) => !s.startsWith(':')).length;
+  return [...SDK_ROUTES]
+    .sort((a, b) => literals(b.path) - literals(a.path))
+    .map(({ method, path }) => {
+      const source = path
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/^\/v1\/models\/:model$/, '/v1/models/.+')
+        .replace(/:[A-Za-z_]\w*/g, '[^/]+');
+      return { method, template: path, pattern: new RegExp(`^${source}/?$`) };
+    });
+}
+
+/**
+ * Low-cardinality template of a request path, e.g. `POST /api/v1/skills/64f…/run` → `/api/v1/skills/:id/run`.
+ * Paths outside `SDK_ROUTES` get segments containing digits (other than `v1`, `v2`, …) replaced by `:id`.
+ */
+export function routeTemplate(method: string, path: string): string {
+  const clean = path.split('?')[0]!;
+  compiledRoutes ??= compileRoutes();
+  const match = compiledRoutes.find((route) => route.method === method && route.pattern.test(clean));
+  if (match) return match.template;
+  return `/${segments(clean)
+    .map((s) => (/\d/.test(s) && !/^v\d+$/.test(s) ? ':id' : s))
+    .join('/')}`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Minimal structural schemas for response contracts (envelope, pagination, OpenAI `/v1`, stream events).
+ * They check documented fields only; extra fields are always accepted.
+ */
+
+export interface SchemaIssue {
+  /** Field path inside the body, e.g. `meta.pagination.totalPages` or `choices[0].delta` (`''` for the body). */
+  field: string;
+  expected: string;
+  received: string;
+}
+
+/** Returns the first mismatch in `value`, reporting fields relative to `field`. */
+export type Schema = (value: unknown, field: string) => SchemaIssue | undefined;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function mismatch(field: string, expected: string, value: unknown): SchemaIssue {
+  return { field, expected, received: describe(value) };
+}
+
+function child(field: string, key: string): string {
+  return field ? `${field}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const string: Schema = (v, f) => (typeof v === 'string' ? undefined : mismatch(f, 'string', v));
+const number: Schema = (v, f) => (typeof v === 'number' && !Number.isNaN(v) ? undefined : mismatch(f, 'number', v));
+const present: Schema = (v, f) => (v === undefined ? mismatch(f, 'a value', v) : undefined);
+
+function literal(...values: string[]): Schema {
+  const expected = values.map((v) => `"${v}"`).join(' | ');
+  return (v, f) => (typeof v === 'string' && values.includes(v) ? undefined : mismatch(f, expected, v));
+}
+
+function optional(schema: Schema): Schema {
+  return (v, f) => (v === undefined ? undefined : schema(v, f));
+}
+
+function nullable(schema: Schema): Schema {
+  return (v, f) => (v === null ? undefined : schema(v, f));
+}
+
+function array(item?: Schema): Schema {
+  return (v, f) => {
+    if (!Array.isArray(v)) return mismatch(f, 'array', v);
+    if (!item) return undefined;
+    for (let i = 0; i < v.length; i++) {
+      const issue = item(v[i], `${f}[${i}]`);
+      if (issue) return issue;
+    }
+    return undefined;
+  };
+}
+
+function object(shape: Record<string, Schema> = {}): Schema {
+  return (v, f) => {
+    if (!isRecord(v)) return mismatch(f, 'object', v);
+    for (const [key, schema] of Object.entries(shape)) {
+      const issue = schema(v[key], child(f, key));
+      if (issue) return issue;
+    }
+    return undefined;
+  };
+}
+
+export const paginationMetaSchema: Schema = object({
+  page: number,
+  limit: number,
+  total: number,
+  totalPages: number,
+});
+
+const responseMetaSchema = object({
+  requestId: string,
+  timestamp: string,
+  pagination: optional(paginationMetaSchema),
+});
+
+/** `{ data, meta }` returned by `/api/v1` routes. */
+export const envelopeSchema: Schema = object({ data: present, meta: responseMetaSchema });
+
+/** `{ data: [...], meta }` returned by list routes. */
+export const paginatedSchema: Schema = object({ data: array(), meta: responseMetaSchema });
+
+const streamEventData: Record<string, Schema> = {
+  delta: object({ content: string }),
+  complete: object(),
+  error: object({ message: string }),
+};
+
+/** One SSE event yielded by `AidenStream`; `delta`, `complete` and `error` payloads are checked too. */
+export const streamEventSchema: Schema = (v, f) => {
+  const issue = object({ type: string, phase: string, timestamp: number, visibility: string, data: present })(v, f);
+  if (issue) return issue;
+  const event = v as { type: string; data: unknown };
+  return streamEventData[event.type]?.(event.data, child(f, 'data'));
+};
+
+const finishReason = optional(nullable(string));
+
+const openAIUsageSchema = object({ prompt_tokens: number, completion_tokens: number, total_tokens: number });
+
+export const openAIChatCompletionSchema: Schema = object({
+  id: string,
+  object: literal('chat.completion'),
+  created: number,
+  model: string,
+  choices: array(
+    object({
+      index: number,
+      message: object({ role: string, content: nullable(string) }),
+      finish_reason: finishReason,
+    }),
+  ),
+  usage: optional(openAIUsageSchema),
+});
+
+export const openAIChatChunkSchema: Schema = object({
+  id: string,
+  object: literal('chat.completion.chunk'),
+  created: number,
+  model: string,
+  choices: array(
+    object({
+      index: number,
+      delta: object({ content: optional(nullable(string)) }),
+      finish_reason: finishReason,
+    }),
+  ),
+  usage: optional(nullable(openAIUsageSchema)),
+});
+
+export const openAIModelSchema: Schema = object({
+  id: string,
+  object: literal('model'),
+  created: number,
+  owned_by: string,
+});
+
+export const openAIModelsSchema: Schema = object({ object: literal('list'), data: array(openAIModelSchema) });
+
+export const openAITranscriptionSchema: Schema = object({ text: string });
@@ -0,0 +1,233 @@
+/**
+ * Distributed tracing hooks (`AidenClientConfig.tracer`). The SDK depends on no tracing library:
+ * adapt OpenTelemetry (or anything else) to `Tracer`, or use `BasicTracer`, which only creates
+ * W3C-compatible IDs and hands finished spans to a callback.
+ */
+
+import { AidenError } from './errors';
+import type { RequestContext } from './middleware';
+import { tapBody } from './body';
+import { routeTemplate } from './routes';
+import { randomBytes } from './ids';
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** W3C trace context of a span (`traceparent` / `tracestate`). */
+export interface SpanContext {
+  /** 32 lower-case hex characters. */
+  traceId: string;
+  /** 16 lower-case hex characters. */
+  spanId: string;
+  /** `1` when sampled (default). */
+  traceFlags?: number;
+  /** Serialized `tracestate` header value. */
+  traceState?: string;
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  addEvent(name: string, attributes?: SpanAttributes): void;
+  setStatus(status: 'ok' | 'error', message?: string): void;
+  end(): void;
+}
+
+export interface StartSpanOptions {
+  /** Parent span; without one, the tracer decides (e.g. the active OpenTelemetry context). */
+  parent?: Span;
+  attributes?: SpanAttributes;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: StartSpanOptions): Span;
+}
+
+/** `traceparent` header value for a span context. */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = (context.traceFlags ?? 1).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+export interface FinishedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: Record<string, SpanAttributeValue>;
+  events: { name: string; timeMs: number; attributes?: SpanAttributes }[];
+  status: 'unset' | 'ok' | 'error';
+  statusMessage?: string;
+  startTimeMs: number;
+  endTimeMs: number;
+}
+
+export interface BasicTracerOptions {
+  /** Receives every span when it ends (e.g. to log or export it). */
+  onEnd?: (span: FinishedSpan) => void;
+  /** `tracestate` sent with every request. */
+  traceState?: string;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(randomBytes(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function setAttributes(span: Span, attributes: SpanAttributes): void {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) span.setAttribute(key, value);
+  }
+}
+
+/** Minimal in-process tracer: random IDs, parent/child links, finished spans passed to `onEnd`. */
+export class BasicTracer implements Tracer {
+  constructor(private readonly options: BasicTracerOptions = {}) {}
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent?.spanContext();
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      traceFlags: parent?.traceFlags ?? 1,
+      traceState: parent?.traceState ?? this.options.traceState,
+    };
+    const data: FinishedSpan = {
+      name,
+      traceId: context.traceId,
+      spanId: context.spanId,
+      parentSpanId: parent?.spanId,
+      attributes: {},
+      events: [],
+      status: 'unset',
+      startTimeMs: Date.now(),
+      endTimeMs: 0,
+    };
+    const onEnd = this.options.onEnd;
+    const span: Span = {
+      spanContext: () => context,
+      setAttribute(key, value) {
+        data.attributes[key] = value;
+      },
+      addEvent(eventName, attributes) {
+        data.events.push({ name: eventName, timeMs: Date.now(), attributes });
+      },
+      setStatus(status, message) {
+        data.status = status;
+        data.statusMessage = message;
+      },
+      end() {
+        if (data.endTimeMs) return;
+        data.endTimeMs = Date.now();
+        onEnd?.(data);
+      },
+    };
+    setAttributes(span, options.attributes ?? {});
+    return span;
+  }
+}
+
+/**
+ * Spans of one logical call: the operation span, ended when the body has been parsed (or, for
+ * `text/event-stream` responses, when the stream finishes), and one child span per attempt.
+ */
+export class OperationTrace {
+  private readonly span: Span;
+  private readonly startedAt = Date.now();
+  private attemptSpan?: Span;
+  private attempts = 0;
+
+  constructor(
+    private readonly tracer: Tracer,
+    ctx: RequestContext,
+    parent?: Span,
+  ) {
+    this.span = tracer.startSpan(`aiden.${ctx.domain}`, {
+      parent,
+      attributes: {
+        'http.request.method': ctx.method,
+        'http.route': routeTemplate(ctx.method, ctx.path),
+        'aiden.path': ctx.path,
+        'aiden.domain': ctx.domain,
+      },
+    });
+  }
+
+  /** Starts the attempt span and injects `traceparent` / `tracestate` into the attempt's headers. */
+  startAttempt(ctx: RequestContext): void {
+    this.attempts = ctx.attempt + 1;
+    const span = this.tracer.startSpan(ctx.method, {
+      parent: this.span,
+      attributes: { 'http.request.method': ctx.method, 'url.full': ctx.url, 'aiden.attempt': ctx.attempt },
+    });
+    this.attemptSpan = span;
+    const context = span.spanContext();
+    ctx.headers['traceparent'] = formatTraceparent(context);
+    if (context.traceState) ctx.headers['tracestate'] = context.traceState;
+  }
+
+  /** Ends the attempt span with the response status or the attempt's error. */
+  endAttempt(response: Response | undefined, error: Error | undefined): void {
+    const span = this.attemptSpan;
+    if (!span) return;
+    this.attemptSpan = undefined;
+    const aidenError = error instanceof AidenError ? error : undefined;
+    setAttributes(span, {
+      'http.response.status_code': response?.status ?? (aidenError?.status || undefined),
+      'aiden.request_id': aidenError?.requestId ?? response?.headers.get('x-request-id') ?? undefined,
+      'error.type': aidenError?.code ?? error?.name,
+    });
+    span.setStatus(error ? 'error' : 'ok', error?.message);
+    span.end();
+  }
+
+  /**
+   * Records the successful response. Streams end the span when they finish and get
+   * `aiden.time_to_first_delta_ms`; otherwise the span ends right away (`body` supplies `meta.requestId`).
+   */
+  succeed(response: Response, body?: unknown): Response {
+    const requestId = (body as { meta?: { requestId?: unknown } } | undefined)?.meta?.requestId;
+    setAttributes(this.span, {
+      'http.response.status_code': response.status,
+      'aiden.request_id': typeof requestId === 'string' ? requestId : (response.headers.get('x-request-id') ?? undefined),
+      'aiden.retry_count': this.attempts - 1,
+    });
+
+    if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+      this.span.setStatus('ok');
+      this.span.end();
+      return response;
+    }
+
+    let firstDelta = true;
+    return tapBody(response, {
+      onDelta: () => {
+        if (!firstDelta) return;
+        firstDelta = false;
+        this.span.setAttribute('aiden.time_to_first_delta_ms', Date.now() - this.startedAt);
+        this.span.addEvent('first_delta');
+      },
+      onEnd: (outcome, error) => {
+        this.span.setAttribute('aiden.stream.outcome', outcome);
+        if (outcome === 'error') {
+          this.span.setStatus('error', error instanceof Error ? error.message : String(error));
+        } else {
+          this.span.setStatus('ok');
+        }
+        this.span.end();
+      },
+    });
+  }
+
+  /** Records the error the call rejects with (including body parse and validation errors) and ends the span. */
+  fail(error: Error): void {
+    const aidenError = error instanceof AidenError ? error : undefined;
+    setAttributes(this.span, {
+      'http.response.status_code': aidenError?.status || undefined,
+      'aiden.request_id': aidenError?.requestId,
+      'aiden.retry_count': Math.max(0, this.attempts - 1),
+      'error.type': aidenError?.code ?? error.name,
+    });
+    this.span.setStatus('error', error.message);
+    this.span.end();
+  }
+}
@@ -2,13 +2,118 @@
  * Shared types for the Aiden external API client (`{ data, meta }` envelope).
  */
 
+import type { Middleware } from './middleware';
+import type { RetryPolicy } from './retry';
+import type { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import type { RequestLimiter, RequestLimiterOptions } from './limiter';
+import type { ValidationMode } from './validation';
+import type { SchemaMismatchError } from './errors';
+import type { Logger, LogLevel } from './logger';
+import type { Span, Tracer } from './tracing';
+import type { MetricsSink } from './metrics';
+import type { ResponseCache, ResponseCacheOptions } from './cache';
+import type { AuthSource } from './auth';
+import type { QuotaTracker, QuotaTrackerOptions } from './quota';
+import type { DeprecationNotice, VersionCheckMode } from './versioning';
+
 export interface AidenClientConfig {
-  apiKey: string;
+  /** Static API key sent as `Authorization: Bearer …`; required unless `auth` is set. */
+  apiKey?: string;
+  /**
+   * Token provider called per request instead of a static `apiKey` (see `cachedAuth`). On a 401 the
+   * client refreshes once and replays the request; concurrent 401s share one refresh.
+   */
+  auth?: AuthSource;
   baseUrl: string;
   userId?: string;
+  /** Milliseconds each attempt waits for the response headers (first byte; default `30_000`). */
   timeout?: number;
+  /** Milliseconds for the whole call: every attempt, backoff and the body or stream (default: none). */
+  totalTimeout?: number;
+  /** Longest gap in milliseconds between two chunks of a response body or stream (default: none). */
+  idleTimeout?: number;
+  /** Retries for the built-in policy (default `3`); ignored when `retryPolicy` is set. */
   maxRetries?: number;
+  /** Decides whether and when to retry failed calls (default: `DefaultRetryPolicy`). */
+  retryPolicy?: RetryPolicy;
   fetch?: typeof fetch;
+  /** Interceptors run around every request, in order (see `Middleware`). */
+  middleware?: Middleware[];
+  /**
+   * Send a generated `Idempotency-Key` with every POST/PATCH so retries cannot run the operation twice
+   * (default `true`). When disabled, POST/PATCH calls without an explicit key only retry on failures
+   * the server never acted on (429, 503, connection refused).
+   */
+  idempotencyKeys?: boolean;
+  /**
+   * Fail fast with `CircuitOpenError` while a route prefix keeps returning 502/503/504 or connection
+   * errors. Pass a `CircuitBreaker` instance to share breaker state between clients.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions | CircuitBreaker;
+  /**
+   * Queue requests client-side (requests per second, max concurrency). A 429 with `Retry-After`
+   * pauses the whole queue. Pass a `RequestLimiter` instance to share one budget between clients.
+   */
+  limiter?: RequestLimiterOptions | RequestLimiter;
+  /**
+   * Check response bodies against the documented contract: the `{ data, meta }` envelope, pagination
+   * meta, OpenAI `/v1` shapes and stream events (default `'off'`). `'strict'` throws
+   * `SchemaMismatchError`; `'warn'` passes it to `onSchemaMismatch` and returns the body unchanged.
+   */
+  validate?: ValidationMode;
+  /** Receives mismatches in `'warn'` mode (default: `console.warn`). */
+  onSchemaMismatch?: (error: SchemaMismatchError) => void;
+  /** Receives structured request logs (`console`, pino, winston, …). */
+  logger?: Logger;
+  /**
+   * Minimum level to log (default `'info'` with a `logger`, otherwise `'silent'`; any other level without
+   * a `logger` logs to `console`). `'debug'` adds request headers and truncated bodies.
+   */
+  logLevel?: LogLevel;
+  /**
+   * Extra body keys, query parameters and headers to redact from logs. `Authorization` and the
+   * `credentials.create` / `credentials.rotate` payloads are always redacted.
+   */
+  logRedact?: string[];
+  /**
+   * Starts a span per call and a child span per attempt, and sends `traceparent` / `tracestate`.
+   * Stream spans stay open until the stream finishes.
+   */
+  tracer?: Tracer;
+  /**
+   * Receives one sample per finished call and per finished stream, labeled by route template
+   * (`/api/v1/skills/:id/run`). `MetricsCollector` aggregates them in memory.
+   */
+  metrics?: MetricsSink;
+  /**
+   * Cache GET responses of read-mostly routes (`models.list`, `knowledge.capabilities`, `skills.listNodes`,
+   * …) with per-route TTLs and `ETag` / `Last-Modified` revalidation. Pass a `ResponseCache` instance to
+   * share entries between clients.
+   */
+  cache?: boolean | ResponseCacheOptions | ResponseCache;
+  /**
+   * Share one call between concurrent identical JSON GETs (same URL and headers, incl. API key and
+   * `X-User-ID`) and the same per-call `timeout`, `totalTimeout`, `idleTimeout` and `retryPolicy`;
+   * every caller gets its own copy of the parsed body, made with `structuredClone` (default `true`).
+   * Streams and `requestRaw` calls are never shared.
+   */
+  coalesceGets?: boolean;
+  /**
+   * Low-quota threshold and callback for the rate-limit headers (`RateLimit-*`, `X-RateLimit-*`) read
+   * from every response. Pass a `QuotaTracker` instance to share quota state between clients.
+   */
+  quota?: QuotaTrackerOptions | QuotaTracker;
+  /**
+   * Compare the server's `contractVersion` (`GET /api/version`) with the range this SDK supports when
+   * the client is created. `'warn'` logs a mismatch; `'throw'` makes every call reject with
+   * `VersionMismatchError`. Off by default; `client.checkVersion()` runs the same check on demand.
+   */
+  versionCheck?: VersionCheckMode;
+  /**
+   * Called once per route whose responses carry a `Deprecation`, `Sunset` or `Warning` header
+   * (default: `aiden.deprecation` on the logger; nothing is written without one).
+   */
+  onDeprecation?: (notice: DeprecationNotice) => void;
 }
 
 export interface ResponseMeta {
@@ -76,12 +181,49 @@ export interface ListParams extends PaginationParams {
 }
 
 export interface RequestOptions {
+  /** First-byte timeout of each attempt (ms). */
   timeout?: number;
+  /** Deadline for the whole call, including retries and the body or stream (ms). */
+  totalTimeout?: number;
+  /** Longest gap between two body or stream chunks (ms). */
+  idleTimeout?: number;
   userId?: string;
   headers?: Record<string, string>;
   signal?: AbortSignal;
+  /** `Idempotency-Key` for this call, reused on every retry attempt. */
+  idempotencyKey?: string;
+  /** Overrides the client's retry policy for this call. */
+  retryPolicy?: RetryPolicy;
+  /** Parent of this call's span when a `tracer` is configured. */
+  parentSpan?: Span;
+  /** `false` sends this GET on its own even if an identical one is in flight. */
+  coalesce?: boolean;
+  /** Receives the response metadata once the call succeeds (see `withResponse`). */
+  onResponse?: (info: ResponseInfo) => void;
+}
+
+/** Metadata of a successful call. */
+export interface ResponseInfo {
+  /** The final response; its body has already been read unless the call returns a stream or raw `Response`. */
+  response: Response;
+  headers: Headers;
+  /** `meta.requestId` of the body, or the `X-Request-ID` header. */
+  requestId?: string;
+  /** Attempts made, including retries and auth replays; `0` when served from the response cache. */
+  attempts: number;
+  /** From the start of the call until the body was parsed (JSON) or the headers arrived (streams, raw). */
+  durationMs: number;
 }
 
+/**
+ * Defaults applied by `client.withOptions()` to every call. Per-call `RequestOptions` win;
+ * headers are merged and both signals abort the call.
+ */
+export type ScopedRequestOptions = Pick<
+  RequestOptions,
+  'userId' | 'headers' | 'timeout' | 'totalTimeout' | 'idleTimeout' | 'signal' | 'retryPolicy'
+>;
+
 export type PDCAPhase = 'plan' | 'do' | 'check' | 'act';
 export type ThinkingEventVisibility = 'prominent' | 'detail' | 'hidden';
 
@@ -162,6 +304,525 @@ export interface ChatSession {
   model?: string;
   messageCount?: number;
   lastMessageAt?: string;
+  messages?: ChatMessage[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Notebook: container for cells, knowledge assets and chat sessions. */
+export interface Notebook {
+  _id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  tags?: string[];
+  ownerId?: string;
+  cells?: Cell[];
+  knowledgeAssetCount?: number;
+  settings?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Cell {
+  _id: string;
+  type: string;
+  content?: string;
+  order?: number;
+  metadata?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Document, URL or text indexed into a notebook for RAG. */
+export interface KnowledgeAsset {
+  _id: string;
+  notebookId: string;
+  name: string;
+  type: string;
+  /** Indexing state, e.g. `pending`, `processing`, `indexed`, `failed`. */
+  status?: string;
+  documentId?: string;
+  url?: string;
+  mimeType?: string;
+  size?: number;
+  chunkCount?: number;
+  error?: string;
+  metadata?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Source passage attached to RAG answers and citations. */
+export interface RagSource {
+  assetId?: string;
+  documentId?: string;
+  title?: string;
+  content?: string;
+  score?: number;
+  page?: number;
+  url?: string;
+}
+
+export interface RagAnswer {
+  answer: string;
+  sources?: RagSource[];
+  sessionId?: string;
+  model?: string;
+}
+
+export interface RagSearchResult {
+  results: RagSource[];
+  total?: number;
+}
+
+export interface ResearchPreview {
+  outline?: string[];
+  sources?: RagSource[];
+  estimatedDurationMs?: number;
+  [key: string]: unknown;
+}
+
+export interface ReindexResult {
+  status: string;
+  jobId?: string;
+  assetCount?: number;
+}
+
+export interface ResearchSession {
+  _id: string;
+  notebookId: string;
+  title?: string;
+  status?: string;
+  query?: string;
+  report?: string;
+  sources?: RagSource[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Skill {
+  _id: string;
+  name: string;
+  description?: string;
+  /** e.g. `active`, `inactive`, `draft`. */
+  status?: string;
+  definition?: Record<string, unknown>;
+  inputs?: Record<string, unknown>;
+  tags?: string[];
+  version?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SkillLog {
+  _id?: string;
+  executionId?: string;
+  level: string;
+  message: string;
+  timestamp: string;
+  data?: unknown;
+}
+
+export interface SkillTemplate {
+  _id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  definition?: Record<string, unknown>;
+}
+
+/** Node type in the skill/flow node registry. */
+export interface SkillNode {
+  type: string;
+  name: string;
+  category?: string;
+  description?: string;
+  inputs?: unknown[];
+  outputs?: unknown[];
+  configSchema?: Record<string, unknown>;
+}
+
+export interface SkillNodeExample {
+  name?: string;
+  description?: string;
+  config: Record<string, unknown>;
+}
+
+export interface SkillNodeCategory {
+  id: string;
+  name: string;
+  description?: string;
+  nodeCount?: number;
+}
+
+export interface Flow {
+  _id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  definition?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface FlowInstance {
+  _id: string;
+  flowId: string;
+  name?: string;
+  status?: string;
+  config?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface FlowRun {
+  _id: string;
+  flowId?: string;
+  instanceId?: string;
+  /** e.g. `queued`, `running`, `completed`, `failed`, `cancelled`. */
+  status: string;
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  duration?: number;
+}
+
+export interface FlowRunLog {
+  level: string;
+  message: string;
+  timestamp: string;
+  nodeId?: string;
+  data?: unknown;
+}
+
+/** Node-level execution record within flow runs. */
+export interface FlowExecution {
+  _id: string;
+  runId?: string;
+  flowId?: string;
+  nodeId?: string;
+  status: string;
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface Artifact {
+  _id: string;
+  title: string;
+  type: string;
+  content?: string;
+  mimeType?: string;
+  notebookId?: string;
+  currentVersion?: number;
+  metadata?: Record<string, unknown>;
   createdAt?: string;
   updatedAt?: string;
 }
+
+export interface ArtifactVersion {
+  _id: string;
+  artifactId: string;
+  version: number;
+  content?: string;
+  changeNote?: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+export interface Prompt {
+  _id: string;
+  name: string;
+  content: string;
+  description?: string;
+  category?: string;
+  variables?: string[];
+  tags?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Integration credential; secret values are never returned. */
+export interface Credential {
+  _id: string;
+  name: string;
+  type: string;
+  description?: string;
+  status?: string;
+  lastTestedAt?: string;
+  lastRotatedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CredentialType {
+  type: string;
+  name: string;
+  description?: string;
+  fields: Array<{ name: string; label?: string; type: string; required?: boolean; secret?: boolean }>;
+}
+
+export interface CredentialTestResult {
+  success: boolean;
+  message?: string;
+  testedAt?: string;
+}
+
+/** Human-in-the-loop task. */
+export interface Task {
+  _id: string;
+  title: string;
+  description?: string;
+  /** e.g. `pending`, `in_progress`, `completed`, `cancelled`. */
+  status: string;
+  type?: string;
+  assignee?: string;
+  input?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  dueAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface TaskStatus {
+  taskId: string;
+  status: string;
+  updatedAt?: string;
+}
+
+export interface Invoice {
+  _id: string;
+  number: string;
+  status: string;
+  amount: number;
+  currency: string;
+  periodStart?: string;
+  periodEnd?: string;
+  issuedAt?: string;
+  dueAt?: string;
+  paidAt?: string;
+  lineItems?: Array<{ description: string; quantity?: number; unitPrice?: number; amount: number }>;
+}
+
+export interface BillingTransaction {
+  _id: string;
+  type: string;
+  amount: number;
+  currency?: string;
+  description?: string;
+  userId?: string;
+  createdAt: string;
+}
+
+export interface BillingStatus {
+  active: boolean;
+  plan?: string;
+  balance?: number;
+  currency?: string;
+  [key: string]: unknown;
+}
+
+export interface BillingOverview {
+  balance?: number;
+  currency?: string;
+  currentPeriod?: { start: string; end: string; spend: number };
+  [key: string]: unknown;
+}
+
+export interface BillingLimits {
+  monthlyBudget?: number;
+  perUserLimit?: number;
+  hardLimit?: boolean;
+  alertThresholds?: number[];
+  [key: string]: unknown;
+}
+
+export interface InvoiceSettings {
+  companyName?: string;
+  address?: string;
+  vatId?: string;
+  email?: string;
+  [key: string]: unknown;
+}
+
+export interface BillingConfig {
+  currency?: string;
+  limits?: BillingLimits;
+  invoiceSettings?: InvoiceSettings;
+  [key: string]: unknown;
+}
+
+export interface AuditEntry {
+  action: string;
+  userId?: string;
+  timestamp: string;
+  details?: Record<string, unknown>;
+}
+
+/** Free-form billing/usage report (shape varies by tenant plan). */
+export interface UsageReport {
+  [key: string]: unknown;
+}
+
+export interface User {
+  _id: string;
+  email: string;
+  name?: string;
+  role?: string;
+  status?: string;
+  groups?: string[];
+  lastLoginAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Group {
+  _id: string;
+  name: string;
+  description?: string;
+  members?: string[];
+  permissions?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface MicroApp {
+  _id: string;
+  slug: string;
+  name: string;
+  description?: string;
+  status?: string;
+  config?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface BuilderSession {
+  _id: string;
+  title?: string;
+  status?: string;
+  microAppId?: string;
+  messages?: ChatMessage[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ChatMessage {
+  _id?: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt?: string;
+  sources?: RagSource[];
+}
+
+/** Uploaded file (GridFS). */
+export interface Document {
+  _id: string;
+  filename: string;
+  contentType?: string;
+  size?: number;
+  metadata?: Record<string, unknown>;
+  uploadDate?: string;
+}
+
+/** Server-side state of a chunked upload (`/api/v1/documents/uploads/:uploadId`). */
+export interface UploadSession {
+  uploadId: string;
+  /** Bytes received so far; the next chunk starts here. */
+  offset: number;
+  /** Chunk size the server prefers, if any. */
+  chunkSize?: number;
+  expiresAt?: string;
+}
+
+export interface Expert {
+  _id: string;
+  name: string;
+  title?: string;
+  email?: string;
+  expertise?: string[];
+  department?: string;
+}
+
+export interface SlideSession {
+  _id: string;
+  title?: string;
+  status?: string;
+  themeId?: string;
+  slides?: Array<Record<string, unknown>>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SlideTheme {
+  id: string;
+  name: string;
+  description?: string;
+  previewUrl?: string;
+}
+
+export interface SlideHtmlPreview {
+  html: string;
+}
+
+/** Model entry from the tenant catalog. */
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  provider?: string;
+  capabilities?: string[];
+  contextWindow?: number;
+  enabled?: boolean;
+}
+
+export interface ModelAllowlist {
+  models: string[];
+}
+
+export interface SttResult {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+export interface ContextSettings {
+  companyName?: string;
+  industry?: string;
+  description?: string;
+  onboardingCompleted?: boolean;
+  [key: string]: unknown;
+}
+
+export interface WidgetSession {
+  sessionId: string;
+  widgetId?: string;
+  messages?: ChatMessage[];
+  expiresAt?: string;
+}
+
+export interface WidgetMessageReply {
+  sessionId?: string;
+  messageId?: string;
+  content: string;
+  sources?: RagSource[];
+}
+
+export interface ChatFeedback {
+  _id?: string;
+  messageId: string;
+  rating: number | 'up' | 'down';
+  comment?: string;
+  createdAt?: string;
+}
+
+/** Free-form capability / statistics document (keys vary by deployment). */
+export interface CapabilityInfo {
+  [key: string]: unknown;
+}
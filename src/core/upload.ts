@@ -0,0 +1,146 @@
+/**
+ * Upload sources (`Blob`, bytes, file paths, web and Node streams) read as fixed-size chunks for
+ * `documents.uploadResumable`.
+ */
+
+/** A `Blob`/`File`, bytes (`Buffer`), a file path (Node.js), a web `ReadableStream` or a Node `Readable`. */
+export type UploadSource = Blob | Uint8Array | string | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+export interface UploadProgress {
+  /** Server-side upload; pass it back as `uploadId` to resume after a failure (unset for single-request uploads). */
+  uploadId?: string;
+  /** Bytes sent so far, including those of the current chunk; drops back to the server's offset after a resume. */
+  bytesSent: number;
+  /** Size of the source, when known. */
+  totalBytes?: number;
+}
+
+/** Piece size of a request body sent through `uploadStream`. */
+const STREAM_SLICE = 64 * 1024;
+
+function isBlob(source: UploadSource): source is Blob {
+  return typeof Blob !== 'undefined' && source instanceof Blob;
+}
+
+function isWebStream(source: UploadSource): source is ReadableStream<Uint8Array> {
+  return typeof (source as ReadableStream).getReader === 'function';
+}
+
+async function* iterate(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>): AsyncGenerator<Uint8Array> {
+  if (isWebStream(source as UploadSource)) {
+    const reader = (source as ReadableStream<Uint8Array>).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  const encoder = new TextEncoder();
+  for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+    yield typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+  }
+}
+
+/** Size of `source` when it is known without reading it (bytes, blobs and files). */
+export async function sourceSize(source: UploadSource): Promise<number | undefined> {
+  if (source instanceof Uint8Array) return source.byteLength;
+  if (isBlob(source)) return source.size;
+  if (typeof source === 'string') {
+    const { stat } = await import('node:fs/promises');
+    return (await stat(source)).size;
+  }
+  return undefined;
+}
+
+/** Reads `source` from byte `offset` on; streams are read and discarded up to `offset`. */
+export async function* readSource(source: UploadSource, offset = 0): AsyncGenerator<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    yield source.subarray(offset);
+    return;
+  }
+  if (isBlob(source)) {
+    yield* iterate(source.slice(offset).stream());
+    return;
+  }
+  if (typeof source === 'string') {
+    const { createReadStream } = await import('node:fs');
+    yield* iterate(createReadStream(source, { start: offset }));
+    return;
+  }
+  let skip = offset;
+  for await (const chunk of iterate(source)) {
+    if (skip >= chunk.byteLength) {
+      skip -= chunk.byteLength;
+      continue;
+    }
+    yield skip ? chunk.subarray(skip) : chunk;
+    skip = 0;
+  }
+}
+
+function concat(parts: Uint8Array[], length: number): Uint8Array {
+  if (parts.length === 1) return parts[0]!;
+  const out = new Uint8Array(length);
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.byteLength;
+  }
+  return out;
+}
+
+/** `bytes` as a request body stream calling `onProgress` with the bytes handed to `fetch` so far. */
+export function uploadStream(bytes: Uint8Array, onProgress: (bytesSent: number) => void): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      const slice = bytes.subarray(sent, sent + STREAM_SLICE);
+      controller.enqueue(slice);
+      sent += slice.byteLength;
+      onProgress(sent);
+    },
+  });
+}
+
+/**
+ * Re-slices `chunks` into `size`-byte pieces; only the piece marked `last` may be shorter. An empty
+ * source yields one empty last piece.
+ */
+export async function* fixedChunks(
+  chunks: AsyncIterable<Uint8Array>,
+  size: number,
+): AsyncGenerator<{ bytes: Uint8Array; last: boolean }> {
+  let parts: Uint8Array[] = [];
+  let buffered = 0;
+  // One piece is held back so the final one can be flagged.
+  let pending: Uint8Array | undefined;
+
+  for await (let chunk of chunks) {
+    while (chunk.byteLength > 0) {
+      const take = Math.min(size - buffered, chunk.byteLength);
+      parts.push(chunk.subarray(0, take));
+      buffered += take;
+      chunk = chunk.subarray(take);
+      if (buffered === size) {
+        if (pending) yield { bytes: pending, last: false };
+        pending = concat(parts, buffered);
+        parts = [];
+        buffered = 0;
+      }
+    }
+  }
+
+  if (buffered > 0) {
+    if (pending) yield { bytes: pending, last: false };
+    pending = concat(parts, buffered);
+  }
+  yield { bytes: pending ?? new Uint8Array(0), last: true };
+}
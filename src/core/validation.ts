@@ -0,0 +1,45 @@
+/**
+ * Opt-in response validation (`AidenClientConfig.validate`): checks parsed bodies and stream
+ * payloads against `./schema` and throws or reports `SchemaMismatchError`.
+ */
+
+import type { ResponseMeta } from './types';
+import type { Schema } from './schema';
+import { SchemaMismatchError } from './errors';
+
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+/** Checks one payload of a response; bound to the request by `HttpClient.payloadCheck`. */
+export type PayloadCheck = (schema: Schema, value: unknown) => void;
+
+function warnToConsole(error: SchemaMismatchError): void {
+  console.warn(`[aiden-sdk] ${error.message}`);
+}
+
+function metaOf(value: unknown): ResponseMeta | undefined {
+  const meta = (value as { meta?: unknown } | null)?.meta;
+  return meta && typeof meta === 'object' ? (meta as ResponseMeta) : undefined;
+}
+
+export class ResponseValidator {
+  constructor(
+    readonly mode: ValidationMode = 'off',
+    private readonly onMismatch: (error: SchemaMismatchError) => void = warnToConsole,
+  ) {}
+
+  /** Throws (`strict`) or reports (`warn`) the first mismatch of `value` against `schema`. */
+  check(schema: Schema, value: unknown, path: string, response: Response): void {
+    if (this.mode === 'off') return;
+
+    const issue = schema(value, '');
+    if (!issue) return;
+
+    const meta = metaOf(value);
+    const requestId = meta?.requestId ?? response.headers.get('x-request-id') ?? 'unknown';
+    const error = new SchemaMismatchError(path, issue, response.status, requestId, meta);
+    if (this.mode === 'strict') {
+      throw error;
+    }
+    this.onMismatch(error);
+  }
+}
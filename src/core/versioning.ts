@@ -0,0 +1,127 @@
+/**
+ * API contract compatibility (`client.checkVersion()` / `versionCheck`) and deprecation notices read
+ * from the `Deprecation`, `Sunset` and `Warning` response headers.
+ */
+
+import { routeTemplate } from './routes';
+
+/** Contract versions this SDK was built against: `min` inclusive, `below` exclusive. */
+export const SUPPORTED_CONTRACT_VERSIONS = { min: '1.0.0', below: '2.0.0' } as const;
+
+/** `'warn'` reports a mismatch and carries on; `'throw'` fails every call with `VersionMismatchError`. */
+export type VersionCheckMode = 'warn' | 'throw';
+
+export interface VersionCheckResult {
+  /** `contractVersion` reported by `GET /api/version`. */
+  contractVersion: string;
+  supported: boolean;
+  range: { min: string; below: string };
+  deprecationPolicy?: string;
+}
+
+function versionParts(version: string): number[] {
+  const core = version.trim().replace(/^v/i, '').split(/[-+]/)[0]!;
+  return core.split('.').map((part) => parseInt(part, 10) || 0);
+}
+
+/** Compares dotted versions (`1.2.3`, `v1.4`); pre-release and build suffixes are ignored. */
+export function compareVersions(a: string, b: string): number {
+  const pa = versionParts(a);
+  const pb = versionParts(b);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+export function isContractSupported(version: string): boolean {
+  const { min, below } = SUPPORTED_CONTRACT_VERSIONS;
+  return compareVersions(version, min) >= 0 && compareVersions(version, below) < 0;
+}
+
+export interface DeprecationNotice {
+  method: string;
+  /** Route template, e.g. `/api/v1/skills/:id`. */
+  route: string;
+  /** `Deprecation` or `Sunset` was sent; `false` when the response carried only a `Warning`. */
+  deprecated: boolean;
+  /** When the route was deprecated, if the `Deprecation` header carries a date. */
+  deprecatedAt?: Date;
+  /** When the route will stop working (`Sunset`). */
+  sunsetAt?: Date;
+  /** Text of the `Warning` header. */
+  warning?: string;
+  /** `Link` with `rel="deprecation"` or `rel="sunset"`, usually migration docs. */
+  link?: string;
+}
+
+/** `Deprecation: @1688169599` (RFC 9745), an HTTP date (earlier drafts), or `true`. */
+function parseDeprecation(value: string): Date | undefined {
+  const epoch = /^@(-?\d+)$/.exec(value.trim());
+  if (epoch) return new Date(Number(epoch[1]) * 1000);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/** `299 - "Deprecated API" "Tue, 01 Jul 2025 00:00:00 GMT"` → `Deprecated API`. */
+function parseWarning(value: string): string {
+  return /"([^"]*)"/.exec(value)?.[1] ?? value;
+}
+
+function parseLink(value: string | null): string | undefined {
+  for (const part of value?.split(/,\s*(?=<)/) ?? []) {
+    const match = /^<([^>]+)>.*;\s*rel="?(?:deprecation|sunset)"?/i.exec(part.trim());
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Reads the `Deprecation`, `Sunset`, `Warning` and `Link` headers of a response, or `undefined` when
+ * it has none of the first three. A `Warning` alone (e.g. `299 - "Deprecated API"`) is reported with
+ * `deprecated: false`.
+ */
+export function parseDeprecationHeaders(method: string, path: string, headers: Headers): DeprecationNotice | undefined {
+  const deprecation = headers.get('deprecation');
+  const sunset = headers.get('sunset');
+  const warning = headers.get('warning');
+  if (!deprecation && !sunset && !warning) return undefined;
+
+  const notice: DeprecationNotice = { method, route: routeTemplate(method, path), deprecated: !!(deprecation || sunset) };
+  if (deprecation) notice.deprecatedAt = parseDeprecation(deprecation);
+  if (sunset && !isNaN(new Date(sunset).getTime())) notice.sunsetAt = new Date(sunset);
+  if (warning) notice.warning = parseWarning(warning);
+  const link = parseLink(headers.get('link'));
+  if (link) notice.link = link;
+  return notice;
+}
+
+/** One-line description of a notice for logs. */
+export function describeDeprecation(notice: DeprecationNotice): string {
+  let text = `${notice.method} ${notice.route}`;
+  text += notice.deprecated ? ' is deprecated' : ' sent a warning';
+  if (notice.sunsetAt) text += ` and will be removed after ${notice.sunsetAt.toISOString()}`;
+  if (notice.warning) text += `: ${notice.warning}`;
+  if (notice.link) text += ` (see ${notice.link})`;
+  return text;
+}
+
+/**
+ * Reports each route once, however often it is called: once for a `Warning` and once more if it
+ * later turns out to be deprecated.
+ */
+export class DeprecationMonitor {
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly notify: (notice: DeprecationNotice) => void) {}
+
+  observe(method: string, path: string, headers: Headers): void {
+    const notice = parseDeprecationHeaders(method, path, headers);
+    if (!notice) return;
+    const key = `${notice.method} ${notice.route} ${notice.deprecated}`;
+    if (this.seen.has(key)) return;
+    this.seen.add(key);
+    this.notify(notice);
+  }
+}
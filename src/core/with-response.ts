@@ -0,0 +1,31 @@
+import type { RequestOptions, ResponseInfo } from './types';
+
+/** Result of `withResponse`: the call's usual return value plus its response metadata. */
+export type WithResponse<T> = ResponseInfo & { data: T };
+
+/**
+ * Runs a client call and returns its result together with the response it came from. `call`
+ * receives the `RequestOptions` to pass on; works for JSON, paginated, plain, raw and streaming calls.
+ *
+ * ```ts
+ * const { data, headers, requestId, attempts } = await withResponse((o) => client.notebooks.get(id, o));
+ * const { data: stream, response } = await withResponse((o) => client.knowledge.think({ message }, o));
+ * ```
+ */
+export async function withResponse<T>(
+  call: (options: RequestOptions) => Promise<T>,
+  options: RequestOptions = {},
+): Promise<WithResponse<T>> {
+  let info: ResponseInfo | undefined;
+  const data = await call({
+    ...options,
+    onResponse: (received) => {
+      info = received;
+      options.onResponse?.(received);
+    },
+  });
+  if (!info) {
+    throw new Error('withResponse: the call did not pass its options on to the client.');
+  }
+  return { ...info, data };
+}
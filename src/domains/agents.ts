@@ -1,19 +1,50 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  BuilderSession,
+  ChatMessage,
+  MicroApp,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const B = '/api/v1/agents/builder';
 const M = '/api/v1/agents/microapps';
 
+export interface CreateBuilderSessionParams {
+  title?: string;
+  microAppId?: string;
+  [key: string]: unknown;
+}
+
+export interface BuilderMessageParams {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface CreateMicroAppParams {
+  name: string;
+  slug?: string;
+  description?: string;
+  config?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export type UpdateMicroAppParams = Partial<CreateMicroAppParams>;
+
 export class AgentsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async createBuilderSession(body: Record<string, unknown> = {}, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${B}/sessions`, body, ...options });
+  async createBuilderSession(body: CreateBuilderSessionParams = {}, options?: RequestOptions): Promise<ApiResponse<BuilderSession>> {
+    return this.http.request<BuilderSession>({ method: 'POST', path: `${B}/sessions`, body, ...options });
   }
 
-  async listBuilderSessions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async listBuilderSessions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<BuilderSession>> {
+    return this.http.requestPaginated<BuilderSession>({
       method: 'GET',
       path: `${B}/sessions`,
       query: listQuery(params),
@@ -21,20 +52,24 @@ export class AgentsApi {
     });
   }
 
-  async getBuilderSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${B}/sessions/${sessionId}`, ...options });
+  listBuilderSessionsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<BuilderSession> {
+    return paginate((p, o) => this.listBuilderSessions(p, o), params, options);
+  }
+
+  async getBuilderSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<BuilderSession>> {
+    return this.http.request<BuilderSession>({ method: 'GET', path: `${B}/sessions/${sessionId}`, ...options });
   }
 
   async deleteBuilderSession(sessionId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${B}/sessions/${sessionId}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${B}/sessions/${sessionId}`, ...options });
   }
 
-  async resetBuilderSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${B}/sessions/${sessionId}/reset`, body: {}, ...options });
+  async resetBuilderSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<BuilderSession>> {
+    return this.http.request<BuilderSession>({ method: 'POST', path: `${B}/sessions/${sessionId}/reset`, body: {}, ...options });
   }
 
-  async sendBuilderMessage(sessionId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async sendBuilderMessage(sessionId: string, body: BuilderMessageParams, options?: RequestOptions): Promise<ApiResponse<ChatMessage>> {
+    return this.http.request<ChatMessage>({
       method: 'POST',
       path: `${B}/sessions/${sessionId}/messages`,
       body,
@@ -42,7 +77,7 @@ export class AgentsApi {
     });
   }
 
-  async sendBuilderMessageStream(sessionId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<Response> {
+  async sendBuilderMessageStream(sessionId: string, body: BuilderMessageParams, options?: RequestOptions): Promise<Response> {
     return this.http.requestRaw({
       method: 'POST',
       path: `${B}/sessions/${sessionId}/messages/stream`,
@@ -52,23 +87,27 @@ export class AgentsApi {
     });
   }
 
-  async listMicroApps(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: M, query: listQuery(params), ...options });
+  async listMicroApps(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<MicroApp>> {
+    return this.http.requestPaginated<MicroApp>({ method: 'GET', path: M, query: listQuery(params), ...options });
+  }
+
+  listMicroAppsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<MicroApp> {
+    return paginate((p, o) => this.listMicroApps(p, o), params, options);
   }
 
-  async createMicroApp(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: M, body, ...options });
+  async createMicroApp(body: CreateMicroAppParams, options?: RequestOptions): Promise<ApiResponse<MicroApp>> {
+    return this.http.request<MicroApp>({ method: 'POST', path: M, body, ...options });
   }
 
-  async getMicroApp(identifier: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${M}/${identifier}`, ...options });
+  async getMicroApp(identifier: string, options?: RequestOptions): Promise<ApiResponse<MicroApp>> {
+    return this.http.request<MicroApp>({ method: 'GET', path: `${M}/${identifier}`, ...options });
   }
 
-  async updateMicroApp(slug: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${M}/${slug}`, body, ...options });
+  async updateMicroApp(slug: string, body: UpdateMicroAppParams, options?: RequestOptions): Promise<ApiResponse<MicroApp>> {
+    return this.http.request<MicroApp>({ method: 'PUT', path: `${M}/${slug}`, body, ...options });
   }
 
   async deleteMicroApp(slug: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${M}/${slug}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${M}/${slug}`, ...options });
   }
 }
@@ -1,49 +1,81 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Artifact,
+  ArtifactVersion,
+  CapabilityInfo,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/artifacts';
 
+export interface CreateArtifactParams {
+  title: string;
+  type: string;
+  content?: string;
+  mimeType?: string;
+  notebookId?: string;
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export type UpdateArtifactParams = Partial<CreateArtifactParams>;
+
+export interface AddArtifactVersionParams {
+  content: string;
+  changeNote?: string;
+  [key: string]: unknown;
+}
+
 export class ArtifactsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async create(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: P, body, ...options });
+  async create(body: CreateArtifactParams, options?: RequestOptions): Promise<ApiResponse<Artifact>> {
+    return this.http.request<Artifact>({ method: 'POST', path: P, body, ...options });
+  }
+
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Artifact>> {
+    return this.http.requestPaginated<Artifact>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Artifact> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Artifact>> {
+    return this.http.request<Artifact>({ method: 'GET', path: `${P}/${id}`, ...options });
   }
 
-  async patch(id: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PATCH', path: `${P}/${id}`, body, ...options });
+  async patch(id: string, body: UpdateArtifactParams, options?: RequestOptions): Promise<ApiResponse<Artifact>> {
+    return this.http.request<Artifact>({ method: 'PATCH', path: `${P}/${id}`, body, ...options });
   }
 
   async delete(id: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${id}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${id}`, ...options });
   }
 
   async bulkDelete(ids: string[], options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
+    await this.http.requestVoid({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
   }
 
-  async addVersion(id: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/versions`, body, ...options });
+  async addVersion(id: string, body: AddArtifactVersionParams, options?: RequestOptions): Promise<ApiResponse<ArtifactVersion>> {
+    return this.http.request<ArtifactVersion>({ method: 'POST', path: `${P}/${id}/versions`, body, ...options });
   }
 
-  async listVersions(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}/versions`, ...options });
+  async listVersions(id: string, options?: RequestOptions): Promise<ApiResponse<ArtifactVersion[]>> {
+    return this.http.request<ArtifactVersion[]>({ method: 'GET', path: `${P}/${id}/versions`, ...options });
   }
 
-  async getVersion(id: string, versionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}/versions/${versionId}`, ...options });
+  async getVersion(id: string, versionId: string, options?: RequestOptions): Promise<ApiResponse<ArtifactVersion>> {
+    return this.http.request<ArtifactVersion>({ method: 'GET', path: `${P}/${id}/versions/${versionId}`, ...options });
   }
 
-  async exportCapabilities(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/export/capabilities`, ...options });
+  async exportCapabilities(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/export/capabilities`, ...options });
   }
 }
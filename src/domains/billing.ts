@@ -1,5 +1,21 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  BillingStatus,
+  BillingOverview,
+  BillingConfig,
+  BillingLimits,
+  InvoiceSettings,
+  UsageReport,
+  BillingTransaction,
+  AuditEntry,
+  Invoice,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/billing';
@@ -7,40 +23,40 @@ const P = '/api/v1/billing';
 export class BillingApi {
   constructor(private readonly http: HttpClient) {}
 
-  async status(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/status`, ...options });
+  async status(options?: RequestOptions): Promise<ApiResponse<BillingStatus>> {
+    return this.http.request<BillingStatus>({ method: 'GET', path: `${P}/status`, ...options });
   }
 
-  async overview(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/overview`, ...options });
+  async overview(options?: RequestOptions): Promise<ApiResponse<BillingOverview>> {
+    return this.http.request<BillingOverview>({ method: 'GET', path: `${P}/overview`, ...options });
   }
 
-  async config(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/config`, ...options });
+  async config(options?: RequestOptions): Promise<ApiResponse<BillingConfig>> {
+    return this.http.request<BillingConfig>({ method: 'GET', path: `${P}/config`, ...options });
   }
 
-  async updateLimits(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/limits`, body, ...options });
+  async updateLimits(body: BillingLimits, options?: RequestOptions): Promise<ApiResponse<BillingConfig>> {
+    return this.http.request<BillingConfig>({ method: 'PUT', path: `${P}/limits`, body, ...options });
   }
 
-  async updateInvoiceSettings(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/invoice-settings`, body, ...options });
+  async updateInvoiceSettings(body: InvoiceSettings, options?: RequestOptions): Promise<ApiResponse<BillingConfig>> {
+    return this.http.request<BillingConfig>({ method: 'PUT', path: `${P}/invoice-settings`, body, ...options });
   }
 
-  async usageDaily(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/usage/daily`, ...options });
+  async usageDaily(options?: RequestOptions): Promise<ApiResponse<UsageReport>> {
+    return this.http.request<UsageReport>({ method: 'GET', path: `${P}/usage/daily`, ...options });
   }
 
-  async usageUsers(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/usage/users`, ...options });
+  async usageUsers(options?: RequestOptions): Promise<ApiResponse<UsageReport>> {
+    return this.http.request<UsageReport>({ method: 'GET', path: `${P}/usage/users`, ...options });
   }
 
-  async usageModels(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/usage/models`, ...options });
+  async usageModels(options?: RequestOptions): Promise<ApiResponse<UsageReport>> {
+    return this.http.request<UsageReport>({ method: 'GET', path: `${P}/usage/models`, ...options });
   }
 
-  async transactions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async transactions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<BillingTransaction>> {
+    return this.http.requestPaginated<BillingTransaction>({
       method: 'GET',
       path: `${P}/transactions`,
       query: listQuery(params),
@@ -48,12 +64,16 @@ export class BillingApi {
     });
   }
 
-  async audit(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/audit`, ...options });
+  transactionsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<BillingTransaction> {
+    return paginate((p, o) => this.transactions(p, o), params, options);
   }
 
-  async invoices(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async audit(options?: RequestOptions): Promise<ApiResponse<AuditEntry[]>> {
+    return this.http.request<AuditEntry[]>({ method: 'GET', path: `${P}/audit`, ...options });
+  }
+
+  async invoices(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Invoice>> {
+    return this.http.requestPaginated<Invoice>({
       method: 'GET',
       path: `${P}/invoices`,
       query: listQuery(params),
@@ -61,8 +81,12 @@ export class BillingApi {
     });
   }
 
-  async getInvoice(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/invoices/${id}`, ...options });
+  invoicesAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Invoice> {
+    return paginate((p, o) => this.invoices(p, o), params, options);
+  }
+
+  async getInvoice(id: string, options?: RequestOptions): Promise<ApiResponse<Invoice>> {
+    return this.http.request<Invoice>({ method: 'GET', path: `${P}/invoices/${id}`, ...options });
   }
 
   async downloadInvoicePdf(id: string, options?: RequestOptions): Promise<Response> {
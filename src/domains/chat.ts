@@ -3,34 +3,59 @@
  */
 
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  RequestOptions,
+  WidgetSession,
+  WidgetMessageReply,
+  ChatFeedback,
+} from '../core/types';
 
 const P = '/api/v1/chat';
 
+export interface CreateWidgetSessionParams {
+  locale?: string;
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface WidgetMessageParams {
+  message: string;
+  sessionId?: string;
+  [key: string]: unknown;
+}
+
+export interface FeedbackParams {
+  messageId: string;
+  rating: number | 'up' | 'down';
+  comment?: string;
+  [key: string]: unknown;
+}
+
 export class ChatApi {
   constructor(private readonly http: HttpClient) {}
 
-  async createWidgetSession(widgetId: string, body: Record<string, unknown> = {}, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${widgetId}/session`, body, ...options });
+  async createWidgetSession(widgetId: string, body: CreateWidgetSessionParams = {}, options?: RequestOptions): Promise<ApiResponse<WidgetSession>> {
+    return this.http.request<WidgetSession>({ method: 'POST', path: `${P}/${widgetId}/session`, body, ...options });
   }
 
-  async sendWidgetMessage(widgetId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${widgetId}/message`, body, ...options });
+  async sendWidgetMessage(widgetId: string, body: WidgetMessageParams, options?: RequestOptions): Promise<ApiResponse<WidgetMessageReply>> {
+    return this.http.request<WidgetMessageReply>({ method: 'POST', path: `${P}/${widgetId}/message`, body, ...options });
   }
 
-  async getWidgetSession(widgetId: string, sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${widgetId}/session/${sessionId}`, ...options });
+  async getWidgetSession(widgetId: string, sessionId: string, options?: RequestOptions): Promise<ApiResponse<WidgetSession>> {
+    return this.http.request<WidgetSession>({ method: 'GET', path: `${P}/${widgetId}/session/${sessionId}`, ...options });
   }
 
   async deleteWidgetSession(widgetId: string, sessionId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${widgetId}/session/${sessionId}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${widgetId}/session/${sessionId}`, ...options });
   }
 
-  async submitFeedback(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/feedback`, body, ...options });
+  async submitFeedback(body: FeedbackParams, options?: RequestOptions): Promise<ApiResponse<ChatFeedback>> {
+    return this.http.request<ChatFeedback>({ method: 'POST', path: `${P}/feedback`, body, ...options });
   }
 
-  async getFeedback(messageId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/feedback/${messageId}`, ...options });
+  async getFeedback(messageId: string, options?: RequestOptions): Promise<ApiResponse<ChatFeedback>> {
+    return this.http.request<ChatFeedback>({ method: 'GET', path: `${P}/feedback/${messageId}`, ...options });
   }
 }
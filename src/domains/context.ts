@@ -1,20 +1,24 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  RequestOptions,
+  ContextSettings,
+} from '../core/types';
 
 const P = '/api/v1/context';
 
 export class ContextApi {
   constructor(private readonly http: HttpClient) {}
 
-  async getSettings(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/settings`, ...options });
+  async getSettings(options?: RequestOptions): Promise<ApiResponse<ContextSettings>> {
+    return this.http.request<ContextSettings>({ method: 'GET', path: `${P}/settings`, ...options });
   }
 
-  async updateSettings(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/settings`, body, ...options });
+  async updateSettings(body: ContextSettings, options?: RequestOptions): Promise<ApiResponse<ContextSettings>> {
+    return this.http.request<ContextSettings>({ method: 'POST', path: `${P}/settings`, body, ...options });
   }
 
-  async completeOnboarding(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/settings/complete`, body: {}, ...options });
+  async completeOnboarding(options?: RequestOptions): Promise<ApiResponse<ContextSettings>> {
+    return this.http.request<ContextSettings>({ method: 'PUT', path: `${P}/settings/complete`, body: {}, ...options });
   }
 }
@@ -1,42 +1,65 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Credential,
+  CredentialType,
+  CredentialTestResult,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/credentials';
 
+export interface CreateCredentialParams {
+  name: string;
+  type: string;
+  /** Secret fields for the credential type (see `metaTypes`). */
+  values: Record<string, string>;
+  description?: string;
+  [key: string]: unknown;
+}
+
 export class CredentialsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async create(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: P, body, ...options });
+  async create(body: CreateCredentialParams, options?: RequestOptions): Promise<ApiResponse<Credential>> {
+    return this.http.request<Credential>({ method: 'POST', path: P, body, ...options });
+  }
+
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Credential>> {
+    return this.http.requestPaginated<Credential>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Credential> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Credential>> {
+    return this.http.request<Credential>({ method: 'GET', path: `${P}/${id}`, ...options });
   }
 
-  async rotate(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/rotate`, body: {}, ...options });
+  async rotate(id: string, options?: RequestOptions): Promise<ApiResponse<Credential>> {
+    return this.http.request<Credential>({ method: 'POST', path: `${P}/${id}/rotate`, body: {}, ...options });
   }
 
-  async test(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/test`, body: {}, ...options });
+  async test(id: string, options?: RequestOptions): Promise<ApiResponse<CredentialTestResult>> {
+    return this.http.request<CredentialTestResult>({ method: 'POST', path: `${P}/${id}/test`, body: {}, ...options });
   }
 
   async delete(id: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${id}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${id}`, ...options });
   }
 
-  async metaTypes(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/meta/types`, ...options });
+  async metaTypes(options?: RequestOptions): Promise<ApiResponse<CredentialType[]>> {
+    return this.http.request<CredentialType[]>({ method: 'GET', path: `${P}/meta/types`, ...options });
   }
 
-  async metaForNode(nodeType: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async metaForNode(nodeType: string, options?: RequestOptions): Promise<ApiResponse<CredentialType[]>> {
+    return this.http.request<CredentialType[]>({
       method: 'GET',
       path: `${P}/meta/for-node/${encodeURIComponent(nodeType)}`,
       ...options,
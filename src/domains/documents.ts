@@ -1,16 +1,60 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Document,
+  UploadSession,
+} from '../core/types';
+import { AidenError, isRetryable } from '../core/errors';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
+import { fixedChunks, readSource, sourceSize } from '../core/upload';
+import type { UploadProgress, UploadSource } from '../core/upload';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/documents';
 
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+export interface ResumableUploadParams {
+  source: UploadSource;
+  filename: string;
+  contentType?: string;
+  metadata?: Record<string, unknown>;
+  /** Size in bytes of a stream source (used for progress and `Content-Range`; measured for the others). */
+  size?: number;
+  /** Bytes per chunk (default: the server's preference, else 8 MiB). */
+  chunkSize?: number;
+  /** Continue an earlier upload (`UploadProgress.uploadId`); `source` must again start at byte 0. */
+  uploadId?: string;
+  /** How often a chunk that failed after retries is resumed from the server's offset (default `3`). */
+  maxResumes?: number;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/** The server has no chunked upload routes. */
+function isUnsupported(error: unknown): boolean {
+  return error instanceof AidenError && [404, 405, 501].includes(error.status);
+}
+
+/** An acknowledgement moving the upload forward, at most to its end. */
+function isAdvance(acknowledged: unknown, sentFrom: number, total: number): acknowledged is number {
+  return typeof acknowledged === 'number' && Number.isFinite(acknowledged) && acknowledged > sentFrom && acknowledged <= total;
+}
+
+function offsetMismatch(offset: number, expected: string): AidenError {
+  return new AidenError(`Upload offset ${offset} reported by the server; expected ${expected}`, 'UPLOAD_OFFSET_MISMATCH', 0, 'unknown');
+}
+
 export class DocumentsApi {
   constructor(private readonly http: HttpClient) {}
 
   async upload(
     params: { file: Blob | Buffer; filename: string; metadata?: Record<string, unknown> },
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
+  ): Promise<ApiResponse<Document>> {
     const form = new FormData();
     const blob =
       typeof Buffer !== 'undefined' && Buffer.isBuffer(params.file)
@@ -29,15 +73,143 @@ export class DocumentsApi {
       bodyMode: 'raw',
       ...options,
     });
-    return response.json() as Promise<ApiResponse<unknown>>;
+    return response.json() as Promise<ApiResponse<Document>>;
+  }
+
+  /**
+   * Uploads `source` in chunks without holding it in memory. Each chunk is acknowledged with the
+   * server's offset (asked for again when the acknowledgement is not a valid offset past the chunk's
+   * start); a chunk that still fails after retries is resumed from the last acknowledged offset.
+   * `onProgress` also fires while a chunk is being sent. Servers without chunked uploads get a single
+   * `upload()` request instead.
+   */
+  async uploadResumable(params: ResumableUploadParams, options?: RequestOptions): Promise<ApiResponse<Document>> {
+    const totalBytes = params.size ?? (await sourceSize(params.source));
+    let reported: number | undefined;
+    const report = (uploadId: string | undefined, bytesSent: number) => {
+      if (bytesSent === reported) return;
+      reported = bytesSent;
+      params.onProgress?.({ uploadId, bytesSent, totalBytes });
+    };
+
+    let session: UploadSession;
+    try {
+      session = params.uploadId
+        ? await this.uploadStatus(params.uploadId, options)
+        : await this.startUpload(params, totalBytes, options);
+    } catch (error) {
+      if (params.uploadId || !isUnsupported(error)) throw error;
+      return this.uploadWhole(params, report, options);
+    }
+
+    const { uploadId } = session;
+    let offset = session.offset;
+    let resumes = params.maxResumes ?? 3;
+    report(uploadId, offset);
+
+    const chunkSize = params.chunkSize ?? session.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    for await (const { bytes, last } of fixedChunks(readSource(params.source, offset), chunkSize)) {
+      const start = offset;
+      const end = start + bytes.byteLength;
+      const total = totalBytes ?? (last ? end : undefined);
+      while (offset < end) {
+        const sentFrom = offset;
+        let resumed = false;
+        try {
+          const chunk = bytes.subarray(offset - start);
+          const sent = (n: number) => report(uploadId, sentFrom + n);
+          const { offset: acknowledged } = await this.putChunk(uploadId, chunk, offset, total, sent, options);
+          offset = isAdvance(acknowledged, sentFrom, total ?? end) ? acknowledged : (await this.uploadStatus(uploadId, options)).offset;
+        } catch (error) {
+          if (resumes-- <= 0 || !isRetryable(error)) throw error;
+          offset = (await this.uploadStatus(uploadId, options)).offset;
+          resumed = true;
+        }
+        // Only the current chunk is buffered, so the upload cannot continue from before it.
+        if (!Number.isFinite(offset) || offset < start || offset > end) throw offsetMismatch(offset, `${start}-${end}`);
+        if (offset === sentFrom && !resumed) throw offsetMismatch(offset, `more than ${sentFrom} after a chunk`);
+        report(uploadId, offset);
+      }
+    }
+
+    return this.http.request<Document>({
+      method: 'POST',
+      path: `${P}/uploads/${uploadId}/complete`,
+      body: { size: offset },
+      ...options,
+    });
+  }
+
+  /** Offset the server has acknowledged for a chunked upload. */
+  async uploadStatus(uploadId: string, options?: RequestOptions): Promise<UploadSession> {
+    const { data } = await this.http.request<UploadSession>({ method: 'GET', path: `${P}/uploads/${uploadId}`, ...options });
+    return data;
+  }
+
+  private async startUpload(
+    params: ResumableUploadParams,
+    size: number | undefined,
+    options?: RequestOptions,
+  ): Promise<UploadSession> {
+    const { data } = await this.http.request<UploadSession>({
+      method: 'POST',
+      path: `${P}/uploads`,
+      body: { filename: params.filename, size, contentType: params.contentType, metadata: params.metadata },
+      ...options,
+    });
+    return data;
+  }
+
+  private async putChunk(
+    uploadId: string,
+    bytes: Uint8Array,
+    offset: number,
+    total: number | undefined,
+    onUploadProgress: (bytesSent: number) => void,
+    options?: RequestOptions,
+  ): Promise<UploadSession> {
+    const response = await this.http.requestRaw({
+      method: 'PUT',
+      path: `${P}/uploads/${uploadId}`,
+      body: bytes,
+      bodyMode: 'raw',
+      onUploadProgress,
+      ...options,
+      headers: {
+        ...options?.headers,
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${offset}-${offset + bytes.byteLength - 1}/${total ?? '*'}`,
+      },
+    });
+    const { data } = (await response.json()) as ApiResponse<UploadSession>;
+    return data;
+  }
+
+  /** Fallback for servers without chunked uploads: the source is read into one `Blob`. */
+  private async uploadWhole(
+    params: ResumableUploadParams,
+    report: (uploadId: string | undefined, bytesSent: number) => void,
+    options?: RequestOptions,
+  ): Promise<ApiResponse<Document>> {
+    const parts: BlobPart[] = [];
+    for await (const chunk of readSource(params.source)) parts.push(chunk as BlobPart);
+    const file = new Blob(parts, params.contentType ? { type: params.contentType } : undefined);
+    report(undefined, 0);
+    const result = await this.upload({ file, filename: params.filename, metadata: params.metadata }, options);
+    report(undefined, file.size);
+    return result;
+  }
+
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Document>> {
+    return this.http.requestPaginated<Document>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Document> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Document>> {
+    return this.http.request<Document>({ method: 'GET', path: `${P}/${id}`, ...options });
   }
 
   async download(id: string, options?: RequestOptions): Promise<Response> {
@@ -45,6 +217,6 @@ export class DocumentsApi {
   }
 
   async delete(id: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${id}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${id}`, ...options });
   }
 }
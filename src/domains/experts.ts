@@ -1,21 +1,40 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Expert,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/experts';
 
+export interface ExpertQuery {
+  topic?: string;
+  skill?: string;
+  limit?: number;
+  [key: string]: string | number | boolean | undefined;
+}
+
 export class ExpertsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Expert>> {
+    return this.http.requestPaginated<Expert>({ method: 'GET', path: P, query: listQuery(params), ...options });
+  }
+
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Expert> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Expert>> {
+    return this.http.request<Expert>({ method: 'GET', path: `${P}/${id}`, ...options });
   }
 
-  async find(query: Record<string, string | number | boolean | undefined>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/find`, query, ...options });
+  async find(query: ExpertQuery, options?: RequestOptions): Promise<ApiResponse<Expert[]>> {
+    return this.http.request<Expert[]>({ method: 'GET', path: `${P}/find`, query, ...options });
   }
 }
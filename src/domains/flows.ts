@@ -1,19 +1,51 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Flow,
+  FlowInstance,
+  FlowRun,
+  FlowRunLog,
+  FlowExecution,
+} from '../core/types';
 import { AidenStream } from '../stream/aiden-stream';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/flows';
 
+export interface CreateFlowInstanceParams {
+  flowId: string;
+  name?: string;
+  config?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface CreateFlowParams {
+  name: string;
+  description?: string;
+  definition?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface RunFlowParams {
+  inputs?: Record<string, unknown>;
+  instanceId?: string;
+  [key: string]: unknown;
+}
+
 export class FlowsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async createInstance(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/instances`, body, ...options });
+  async createInstance(body: CreateFlowInstanceParams, options?: RequestOptions): Promise<ApiResponse<FlowInstance>> {
+    return this.http.request<FlowInstance>({ method: 'POST', path: `${P}/instances`, body, ...options });
   }
 
-  async listInstances(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async listInstances(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<FlowInstance>> {
+    return this.http.requestPaginated<FlowInstance>({
       method: 'GET',
       path: `${P}/instances`,
       query: listQuery(params),
@@ -21,38 +53,51 @@ export class FlowsApi {
     });
   }
 
-  async createFlow(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: P, body, ...options });
+  listInstancesAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<FlowInstance> {
+    return paginate((p, o) => this.listInstances(p, o), params, options);
+  }
+
+  async createFlow(body: CreateFlowParams, options?: RequestOptions): Promise<ApiResponse<Flow>> {
+    return this.http.request<Flow>({ method: 'POST', path: P, body, ...options });
   }
 
-  async listFlows(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  async listFlows(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Flow>> {
+    return this.http.requestPaginated<Flow>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async runFlow(id: string, body: Record<string, unknown> = {}, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/run`, body, ...options });
+  listFlowsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Flow> {
+    return paginate((p, o) => this.listFlows(p, o), params, options);
   }
 
-  async listRuns(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: `${P}/runs`, query: listQuery(params), ...options });
+  async runFlow(id: string, body: RunFlowParams = {}, options?: RequestOptions): Promise<ApiResponse<FlowRun>> {
+    return this.http.request<FlowRun>({ method: 'POST', path: `${P}/${id}/run`, body, ...options });
   }
 
-  async getRun(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/runs/${id}`, ...options });
+  async listRuns(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<FlowRun>> {
+    return this.http.requestPaginated<FlowRun>({ method: 'GET', path: `${P}/runs`, query: listQuery(params), ...options });
+  }
+
+  listRunsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<FlowRun> {
+    return paginate((p, o) => this.listRuns(p, o), params, options);
+  }
+
+  async getRun(id: string, options?: RequestOptions): Promise<ApiResponse<FlowRun>> {
+    return this.http.request<FlowRun>({ method: 'GET', path: `${P}/runs/${id}`, ...options });
   }
 
   async streamRun(id: string, options?: RequestOptions): Promise<AidenStream> {
+    const path = `${P}/runs/${id}/stream`;
     const res = await this.http.requestRaw({
       method: 'GET',
-      path: `${P}/runs/${id}/stream`,
+      path,
       headers: { Accept: 'text/event-stream', ...options?.headers },
       ...options,
     });
-    return new AidenStream(res);
+    return new AidenStream(res, this.http.payloadCheck(path, res));
   }
 
-  async runLogs(id: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async runLogs(id: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<FlowRunLog>> {
+    return this.http.requestPaginated<FlowRunLog>({
       method: 'GET',
       path: `${P}/runs/${id}/logs`,
       query: listQuery(params),
@@ -60,8 +105,12 @@ export class FlowsApi {
     });
   }
 
-  async listExecutions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  runLogsAll(id: string, params?: ListParams, options?: AutoPaginateOptions): PageIterator<FlowRunLog> {
+    return paginate((p, o) => this.runLogs(id, p, o), params, options);
+  }
+
+  async listExecutions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<FlowExecution>> {
+    return this.http.requestPaginated<FlowExecution>({
       method: 'GET',
       path: `${P}/executions`,
       query: listQuery(params),
@@ -69,7 +118,11 @@ export class FlowsApi {
     });
   }
 
-  async getExecution(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/executions/${id}`, ...options });
+  listExecutionsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<FlowExecution> {
+    return paginate((p, o) => this.listExecutions(p, o), params, options);
+  }
+
+  async getExecution(id: string, options?: RequestOptions): Promise<ApiResponse<FlowExecution>> {
+    return this.http.request<FlowExecution>({ method: 'GET', path: `${P}/executions/${id}`, ...options });
   }
 }
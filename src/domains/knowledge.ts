@@ -5,8 +5,24 @@
  */
 
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  ChatSession,
+  RagAnswer,
+  RagSearchResult,
+  KnowledgeAsset,
+  CapabilityInfo,
+  UsageReport,
+  ReindexResult,
+  ResearchSession,
+  ResearchPreview,
+} from '../core/types';
 import { AidenStream } from '../stream/aiden-stream';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/knowledge';
@@ -21,50 +37,105 @@ export interface ThinkParams {
   confidentialMode?: boolean;
 }
 
+export interface CreateChatSessionParams {
+  title?: string;
+  model?: string;
+  notebookId?: string;
+  [key: string]: unknown;
+}
+
+export interface RagAskParams {
+  question: string;
+  sessionId?: string;
+  model?: string;
+  topK?: number;
+  filters?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface RagSearchParams {
+  query: string;
+  topK?: number;
+  minScore?: number;
+  filters?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface KnowledgeSearchParams {
+  query: string;
+  notebookIds?: string[];
+  limit?: number;
+  [key: string]: unknown;
+}
+
+export interface ResearchGenerateParams {
+  topic: string;
+  depth?: string;
+  model?: string;
+  [key: string]: unknown;
+}
+
+export interface CreateResearchSessionParams {
+  title?: string;
+  query?: string;
+  [key: string]: unknown;
+}
+
+export interface ResearchStreamParams {
+  message: string;
+  [key: string]: unknown;
+}
+
 export class KnowledgeApi {
   constructor(private readonly http: HttpClient) {}
 
   async think(params: ThinkParams, options?: RequestOptions): Promise<AidenStream> {
+    const path = `${P}/chat/think`;
     const res = await this.http.requestRaw({
       method: 'POST',
-      path: `${P}/chat/think`,
+      path,
       body: params,
       headers: { Accept: 'text/event-stream', ...options?.headers },
       ...options,
     });
-    return new AidenStream(res);
+    return new AidenStream(res, this.http.payloadCheck(path, res));
   }
 
   async thinkInNotebook(notebookId: string, params: Omit<ThinkParams, 'notebookId'>, options?: RequestOptions): Promise<AidenStream> {
+    const path = `${P}/notebooks/${notebookId}/chat/think`;
     const res = await this.http.requestRaw({
       method: 'POST',
-      path: `${P}/notebooks/${notebookId}/chat/think`,
+      path,
       body: params,
       headers: { Accept: 'text/event-stream', ...options?.headers },
       ...options,
     });
-    return new AidenStream(res);
+    return new AidenStream(res, this.http.payloadCheck(path, res));
   }
 
-  async createSession<T = unknown>(body: Record<string, unknown> = {}, options?: RequestOptions): Promise<ApiResponse<T>> {
+  async createSession<T = ChatSession>(body: CreateChatSessionParams = {}, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.http.request<T>({ method: 'POST', path: `${P}/chat/sessions`, body, ...options });
   }
 
-  async listSessions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: `${P}/chat/sessions`, query: listQuery(params), ...options });
+  async listSessions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<ChatSession>> {
+    return this.http.requestPaginated<ChatSession>({ method: 'GET', path: `${P}/chat/sessions`, query: listQuery(params), ...options });
+  }
+
+  listSessionsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<ChatSession> {
+    return paginate((p, o) => this.listSessions(p, o), params, options);
   }
 
-  async getSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/chat/sessions/${sessionId}`, ...options });
+  async getSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<ChatSession>> {
+    return this.http.request<ChatSession>({ method: 'GET', path: `${P}/chat/sessions/${sessionId}`, ...options });
   }
 
   async deleteSession(sessionId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/chat/sessions/${sessionId}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/chat/sessions/${sessionId}`, ...options });
   }
 
-  async createNotebookSession<T = unknown>(
+  async createNotebookSession<T = ChatSession>(
     notebookId: string,
-    body: Record<string, unknown> = {},
+    body: CreateChatSessionParams = {},
     options?: RequestOptions,
   ): Promise<ApiResponse<T>> {
     return this.http.request<T>({
@@ -79,8 +150,8 @@ export class KnowledgeApi {
     notebookId: string,
     params?: ListParams,
     options?: RequestOptions,
-  ): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  ): Promise<PaginatedResponse<ChatSession>> {
+    return this.http.requestPaginated<ChatSession>({
       method: 'GET',
       path: `${P}/notebooks/${notebookId}/chat/sessions`,
       query: listQuery(params),
@@ -88,8 +159,16 @@ export class KnowledgeApi {
     });
   }
 
-  async getNotebookSession(notebookId: string, sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  listNotebookSessionsAll(
+    notebookId: string,
+    params?: ListParams,
+    options?: AutoPaginateOptions,
+  ): PageIterator<ChatSession> {
+    return paginate((p, o) => this.listNotebookSessions(notebookId, p, o), params, options);
+  }
+
+  async getNotebookSession(notebookId: string, sessionId: string, options?: RequestOptions): Promise<ApiResponse<ChatSession>> {
+    return this.http.request<ChatSession>({
       method: 'GET',
       path: `${P}/notebooks/${notebookId}/chat/sessions/${sessionId}`,
       ...options,
@@ -97,15 +176,15 @@ export class KnowledgeApi {
   }
 
   async deleteNotebookSession(notebookId: string, sessionId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({
+    await this.http.requestVoid({
       method: 'DELETE',
       path: `${P}/notebooks/${notebookId}/chat/sessions/${sessionId}`,
       ...options,
     });
   }
 
-  async ragAsk(notebookId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async ragAsk(notebookId: string, body: RagAskParams, options?: RequestOptions): Promise<ApiResponse<RagAnswer>> {
+    return this.http.request<RagAnswer>({
       method: 'POST',
       path: `${P}/notebooks/${notebookId}/rag/ask`,
       body,
@@ -113,19 +192,20 @@ export class KnowledgeApi {
     });
   }
 
-  async ragAskStream(notebookId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<AidenStream> {
+  async ragAskStream(notebookId: string, body: RagAskParams, options?: RequestOptions): Promise<AidenStream> {
+    const path = `${P}/notebooks/${notebookId}/rag/ask/stream`;
     const res = await this.http.requestRaw({
       method: 'POST',
-      path: `${P}/notebooks/${notebookId}/rag/ask/stream`,
+      path,
       body,
       headers: { Accept: 'text/event-stream', ...options?.headers },
       ...options,
     });
-    return new AidenStream(res);
+    return new AidenStream(res, this.http.payloadCheck(path, res));
   }
 
-  async ragSearch(notebookId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async ragSearch(notebookId: string, body: RagSearchParams, options?: RequestOptions): Promise<ApiResponse<RagSearchResult>> {
+    return this.http.request<RagSearchResult>({
       method: 'POST',
       path: `${P}/notebooks/${notebookId}/rag/search`,
       body,
@@ -133,20 +213,20 @@ export class KnowledgeApi {
     });
   }
 
-  async search(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/search`, body, ...options });
+  async search(body: KnowledgeSearchParams, options?: RequestOptions): Promise<ApiResponse<RagSearchResult>> {
+    return this.http.request<RagSearchResult>({ method: 'POST', path: `${P}/search`, body, ...options });
   }
 
-  async getAsset(assetId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/assets/${assetId}`, ...options });
+  async getAsset(assetId: string, options?: RequestOptions): Promise<ApiResponse<KnowledgeAsset>> {
+    return this.http.request<KnowledgeAsset>({ method: 'GET', path: `${P}/assets/${assetId}`, ...options });
   }
 
-  async ragStats(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/rag/stats`, ...options });
+  async ragStats(options?: RequestOptions): Promise<ApiResponse<UsageReport>> {
+    return this.http.request<UsageReport>({ method: 'GET', path: `${P}/rag/stats`, ...options });
   }
 
-  async reindexNotebook(notebookId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async reindexNotebook(notebookId: string, options?: RequestOptions): Promise<ApiResponse<ReindexResult>> {
+    return this.http.request<ReindexResult>({
       method: 'POST',
       path: `${P}/notebooks/${notebookId}/rag/reindex`,
       body: {},
@@ -154,12 +234,12 @@ export class KnowledgeApi {
     });
   }
 
-  async capabilities(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/chat/capabilities`, ...options });
+  async capabilities(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/chat/capabilities`, ...options });
   }
 
-  async researchGenerate(notebookId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async researchGenerate(notebookId: string, body: ResearchGenerateParams, options?: RequestOptions): Promise<ApiResponse<ResearchSession>> {
+    return this.http.request<ResearchSession>({
       method: 'POST',
       path: `${P}/notebooks/${notebookId}/research/generate`,
       body,
@@ -167,20 +247,20 @@ export class KnowledgeApi {
     });
   }
 
-  async researchPreview(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/research/preview`, body, ...options });
+  async researchPreview(body: ResearchGenerateParams, options?: RequestOptions): Promise<ApiResponse<ResearchPreview>> {
+    return this.http.request<ResearchPreview>({ method: 'POST', path: `${P}/research/preview`, body, ...options });
   }
 
-  async researchCapabilities(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/research/capabilities`, ...options });
+  async researchCapabilities(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/research/capabilities`, ...options });
   }
 
   async createResearchSession(
     notebookId: string,
-    body: Record<string, unknown> = {},
+    body: CreateResearchSessionParams = {},
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  ): Promise<ApiResponse<ResearchSession>> {
+    return this.http.request<ResearchSession>({
       method: 'POST',
       path: `${P}/notebooks/${notebookId}/research/sessions`,
       body,
@@ -192,8 +272,8 @@ export class KnowledgeApi {
     notebookId: string,
     params?: ListParams,
     options?: RequestOptions,
-  ): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  ): Promise<PaginatedResponse<ResearchSession>> {
+    return this.http.requestPaginated<ResearchSession>({
       method: 'GET',
       path: `${P}/notebooks/${notebookId}/research/sessions`,
       query: listQuery(params),
@@ -201,8 +281,16 @@ export class KnowledgeApi {
     });
   }
 
-  async getResearchSession(notebookId: string, sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  listResearchSessionsAll(
+    notebookId: string,
+    params?: ListParams,
+    options?: AutoPaginateOptions,
+  ): PageIterator<ResearchSession> {
+    return paginate((p, o) => this.listResearchSessions(notebookId, p, o), params, options);
+  }
+
+  async getResearchSession(notebookId: string, sessionId: string, options?: RequestOptions): Promise<ApiResponse<ResearchSession>> {
+    return this.http.request<ResearchSession>({
       method: 'GET',
       path: `${P}/notebooks/${notebookId}/research/sessions/${sessionId}`,
       ...options,
@@ -212,16 +300,17 @@ export class KnowledgeApi {
   async streamResearch(
     notebookId: string,
     sessionId: string,
-    body: Record<string, unknown>,
+    body: ResearchStreamParams,
     options?: RequestOptions,
   ): Promise<AidenStream> {
+    const path = `${P}/notebooks/${notebookId}/research/sessions/${sessionId}/stream`;
     const res = await this.http.requestRaw({
       method: 'POST',
-      path: `${P}/notebooks/${notebookId}/research/sessions/${sessionId}/stream`,
+      path,
       body,
       headers: { Accept: 'text/event-stream', ...options?.headers },
       ...options,
     });
-    return new AidenStream(res);
+    return new AidenStream(res, this.http.payloadCheck(path, res));
   }
 }
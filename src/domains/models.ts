@@ -3,34 +3,40 @@
  */
 
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  RequestOptions,
+  ModelInfo,
+  ModelAllowlist,
+  CapabilityInfo,
+} from '../core/types';
 
 const P = '/api/v1/models';
 
 export class ModelsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async list(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: P, ...options });
+  async list(options?: RequestOptions): Promise<ApiResponse<ModelInfo[]>> {
+    return this.http.request<ModelInfo[]>({ method: 'GET', path: P, ...options });
   }
 
-  async orchestratorOptions(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/orchestrator-options`, ...options });
+  async orchestratorOptions(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/orchestrator-options`, ...options });
   }
 
-  async services(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/services`, ...options });
+  async services(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/services`, ...options });
   }
 
-  async getAllowlist(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/allowlist`, ...options });
+  async getAllowlist(options?: RequestOptions): Promise<ApiResponse<ModelAllowlist>> {
+    return this.http.request<ModelAllowlist>({ method: 'GET', path: `${P}/allowlist`, ...options });
   }
 
-  async setAllowlist(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/allowlist`, body, ...options });
+  async setAllowlist(body: ModelAllowlist, options?: RequestOptions): Promise<ApiResponse<ModelAllowlist>> {
+    return this.http.request<ModelAllowlist>({ method: 'PUT', path: `${P}/allowlist`, body, ...options });
   }
 
-  async validateMappings(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/validate`, ...options });
+  async validateMappings(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/validate`, ...options });
   }
 }
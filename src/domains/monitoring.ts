@@ -1,16 +1,21 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  RequestOptions,
+  UsageReport,
+  CapabilityInfo,
+} from '../core/types';
 
 const P = '/api/v1/monitoring';
 
 export class MonitoringApi {
   constructor(private readonly http: HttpClient) {}
 
-  async usage(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/usage`, ...options });
+  async usage(options?: RequestOptions): Promise<ApiResponse<UsageReport>> {
+    return this.http.request<UsageReport>({ method: 'GET', path: `${P}/usage`, ...options });
   }
 
-  async tools(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/tools`, ...options });
+  async tools(options?: RequestOptions): Promise<ApiResponse<CapabilityInfo>> {
+    return this.http.request<CapabilityInfo>({ method: 'GET', path: `${P}/tools`, ...options });
   }
 }
@@ -1,46 +1,94 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Notebook,
+  KnowledgeAsset,
+  Artifact,
+  Cell,
+  ReindexResult,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/notebooks';
 
+export interface CreateNotebookParams {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  tags?: string[];
+  settings?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export type UpdateNotebookParams = Partial<CreateNotebookParams>;
+
+export interface CreateKnowledgeAssetParams {
+  name: string;
+  type: string;
+  content?: string;
+  url?: string;
+  documentId?: string;
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export type UpdateKnowledgeAssetParams = Partial<CreateKnowledgeAssetParams>;
+
+export interface CellParams {
+  type: string;
+  content?: string;
+  order?: number;
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
 export class NotebooksApi {
   constructor(private readonly http: HttpClient) {}
 
-  async create(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: P, body, ...options });
+  async create(body: CreateNotebookParams, options?: RequestOptions): Promise<ApiResponse<Notebook>> {
+    return this.http.request<Notebook>({ method: 'POST', path: P, body, ...options });
   }
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Notebook>> {
+    return this.http.requestPaginated<Notebook>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Notebook> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async update(id: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/${id}`, body, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Notebook>> {
+    return this.http.request<Notebook>({ method: 'GET', path: `${P}/${id}`, ...options });
+  }
+
+  async update(id: string, body: UpdateNotebookParams, options?: RequestOptions): Promise<ApiResponse<Notebook>> {
+    return this.http.request<Notebook>({ method: 'PUT', path: `${P}/${id}`, body, ...options });
   }
 
   async delete(id: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${id}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${id}`, ...options });
   }
 
   async bulkDelete(ids: string[], options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
+    await this.http.requestVoid({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
   }
 
-  async duplicate(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/duplicate`, body: {}, ...options });
+  async duplicate(id: string, options?: RequestOptions): Promise<ApiResponse<Notebook>> {
+    return this.http.request<Notebook>({ method: 'POST', path: `${P}/${id}/duplicate`, body: {}, ...options });
   }
 
   async createKnowledgeAsset(
     notebookId: string,
-    body: Record<string, unknown>,
+    body: CreateKnowledgeAssetParams,
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  ): Promise<ApiResponse<KnowledgeAsset>> {
+    return this.http.request<KnowledgeAsset>({
       method: 'POST',
       path: `${P}/${notebookId}/knowledge-assets`,
       body,
@@ -52,8 +100,8 @@ export class NotebooksApi {
     notebookId: string,
     params?: ListParams,
     options?: RequestOptions,
-  ): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  ): Promise<PaginatedResponse<KnowledgeAsset>> {
+    return this.http.requestPaginated<KnowledgeAsset>({
       method: 'GET',
       path: `${P}/${notebookId}/knowledge-assets`,
       query: listQuery(params),
@@ -61,8 +109,16 @@ export class NotebooksApi {
     });
   }
 
-  async getKnowledgeAsset(notebookId: string, assetId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  listKnowledgeAssetsAll(
+    notebookId: string,
+    params?: ListParams,
+    options?: AutoPaginateOptions,
+  ): PageIterator<KnowledgeAsset> {
+    return paginate((p, o) => this.listKnowledgeAssets(notebookId, p, o), params, options);
+  }
+
+  async getKnowledgeAsset(notebookId: string, assetId: string, options?: RequestOptions): Promise<ApiResponse<KnowledgeAsset>> {
+    return this.http.request<KnowledgeAsset>({
       method: 'GET',
       path: `${P}/${notebookId}/knowledge-assets/${assetId}`,
       ...options,
@@ -72,10 +128,10 @@ export class NotebooksApi {
   async patchKnowledgeAsset(
     notebookId: string,
     assetId: string,
-    body: Record<string, unknown>,
+    body: UpdateKnowledgeAssetParams,
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  ): Promise<ApiResponse<KnowledgeAsset>> {
+    return this.http.request<KnowledgeAsset>({
       method: 'PATCH',
       path: `${P}/${notebookId}/knowledge-assets/${assetId}`,
       body,
@@ -84,15 +140,15 @@ export class NotebooksApi {
   }
 
   async deleteKnowledgeAsset(notebookId: string, assetId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({
+    await this.http.requestVoid({
       method: 'DELETE',
       path: `${P}/${notebookId}/knowledge-assets/${assetId}`,
       ...options,
     });
   }
 
-  async reindexKnowledgeAsset(notebookId: string, assetId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async reindexKnowledgeAsset(notebookId: string, assetId: string, options?: RequestOptions): Promise<ApiResponse<ReindexResult>> {
+    return this.http.request<ReindexResult>({
       method: 'POST',
       path: `${P}/${notebookId}/knowledge-assets/${assetId}/reindex`,
       body: {},
@@ -100,8 +156,8 @@ export class NotebooksApi {
     });
   }
 
-  async listArtifacts(notebookId: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async listArtifacts(notebookId: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Artifact>> {
+    return this.http.requestPaginated<Artifact>({
       method: 'GET',
       path: `${P}/${notebookId}/artifacts`,
       query: listQuery(params),
@@ -109,21 +165,25 @@ export class NotebooksApi {
     });
   }
 
+  listArtifactsAll(notebookId: string, params?: ListParams, options?: AutoPaginateOptions): PageIterator<Artifact> {
+    return paginate((p, o) => this.listArtifacts(notebookId, p, o), params, options);
+  }
+
   async addCell(
     notebookId: string,
-    cell: Record<string, unknown>,
+    cell: CellParams,
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${notebookId}/cells`, body: cell, ...options });
+  ): Promise<ApiResponse<Cell>> {
+    return this.http.request<Cell>({ method: 'POST', path: `${P}/${notebookId}/cells`, body: cell, ...options });
   }
 
   async updateCell(
     notebookId: string,
     cellId: string,
-    cell: Record<string, unknown>,
+    cell: Partial<CellParams>,
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  ): Promise<ApiResponse<Cell>> {
+    return this.http.request<Cell>({
       method: 'PUT',
       path: `${P}/${notebookId}/cells/${cellId}`,
       body: cell,
@@ -132,7 +192,7 @@ export class NotebooksApi {
   }
 
   async deleteCell(notebookId: string, cellId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({
+    await this.http.requestVoid({
       method: 'DELETE',
       path: `${P}/${notebookId}/cells/${cellId}`,
       ...options,
@@ -1,33 +1,57 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Prompt,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/prompts';
 
+export interface CreatePromptParams {
+  name: string;
+  content: string;
+  description?: string;
+  category?: string;
+  variables?: string[];
+  tags?: string[];
+  [key: string]: unknown;
+}
+
+export type UpdatePromptParams = Partial<CreatePromptParams>;
+
 export class PromptsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async create(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: P, body, ...options });
+  async create(body: CreatePromptParams, options?: RequestOptions): Promise<ApiResponse<Prompt>> {
+    return this.http.request<Prompt>({ method: 'POST', path: P, body, ...options });
+  }
+
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Prompt>> {
+    return this.http.requestPaginated<Prompt>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Prompt> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Prompt>> {
+    return this.http.request<Prompt>({ method: 'GET', path: `${P}/${id}`, ...options });
   }
 
-  async update(id: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/${id}`, body, ...options });
+  async update(id: string, body: UpdatePromptParams, options?: RequestOptions): Promise<ApiResponse<Prompt>> {
+    return this.http.request<Prompt>({ method: 'PUT', path: `${P}/${id}`, body, ...options });
   }
 
   async delete(id: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${id}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${id}`, ...options });
   }
 
   async bulkDelete(ids: string[], options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
+    await this.http.requestVoid({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
   }
 }
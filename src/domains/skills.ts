@@ -1,58 +1,105 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Skill,
+  SkillExecution,
+  SkillLog,
+  SkillTemplate,
+  SkillNode,
+  SkillNodeCategory,
+  SkillNodeExample,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/skills';
 
+export interface CreateSkillParams {
+  name: string;
+  description?: string;
+  definition?: Record<string, unknown>;
+  tags?: string[];
+  [key: string]: unknown;
+}
+
+export type UpdateSkillParams = Partial<CreateSkillParams>;
+
+export interface SkillDefinitionPatch {
+  nodes?: unknown[];
+  edges?: unknown[];
+  [key: string]: unknown;
+}
+
+export interface RunSkillParams {
+  inputs?: Record<string, unknown>;
+  async?: boolean;
+  webhookUrl?: string;
+  [key: string]: unknown;
+}
+
+export interface CopyTemplateParams {
+  templateId: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
 export class SkillsApi {
   constructor(private readonly http: HttpClient) {}
 
-  async create(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: P, body, ...options });
+  async create(body: CreateSkillParams, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'POST', path: P, body, ...options });
+  }
+
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Skill>> {
+    return this.http.requestPaginated<Skill>({ method: 'GET', path: P, query: listQuery(params), ...options });
   }
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Skill> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${id}`, ...options });
+  async get(id: string, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'GET', path: `${P}/${id}`, ...options });
   }
 
-  async update(id: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PUT', path: `${P}/${id}`, body, ...options });
+  async update(id: string, body: UpdateSkillParams, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'PUT', path: `${P}/${id}`, body, ...options });
   }
 
-  async patchDefinition(id: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PATCH', path: `${P}/${id}/definition`, body, ...options });
+  async patchDefinition(id: string, body: SkillDefinitionPatch, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'PATCH', path: `${P}/${id}/definition`, body, ...options });
   }
 
   async delete(id: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${id}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${id}`, ...options });
   }
 
   async bulkDelete(ids: string[], options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
+    await this.http.requestVoid({ method: 'POST', path: `${P}/bulk-delete`, body: { ids }, ...options });
   }
 
-  async duplicate(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/duplicate`, body: {}, ...options });
+  async duplicate(id: string, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'POST', path: `${P}/${id}/duplicate`, body: {}, ...options });
   }
 
-  async activate(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/activate`, body: {}, ...options });
+  async activate(id: string, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'POST', path: `${P}/${id}/activate`, body: {}, ...options });
   }
 
-  async deactivate(id: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${id}/deactivate`, body: {}, ...options });
+  async deactivate(id: string, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'POST', path: `${P}/${id}/deactivate`, body: {}, ...options });
   }
 
-  async run<T = unknown>(id: string, body: Record<string, unknown> = {}, options?: RequestOptions): Promise<ApiResponse<T>> {
+  async run<T = SkillExecution>(id: string, body: RunSkillParams = {}, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.http.request<T>({ method: 'POST', path: `${P}/${id}/run`, body, ...options });
   }
 
-  async listExecutions(id: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async listExecutions(id: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<SkillExecution>> {
+    return this.http.requestPaginated<SkillExecution>({
       method: 'GET',
       path: `${P}/${id}/executions`,
       query: listQuery(params),
@@ -60,12 +107,16 @@ export class SkillsApi {
     });
   }
 
-  async getExecution<T = unknown>(id: string, executionId: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+  listExecutionsAll(id: string, params?: ListParams, options?: AutoPaginateOptions): PageIterator<SkillExecution> {
+    return paginate((p, o) => this.listExecutions(id, p, o), params, options);
+  }
+
+  async getExecution<T = SkillExecution>(id: string, executionId: string, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.http.request<T>({ method: 'GET', path: `${P}/${id}/executions/${executionId}`, ...options });
   }
 
-  async cancelExecution(id: string, executionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async cancelExecution(id: string, executionId: string, options?: RequestOptions): Promise<ApiResponse<SkillExecution>> {
+    return this.http.request<SkillExecution>({
       method: 'POST',
       path: `${P}/${id}/executions/${executionId}/cancel`,
       body: {},
@@ -73,8 +124,8 @@ export class SkillsApi {
     });
   }
 
-  async listLogs(id: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async listLogs(id: string, params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<SkillLog>> {
+    return this.http.requestPaginated<SkillLog>({
       method: 'GET',
       path: `${P}/${id}/logs`,
       query: listQuery(params),
@@ -82,28 +133,32 @@ export class SkillsApi {
     });
   }
 
-  async listTemplates(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/templates`, ...options });
+  listLogsAll(id: string, params?: ListParams, options?: AutoPaginateOptions): PageIterator<SkillLog> {
+    return paginate((p, o) => this.listLogs(id, p, o), params, options);
+  }
+
+  async listTemplates(options?: RequestOptions): Promise<ApiResponse<SkillTemplate[]>> {
+    return this.http.request<SkillTemplate[]>({ method: 'GET', path: `${P}/templates`, ...options });
   }
 
-  async copyTemplate(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/copy-template`, body, ...options });
+  async copyTemplate(body: CopyTemplateParams, options?: RequestOptions): Promise<ApiResponse<Skill>> {
+    return this.http.request<Skill>({ method: 'POST', path: `${P}/copy-template`, body, ...options });
   }
 
-  async listNodes(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/nodes`, ...options });
+  async listNodes(options?: RequestOptions): Promise<ApiResponse<SkillNode[]>> {
+    return this.http.request<SkillNode[]>({ method: 'GET', path: `${P}/nodes`, ...options });
   }
 
-  async getNode(type: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/nodes/${encodeURIComponent(type)}`, ...options });
+  async getNode(type: string, options?: RequestOptions): Promise<ApiResponse<SkillNode>> {
+    return this.http.request<SkillNode>({ method: 'GET', path: `${P}/nodes/${encodeURIComponent(type)}`, ...options });
   }
 
-  async nodeCategories(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/nodes/meta/categories`, ...options });
+  async nodeCategories(options?: RequestOptions): Promise<ApiResponse<SkillNodeCategory[]>> {
+    return this.http.request<SkillNodeCategory[]>({ method: 'GET', path: `${P}/nodes/meta/categories`, ...options });
   }
 
-  async nodeExamples(type: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async nodeExamples(type: string, options?: RequestOptions): Promise<ApiResponse<SkillNodeExample[]>> {
+    return this.http.request<SkillNodeExample[]>({
       method: 'GET',
       path: `${P}/nodes/${encodeURIComponent(type)}/examples`,
       ...options,
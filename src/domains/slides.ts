@@ -1,22 +1,49 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  SlideSession,
+  SlideTheme,
+  SlideHtmlPreview,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/slides';
 
+export interface CreateSlideSessionParams {
+  title?: string;
+  themeId?: string;
+  prompt?: string;
+  [key: string]: unknown;
+}
+
+export interface SlideMessageParams {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface SelectDesignParams {
+  themeId: string;
+  [key: string]: unknown;
+}
+
 export class SlidesApi {
   constructor(private readonly http: HttpClient) {}
 
-  async themes(options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/themes`, ...options });
+  async themes(options?: RequestOptions): Promise<ApiResponse<SlideTheme[]>> {
+    return this.http.request<SlideTheme[]>({ method: 'GET', path: `${P}/themes`, ...options });
   }
 
-  async createSession(body: Record<string, unknown> = {}, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/sessions`, body, ...options });
+  async createSession(body: CreateSlideSessionParams = {}, options?: RequestOptions): Promise<ApiResponse<SlideSession>> {
+    return this.http.request<SlideSession>({ method: 'POST', path: `${P}/sessions`, body, ...options });
   }
 
-  async listSessions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({
+  async listSessions(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<SlideSession>> {
+    return this.http.requestPaginated<SlideSession>({
       method: 'GET',
       path: `${P}/sessions`,
       query: listQuery(params),
@@ -24,16 +51,20 @@ export class SlidesApi {
     });
   }
 
-  async getSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/sessions/${sessionId}`, ...options });
+  listSessionsAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<SlideSession> {
+    return paginate((p, o) => this.listSessions(p, o), params, options);
+  }
+
+  async getSession(sessionId: string, options?: RequestOptions): Promise<ApiResponse<SlideSession>> {
+    return this.http.request<SlideSession>({ method: 'GET', path: `${P}/sessions/${sessionId}`, ...options });
   }
 
   async deleteSession(sessionId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/sessions/${sessionId}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/sessions/${sessionId}`, ...options });
   }
 
-  async sendMessage(sessionId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async sendMessage(sessionId: string, body: SlideMessageParams, options?: RequestOptions): Promise<ApiResponse<SlideSession>> {
+    return this.http.request<SlideSession>({
       method: 'POST',
       path: `${P}/sessions/${sessionId}/messages`,
       body,
@@ -41,7 +72,7 @@ export class SlidesApi {
     });
   }
 
-  async sendMessageStream(sessionId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<Response> {
+  async sendMessageStream(sessionId: string, body: SlideMessageParams, options?: RequestOptions): Promise<Response> {
     return this.http.requestRaw({
       method: 'POST',
       path: `${P}/sessions/${sessionId}/messages/stream`,
@@ -51,8 +82,8 @@ export class SlidesApi {
     });
   }
 
-  async selectDesign(sessionId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async selectDesign(sessionId: string, body: SelectDesignParams, options?: RequestOptions): Promise<ApiResponse<SlideSession>> {
+    return this.http.request<SlideSession>({
       method: 'POST',
       path: `${P}/sessions/${sessionId}/design`,
       body,
@@ -60,8 +91,8 @@ export class SlidesApi {
     });
   }
 
-  async generateImages(sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({
+  async generateImages(sessionId: string, options?: RequestOptions): Promise<ApiResponse<SlideSession>> {
+    return this.http.request<SlideSession>({
       method: 'POST',
       path: `${P}/sessions/${sessionId}/generate-images`,
       body: {},
@@ -70,7 +101,7 @@ export class SlidesApi {
   }
 
   /** HTML preview for the session (not a legacy `export/html` path). */
-  async htmlPreview(sessionId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/sessions/${sessionId}/html-preview`, ...options });
+  async htmlPreview(sessionId: string, options?: RequestOptions): Promise<ApiResponse<SlideHtmlPreview>> {
+    return this.http.request<SlideHtmlPreview>({ method: 'GET', path: `${P}/sessions/${sessionId}/html-preview`, ...options });
   }
 }
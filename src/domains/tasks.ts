@@ -1,29 +1,49 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  Task,
+  TaskStatus,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/tasks';
 
+export interface SubmitTaskParams {
+  action?: string;
+  result?: Record<string, unknown>;
+  comment?: string;
+  [key: string]: unknown;
+}
+
 export class TasksApi {
   constructor(private readonly http: HttpClient) {}
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<Task>> {
+    return this.http.requestPaginated<Task>({ method: 'GET', path: P, query: listQuery(params), ...options });
+  }
+
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<Task> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async get(taskId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${taskId}`, ...options });
+  async get(taskId: string, options?: RequestOptions): Promise<ApiResponse<Task>> {
+    return this.http.request<Task>({ method: 'GET', path: `${P}/${taskId}`, ...options });
   }
 
-  async submit(taskId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${taskId}`, body, ...options });
+  async submit(taskId: string, body: SubmitTaskParams, options?: RequestOptions): Promise<ApiResponse<Task>> {
+    return this.http.request<Task>({ method: 'POST', path: `${P}/${taskId}`, body, ...options });
   }
 
-  async status(taskId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'GET', path: `${P}/${taskId}/status`, ...options });
+  async status(taskId: string, options?: RequestOptions): Promise<ApiResponse<TaskStatus>> {
+    return this.http.request<TaskStatus>({ method: 'GET', path: `${P}/${taskId}/status`, ...options });
   }
 
-  async cancel(taskId: string, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/${taskId}/cancel`, body: {}, ...options });
+  async cancel(taskId: string, options?: RequestOptions): Promise<ApiResponse<Task>> {
+    return this.http.request<Task>({ method: 'POST', path: `${P}/${taskId}/cancel`, body: {}, ...options });
   }
 }
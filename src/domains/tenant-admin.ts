@@ -4,7 +4,10 @@
  */
 
 import type { HttpClient } from '../core/http-client';
-import type { RequestOptions } from '../core/types';
+import type {
+  RequestOptions,
+  ModelAllowlist,
+} from '../core/types';
 
 const P = '/api/v1/tenant-admin';
 
@@ -24,7 +27,7 @@ export class TenantAdminApi {
     return this.http.requestPlain({ method: 'GET', path: `${P}/models/allowlist`, ...options });
   }
 
-  async setAllowlist(body: Record<string, unknown>, options?: RequestOptions): Promise<unknown> {
+  async setAllowlist(body: ModelAllowlist, options?: RequestOptions): Promise<unknown> {
     return this.http.requestPlain({
       method: 'PUT',
       path: `${P}/models/allowlist`,
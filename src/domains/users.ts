@@ -1,48 +1,88 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, PaginatedResponse, ListParams, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  ListParams,
+  RequestOptions,
+  User,
+  Group,
+} from '../core/types';
+import { paginate } from '../core/pagination';
+import type { AutoPaginateOptions, PageIterator } from '../core/pagination';
 import { listQuery } from './helpers';
 
 const P = '/api/v1/users';
 
+export interface InviteUserParams {
+  email: string;
+  name?: string;
+  role?: string;
+  groups?: string[];
+  [key: string]: unknown;
+}
+
+export interface UpdateUserParams {
+  name?: string;
+  role?: string;
+  status?: string;
+  groups?: string[];
+  [key: string]: unknown;
+}
+
+export interface GroupParams {
+  name: string;
+  description?: string;
+  members?: string[];
+  permissions?: string[];
+  [key: string]: unknown;
+}
+
 export class UsersApi {
   constructor(private readonly http: HttpClient) {}
 
-  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<unknown>> {
-    return this.http.requestPaginated({ method: 'GET', path: P, query: listQuery(params), ...options });
+  async list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<User>> {
+    return this.http.requestPaginated<User>({ method: 'GET', path: P, query: listQuery(params), ...options });
+  }
+
+  listAll(params?: ListParams, options?: AutoPaginateOptions): PageIterator<User> {
+    return paginate((p, o) => this.list(p, o), params, options);
   }
 
-  async invite(body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'POST', path: `${P}/invite`, body, ...options });
+  async invite(body: InviteUserParams, options?: RequestOptions): Promise<ApiResponse<User>> {
+    return this.http.request<User>({ method: 'POST', path: `${P}/invite`, body, ...options });
   }
 
-  async update(userId: string, body: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<unknown>> {
-    return this.http.request({ method: 'PATCH', path: `${P}/${userId}`, body, ...options });
+  async update(userId: string, body: UpdateUserParams, options?: RequestOptions): Promise<ApiResponse<User>> {
+    return this.http.request<User>({ method: 'PATCH', path: `${P}/${userId}`, body, ...options });
   }
 
   async remove(userId: string, options?: RequestOptions): Promise<void> {
-    await this.http.requestRaw({ method: 'DELETE', path: `${P}/${userId}`, ...options });
+    await this.http.requestVoid({ method: 'DELETE', path: `${P}/${userId}`, ...options });
   }
 
   readonly groups = {
     list: (params?: ListParams, options?: RequestOptions) =>
-      this.http.requestPaginated({
+      this.http.requestPaginated<Group>({
         method: 'GET',
         path: `${P}/groups`,
         query: listQuery(params),
         ...options,
       }),
 
-    create: (body: Record<string, unknown>, options?: RequestOptions) =>
-      this.http.request({ method: 'POST', path: `${P}/groups`, body, ...options }),
+    listAll: (params?: ListParams, options?: AutoPaginateOptions): PageIterator<Group> =>
+      paginate((p, o) => this.groups.list(p, o), params, options),
+
+    create: (body: GroupParams, options?: RequestOptions) =>
+      this.http.request<Group>({ method: 'POST', path: `${P}/groups`, body, ...options }),
 
     get: (id: string, options?: RequestOptions) =>
-      this.http.request({ method: 'GET', path: `${P}/groups/${id}`, ...options }),
+      this.http.request<Group>({ method: 'GET', path: `${P}/groups/${id}`, ...options }),
 
-    update: (id: string, body: Record<string, unknown>, options?: RequestOptions) =>
-      this.http.request({ method: 'PUT', path: `${P}/groups/${id}`, body, ...options }),
+    update: (id: string, body: Partial<GroupParams>, options?: RequestOptions) =>
+      this.http.request<Group>({ method: 'PUT', path: `${P}/groups/${id}`, body, ...options }),
 
     delete: async (id: string, options?: RequestOptions) => {
-      await this.http.requestRaw({ method: 'DELETE', path: `${P}/groups/${id}`, ...options });
+      await this.http.requestVoid({ method: 'DELETE', path: `${P}/groups/${id}`, ...options });
     },
   };
 }
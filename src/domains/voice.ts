@@ -1,12 +1,25 @@
 import type { HttpClient } from '../core/http-client';
-import type { ApiResponse, RequestOptions } from '../core/types';
+import type {
+  ApiResponse,
+  RequestOptions,
+  SttResult,
+} from '../core/types';
 
 const P = '/api/v1';
 
+export interface TtsParams {
+  text: string;
+  voice?: string;
+  model?: string;
+  format?: string;
+  speed?: number;
+  [key: string]: unknown;
+}
+
 export class VoiceApi {
   constructor(private readonly http: HttpClient) {}
 
-  async tts(body: Record<string, unknown>, options?: RequestOptions): Promise<{ body: ArrayBuffer; contentType: string | null }> {
+  async tts(body: TtsParams, options?: RequestOptions): Promise<{ body: ArrayBuffer; contentType: string | null }> {
     const response = await this.http.requestRaw({
       method: 'POST',
       path: `${P}/tts`,
@@ -22,7 +35,7 @@ export class VoiceApi {
   async stt(
     params: { audio: Blob | ArrayBuffer | Uint8Array; filename?: string; language?: string; sessionId?: string; response_format?: string },
     options?: RequestOptions,
-  ): Promise<ApiResponse<unknown>> {
+  ): Promise<ApiResponse<SttResult>> {
     const form = new FormData();
     const blob =
       typeof Blob !== 'undefined' && params.audio instanceof Blob
@@ -36,7 +49,7 @@ export class VoiceApi {
     if (params.sessionId) form.append('sessionId', params.sessionId);
     if (params.response_format) form.append('response_format', params.response_format);
 
-    return this.http.request({
+    return this.http.request<SttResult>({
       method: 'POST',
       path: `${P}/stt`,
       body: form,
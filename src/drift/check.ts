@@ -0,0 +1,197 @@
+/**
+ * Compares the SDK route manifest with an OpenAPI document and, given a baseline snapshot, the
+ * request / response schemas of every operation the SDK calls.
+ */
+
+import { SDK_ROUTES } from '../core/route-manifest';
+import type { SdkRoute } from '../core/route-manifest';
+import type { HttpMethod } from '../core/http-client';
+import { HTTP_METHODS, flattenSchema, requestSchema, responseSchema, serverPrefix } from './openapi';
+import type { FieldMap, OpenApiDocument, OpenApiOperation } from './openapi';
+
+export interface OperationSchemas {
+  request?: FieldMap;
+  response?: FieldMap;
+}
+
+/** Schemas of the operations the SDK calls, keyed `"<METHOD> <path>"` with OpenAPI-style `{param}`s. */
+export interface DriftSnapshot {
+  version: 1;
+  api?: { title?: string; version?: string };
+  operations: Record<string, OperationSchemas>;
+}
+
+export interface UncoveredOperation {
+  method: HttpMethod;
+  path: string;
+  operationId?: string;
+}
+
+export interface MissingRoute {
+  method: HttpMethod;
+  /** SDK path template, e.g. `/api/v1/skills/:id/run`. */
+  path: string;
+  operation: string;
+  /** `path`: no such path in the document; `method`: the path exists without this method. */
+  reason: 'path' | 'method';
+}
+
+export interface SchemaChange {
+  method: HttpMethod;
+  path: string;
+  operation: string;
+  part: 'request' | 'response';
+  added: string[];
+  removed: string[];
+  /** Fields whose type, required or nullable flag changed, as `field: before -> after`. */
+  modified: string[];
+}
+
+export type DriftKind = 'uncovered' | 'missing' | 'changed';
+
+export interface DriftReport {
+  /** `true` when none of the `failOn` kinds has entries. */
+  ok: boolean;
+  api: { title?: string; version?: string };
+  summary: { sdkRoutes: number; specOperations: number; uncovered: number; missing: number; changed: number };
+  /** Operations in the document that no SDK method calls. */
+  uncovered: UncoveredOperation[];
+  /** SDK methods whose path or method is not in the document. */
+  missing: MissingRoute[];
+  /** Schemas that differ from the baseline (empty without one). */
+  changed: SchemaChange[];
+  /** Current schemas; save as the next `baseline`. */
+  snapshot: DriftSnapshot;
+}
+
+export interface DriftOptions {
+  /** Snapshot from a previous run; enables schema comparison. */
+  baseline?: DriftSnapshot;
+  /** Document paths to leave out of `uncovered` (prefix or pattern), e.g. `/health`. */
+  ignorePaths?: Array<string | RegExp>;
+  /** Kinds that make `ok` false (default: all three). */
+  failOn?: DriftKind[];
+  /** Routes to check (default: the SDK's own manifest). */
+  routes?: readonly SdkRoute[];
+}
+
+/** `/api/v1/skills/:id/run` and `/api/v1/skills/{skillId}/run` both become `/api/v1/skills/{}/run`. */
+function normalizePath(path: string): string {
+  return path
+    .replace(/\{[^}]+\}/g, '{}')
+    .replace(/:[A-Za-z_]\w*/g, '{}')
+    .replace(/\/+$/, '');
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z_]\w*)/g, '{$1}');
+}
+
+interface SpecOperation {
+  method: HttpMethod;
+  path: string;
+  op: OpenApiOperation;
+}
+
+function specOperations(doc: OpenApiDocument): Map<string, SpecOperation[]> {
+  const prefix = serverPrefix(doc);
+  const byPath = new Map<string, SpecOperation[]>();
+
+  for (const [rawPath, item] of Object.entries(doc.paths ?? {})) {
+    const path = prefix && !rawPath.startsWith(`${prefix}/`) && rawPath !== prefix ? `${prefix}${rawPath}` : rawPath;
+    const key = normalizePath(path);
+    for (const method of HTTP_METHODS) {
+      const op = item[method] as OpenApiOperation | undefined;
+      if (!op) continue;
+      const list = byPath.get(key) ?? [];
+      list.push({ method: method.toUpperCase() as HttpMethod, path, op });
+      byPath.set(key, list);
+    }
+  }
+  return byPath;
+}
+
+function diffFields(before: FieldMap = {}, after: FieldMap = {}): Pick<SchemaChange, 'added' | 'removed' | 'modified'> {
+  const added = Object.keys(after).filter((f) => !(f in before));
+  const removed = Object.keys(before).filter((f) => !(f in after));
+  const modified = Object.keys(after)
+    .filter((f) => f in before && before[f] !== after[f])
+    .map((f) => `${f}: ${before[f]} -> ${after[f]}`);
+  return { added: added.sort(), removed: removed.sort(), modified: modified.sort() };
+}
+
+function ignored(path: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some((p) => (typeof p === 'string' ? path.startsWith(p) : p.test(path)));
+}
+
+/** Schemas of the SDK's operations in `doc` (what `DriftReport.snapshot` contains). */
+export function createSnapshot(doc: OpenApiDocument, routes: readonly SdkRoute[] = SDK_ROUTES): DriftSnapshot {
+  const byPath = specOperations(doc);
+  const operations: Record<string, OperationSchemas> = {};
+
+  for (const route of routes) {
+    const match = byPath.get(normalizePath(route.path))?.find((s) => s.method === route.method);
+    if (!match) continue;
+    const request = requestSchema(doc, match.op);
+    const response = responseSchema(doc, match.op);
+    operations[`${route.method} ${toOpenApiPath(route.path)}`] = {
+      ...(request ? { request: flattenSchema(doc, request) } : {}),
+      ...(response ? { response: flattenSchema(doc, response) } : {}),
+    };
+  }
+
+  return { version: 1, api: { title: doc.info?.title, version: doc.info?.version }, operations };
+}
+
+export function checkDrift(doc: OpenApiDocument, options: DriftOptions = {}): DriftReport {
+  const routes = options.routes ?? SDK_ROUTES;
+  const failOn = options.failOn ?? ['uncovered', 'missing', 'changed'];
+  const byPath = specOperations(doc);
+  const snapshot = createSnapshot(doc, routes);
+
+  const covered = new Set(routes.map((r) => `${r.method} ${normalizePath(r.path)}`));
+  const uncovered: UncoveredOperation[] = [];
+  let specCount = 0;
+  for (const ops of byPath.values()) {
+    for (const { method, path, op } of ops) {
+      specCount++;
+      if (covered.has(`${method} ${normalizePath(path)}`) || ignored(path, options.ignorePaths ?? [])) continue;
+      uncovered.push({ method, path, ...(op.operationId ? { operationId: op.operationId } : {}) });
+    }
+  }
+
+  const missing: MissingRoute[] = [];
+  for (const route of routes) {
+    const ops = byPath.get(normalizePath(route.path));
+    if (!ops?.some((o) => o.method === route.method)) {
+      missing.push({ method: route.method, path: route.path, operation: route.operation, reason: ops ? 'method' : 'path' });
+    }
+  }
+
+  const changed: SchemaChange[] = [];
+  if (options.baseline) {
+    for (const route of routes) {
+      const key = `${route.method} ${toOpenApiPath(route.path)}`;
+      const before = options.baseline.operations[key];
+      const after = snapshot.operations[key];
+      if (!before || !after) continue;
+      for (const part of ['request', 'response'] as const) {
+        const diff = diffFields(before[part], after[part]);
+        if (diff.added.length || diff.removed.length || diff.modified.length) {
+          changed.push({ method: route.method, path: route.path, operation: route.operation, part, ...diff });
+        }
+      }
+    }
+  }
+
+  const counts = { uncovered: uncovered.length, missing: missing.length, changed: changed.length };
+  return {
+    ok: failOn.every((kind) => counts[kind] === 0),
+    api: { title: doc.info?.title, version: doc.info?.version },
+    summary: { sdkRoutes: routes.length, specOperations: specCount, ...counts },
+    uncovered,
+    missing,
+    changed,
+    snapshot,
+  };
+}
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * aiden-drift <openapi.json | https://…/api-docs.json> [options]
+ *
+ * Prints a JSON `DriftReport` (without the snapshot) and exits with 1 on drift, 2 on usage or load errors.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { checkDrift } from './check';
+import type { DriftKind, DriftSnapshot } from './check';
+import { loadOpenApiDocument } from './openapi';
+
+const USAGE = `Usage: aiden-drift <openapi.json | url> [options]
+
+Options:
+  --baseline <file>        Compare request/response schemas with a saved snapshot
+  --write-baseline <file>  Save the current schemas as the next baseline
+  --ignore-path <prefix>   Leave document paths with this prefix out of "uncovered" (repeatable)
+  --fail-on <kinds>        Comma-separated: uncovered,missing,changed (default: all)
+  --header <name: value>   Extra header when loading from a URL (repeatable)
+`;
+
+const DRIFT_KINDS: DriftKind[] = ['uncovered', 'missing', 'changed'];
+
+interface CliArgs {
+  source: string;
+  baseline?: string;
+  writeBaseline?: string;
+  ignorePaths: string[];
+  failOn?: DriftKind[];
+  headers: Record<string, string>;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { source: '', ignorePaths: [], headers: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--baseline':
+        args.baseline = value();
+        break;
+      case '--write-baseline':
+        args.writeBaseline = value();
+        break;
+      case '--ignore-path':
+        args.ignorePaths.push(value());
+        break;
+      case '--fail-on': {
+        const kinds = value().split(',').map((k) => k.trim()).filter(Boolean);
+        const unknown = kinds.filter((k) => !DRIFT_KINDS.includes(k as DriftKind));
+        if (unknown.length) throw new Error(`Unknown --fail-on kind: ${unknown.join(', ')}`);
+        args.failOn = kinds as DriftKind[];
+        break;
+      }
+      case '--header': {
+        const header = value();
+        const colon = header.indexOf(':');
+        if (colon <= 0) throw new Error(`Invalid --header "${header}"; expected "Name: value"`);
+        args.headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+        break;
+      }
+      default:
+        if (arg.startsWith('-') || args.source) throw new Error(`Unexpected argument: ${arg}`);
+        args.source = arg;
+    }
+  }
+  if (!args.source) throw new Error('Missing OpenAPI document path or URL');
+  return args;
+}
+
+async function main(): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const doc = await loadOpenApiDocument(args.source, { headers: args.headers });
+    const baseline = args.baseline
+      ? (JSON.parse(await readFile(args.baseline, 'utf8')) as DriftSnapshot)
+      : undefined;
+
+    const { snapshot, ...report } = checkDrift(doc, {
+      baseline,
+      ignorePaths: args.ignorePaths,
+      failOn: args.failOn,
+    });
+    if (args.writeBaseline) {
+      await writeFile(args.writeBaseline, `${JSON.stringify(snapshot, null, 2)}\n`);
+    }
+
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return report.ok ? 0 : 1;
+  } catch (error) {
+    process.stderr.write(`aiden-drift: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,20 @@
+/**
+ * `@aiden-ai/sdk/drift` — checks the SDK's routes against the API's OpenAPI document
+ * (`GET {baseUrl}/api-docs.json`). Also available as the `aiden-drift` CLI.
+ */
+
+export { checkDrift, createSnapshot } from './check';
+export type {
+  DriftKind,
+  DriftOptions,
+  DriftReport,
+  DriftSnapshot,
+  MissingRoute,
+  OperationSchemas,
+  SchemaChange,
+  UncoveredOperation,
+} from './check';
+export { loadOpenApiDocument, flattenSchema } from './openapi';
+export type { FieldMap, OpenApiDocument, OpenApiOperation, OpenApiSchema } from './openapi';
+export { SDK_ROUTES } from '../core/route-manifest';
+export type { SdkRoute } from '../core/route-manifest';
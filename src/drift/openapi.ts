@@ -0,0 +1,180 @@
+/**
+ * Just enough of OpenAPI 3 to list operations and flatten their JSON schemas into comparable field maps.
+ */
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  required?: string[];
+  properties?: Record<string, OpenApiSchema>;
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+}
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiResponse {
+  $ref?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  requestBody?: { $ref?: string; content?: Record<string, OpenApiMediaType> };
+  responses?: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi?: string;
+  info?: { title?: string; version?: string };
+  servers?: Array<{ url: string }>;
+  paths?: Record<string, Record<string, OpenApiOperation | unknown>>;
+  components?: Record<string, Record<string, unknown>>;
+}
+
+/** Field path → type, e.g. `data.status: "string!"` (`!` marks required, `?` nullable). */
+export type FieldMap = Record<string, string>;
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch'] as const;
+
+/** Load a document from a URL (`http(s)://…`) or a JSON file path. */
+export async function loadOpenApiDocument(
+  source: string,
+  options: { fetch?: typeof fetch; headers?: Record<string, string> } = {},
+): Promise<OpenApiDocument> {
+  if (/^https?:\/\//i.test(source)) {
+    const fetchFn = options.fetch ?? globalThis.fetch;
+    const response = await fetchFn(source, { headers: { Accept: 'application/json', ...options.headers } });
+    if (!response.ok) {
+      throw new Error(`Failed to load OpenAPI document from ${source}: HTTP ${response.status}`);
+    }
+    return (await response.json()) as OpenApiDocument;
+  }
+
+  const { readFile } = await import('node:fs/promises');
+  return JSON.parse(await readFile(source, 'utf8')) as OpenApiDocument;
+}
+
+/**
+ * Path prefix from the first server URL (`https://host/api/v1` → `/api/v1`) for documents whose
+ * paths are relative to it.
+ */
+export function serverPrefix(doc: OpenApiDocument): string {
+  const url = doc.servers?.[0]?.url;
+  if (!url) return '';
+  const path = url.startsWith('/') ? url : new URL(url, 'http://placeholder').pathname;
+  return path.replace(/\/+$/, '');
+}
+
+function resolveRef(doc: OpenApiDocument, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined;
+  let node: unknown = doc;
+  for (const raw of ref.slice(2).split('/')) {
+    const key = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    node = node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined;
+  }
+  return node;
+}
+
+function deref<T extends { $ref?: string }>(doc: OpenApiDocument, value: T | undefined): T | undefined {
+  let current = value;
+  for (let depth = 0; current?.$ref && depth < 32; depth++) {
+    current = resolveRef(doc, current.$ref) as T | undefined;
+  }
+  return current;
+}
+
+function jsonSchema(doc: OpenApiDocument, content?: Record<string, OpenApiMediaType>): OpenApiSchema | undefined {
+  if (!content) return undefined;
+  const key =
+    Object.keys(content).find((type) => type.includes('json')) ??
+    Object.keys(content).find((type) => type.startsWith('multipart/'));
+  return key ? deref(doc, content[key]?.schema) : undefined;
+}
+
+export function requestSchema(doc: OpenApiDocument, op: OpenApiOperation): OpenApiSchema | undefined {
+  return jsonSchema(doc, deref(doc, op.requestBody)?.content);
+}
+
+/** Schema of the first 2xx response with a JSON body. */
+export function responseSchema(doc: OpenApiDocument, op: OpenApiOperation): OpenApiSchema | undefined {
+  const statuses = Object.keys(op.responses ?? {})
+    .filter((status) => /^2/.test(status))
+    .sort();
+  for (const status of statuses) {
+    const schema = jsonSchema(doc, deref(doc, op.responses![status])?.content);
+    if (schema) return schema;
+  }
+  return undefined;
+}
+
+function typeName(schema: OpenApiSchema): string {
+  if (schema.enum) return `enum(${schema.enum.map(String).sort().join('|')})`;
+  const type = Array.isArray(schema.type) ? schema.type.filter((t) => t !== 'null').join('|') : schema.type;
+  if (type) return schema.format ? `${type}:${schema.format}` : type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  return 'any';
+}
+
+/**
+ * Flatten a schema into `path → type` entries (`$ref`s resolved, `allOf` merged, `oneOf` / `anyOf`
+ * recorded as unions of their member types). Recursive schemas stop at the first repeat.
+ */
+export function flattenSchema(doc: OpenApiDocument, schema: OpenApiSchema | undefined): FieldMap {
+  const out: FieldMap = {};
+
+  const visit = (node: OpenApiSchema | undefined, path: string, required: boolean, seen: Set<string>): void => {
+    if (!node) return;
+    if (node.$ref) {
+      if (seen.has(node.$ref)) {
+        out[path || '$'] = `ref:${node.$ref.split('/').pop()}`;
+        return;
+      }
+      seen = new Set(seen).add(node.$ref);
+      node = deref(doc, node);
+      if (!node) return;
+    }
+
+    if (node.allOf) {
+      const merged: OpenApiSchema = { type: 'object', properties: {}, required: [] };
+      for (const part of node.allOf.map((p) => deref(doc, p))) {
+        Object.assign(merged.properties!, part?.properties);
+        merged.required!.push(...(part?.required ?? []));
+      }
+      visit({ ...merged, nullable: node.nullable }, path, required, seen);
+      return;
+    }
+
+    const variants = node.oneOf ?? node.anyOf;
+    const nullable = node.nullable || (Array.isArray(node.type) && node.type.includes('null'));
+    const type = variants
+      ? variants
+          .map((v) => typeName(deref(doc, v) ?? {}))
+          .sort()
+          .join('|')
+      : typeName(node);
+    out[path || '$'] = `${type}${required ? '!' : ''}${nullable ? '?' : ''}`;
+
+    if (node.properties) {
+      const requiredKeys = new Set(node.required ?? []);
+      for (const [key, child] of Object.entries(node.properties)) {
+        visit(child, path ? `${path}.${key}` : key, requiredKeys.has(key), seen);
+      }
+    }
+    if (node.items) {
+      visit(node.items, `${path}[]`, false, seen);
+    }
+  };
+
+  visit(schema, '', false, new Set());
+  return out;
+}
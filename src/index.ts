@@ -18,6 +18,8 @@ export type {
   ListParams,
   PaginationParams,
   RequestOptions,
+  ScopedRequestOptions,
+  ResponseInfo,
   StreamEvent,
   StreamEventType,
   StreamCallbacks,
@@ -27,6 +29,62 @@ export type {
   ThinkingEventVisibility,
   SkillExecution,
   ChatSession,
+  Notebook,
+  Cell,
+  KnowledgeAsset,
+  RagSource,
+  RagAnswer,
+  RagSearchResult,
+  ResearchPreview,
+  ReindexResult,
+  ResearchSession,
+  Skill,
+  SkillLog,
+  SkillTemplate,
+  SkillNode,
+  SkillNodeExample,
+  SkillNodeCategory,
+  Flow,
+  FlowInstance,
+  FlowRun,
+  FlowRunLog,
+  FlowExecution,
+  Artifact,
+  ArtifactVersion,
+  Prompt,
+  Credential,
+  CredentialType,
+  CredentialTestResult,
+  Task,
+  TaskStatus,
+  Invoice,
+  BillingTransaction,
+  BillingStatus,
+  BillingOverview,
+  BillingLimits,
+  InvoiceSettings,
+  BillingConfig,
+  AuditEntry,
+  UsageReport,
+  User,
+  Group,
+  MicroApp,
+  BuilderSession,
+  ChatMessage,
+  Document,
+  UploadSession,
+  Expert,
+  SlideSession,
+  SlideTheme,
+  SlideHtmlPreview,
+  ModelInfo,
+  ModelAllowlist,
+  SttResult,
+  ContextSettings,
+  WidgetSession,
+  WidgetMessageReply,
+  ChatFeedback,
+  CapabilityInfo,
 } from './core/types';
 
 export {
@@ -44,15 +102,86 @@ export {
   GatewayTimeoutError,
   ConnectionError,
   TimeoutError,
+  AbortedError,
+  CircuitOpenError,
+  SchemaMismatchError,
+  VersionMismatchError,
   createErrorFromResponse,
+  isRetryable,
+  isClientError,
+} from './core/errors';
+export type {
+  TimeoutDeadline,
+  KnownErrorCode,
+  AidenErrorCode,
+  AidenErrorKind,
+  AidenErrorJSON,
+  FieldErrors,
+  KnownAidenError,
 } from './core/errors';
 
 export { HttpClient } from './core/http-client';
 export type { HttpRequestOptions, HttpMethod } from './core/http-client';
+export type { Middleware, RequestContext, RetryInfo } from './core/middleware';
+export { DefaultRetryPolicy, isSafeFailure } from './core/retry';
+export type { RetryPolicy, RetryContext, RetryPolicyOptions, RetryRule } from './core/retry';
+export { CircuitBreaker } from './core/circuit-breaker';
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChange, CircuitSnapshot } from './core/circuit-breaker';
+export { RequestLimiter } from './core/limiter';
+export type { RequestLimiterOptions, RequestLimiterStats } from './core/limiter';
+export { cachedAuth } from './core/auth';
+export type { AuthProvider, AuthSource, CachedAuthOptions, FetchedToken } from './core/auth';
+export { withResponse } from './core/with-response';
+export { QuotaTracker, parseRateLimit, parseRetryAfter } from './core/quota';
+export type { QuotaTrackerOptions, QuotaState, RateLimitInfo, LowQuotaEvent } from './core/quota';
+export type { WithResponse } from './core/with-response';
+export {
+  SUPPORTED_CONTRACT_VERSIONS,
+  compareVersions,
+  isContractSupported,
+  parseDeprecationHeaders,
+  describeDeprecation,
+} from './core/versioning';
+export type { VersionCheckMode, VersionCheckResult, DeprecationNotice } from './core/versioning';
+export { ResponseCache, MemoryCacheStore, DEFAULT_CACHE_ROUTES } from './core/cache';
+export type { CacheStore, CacheEntry, ResponseCacheOptions } from './core/cache';
+export type { ValidationMode, PayloadCheck } from './core/validation';
+export type { Logger, LogLevel, LogFields } from './core/logger';
+export { BasicTracer, formatTraceparent } from './core/tracing';
+export { MetricsCollector, formatPrometheus } from './core/metrics';
+export type {
+  MetricsSink,
+  MetricsCollectorOptions,
+  MetricsSnapshot,
+  RequestMetric,
+  StreamMetric,
+  RouteMetrics,
+  StreamRouteMetrics,
+  LatencySummary,
+} from './core/metrics';
+export type {
+  Tracer,
+  Span,
+  SpanContext,
+  SpanAttributes,
+  SpanAttributeValue,
+  StartSpanOptions,
+  FinishedSpan,
+  BasicTracerOptions,
+} from './core/tracing';
+export type { Schema, SchemaIssue } from './core/schema';
+
+export { PageIterator, paginate } from './core/pagination';
+export type { AutoPaginateOptions, PageFetcher } from './core/pagination';
 
 export { AidenStream } from './stream/aiden-stream';
 export { OpenAIChatStream } from './stream/openai-stream';
 
+export { AidenWidgetClient } from './widget/client';
+export type { AidenWidgetClientConfig, WidgetRequestOptions, WidgetMessageInput } from './widget/client';
+export { memoryStorage } from './widget/storage';
+export type { WidgetSessionStorage, StoredWidgetSession } from './widget/storage';
+
 export { OpenAIClient } from './openai/client';
 export type {
   OpenAIChatCompletionRequest,
@@ -68,24 +197,69 @@ export type {
 export type { OpenAITranscribeParams } from './openai/client';
 
 export { KnowledgeApi } from './domains/knowledge';
-export type { ThinkParams } from './domains/knowledge';
+export type {
+  ThinkParams,
+  CreateChatSessionParams,
+  RagAskParams,
+  RagSearchParams,
+  KnowledgeSearchParams,
+  ResearchGenerateParams,
+  CreateResearchSessionParams,
+  ResearchStreamParams,
+} from './domains/knowledge';
 
 export { NotebooksApi } from './domains/notebooks';
+export type {
+  CreateNotebookParams,
+  UpdateNotebookParams,
+  CreateKnowledgeAssetParams,
+  UpdateKnowledgeAssetParams,
+  CellParams,
+} from './domains/notebooks';
 export { ChatApi } from './domains/chat';
+export type { CreateWidgetSessionParams, WidgetMessageParams, FeedbackParams } from './domains/chat';
 export { SkillsApi } from './domains/skills';
+export type {
+  CreateSkillParams,
+  UpdateSkillParams,
+  SkillDefinitionPatch,
+  RunSkillParams,
+  CopyTemplateParams,
+} from './domains/skills';
 export { ModelsApi } from './domains/models';
 export { DocumentsApi } from './domains/documents';
+export type { ResumableUploadParams } from './domains/documents';
+export type { UploadSource, UploadProgress } from './core/upload';
 export { FlowsApi } from './domains/flows';
+export type { CreateFlowInstanceParams, CreateFlowParams, RunFlowParams } from './domains/flows';
 export { BillingApi } from './domains/billing';
 export { UsersApi } from './domains/users';
+export type { InviteUserParams, UpdateUserParams, GroupParams } from './domains/users';
 export { AgentsApi } from './domains/agents';
+export type {
+  CreateBuilderSessionParams,
+  BuilderMessageParams,
+  CreateMicroAppParams,
+  UpdateMicroAppParams,
+} from './domains/agents';
 export { SlidesApi } from './domains/slides';
+export type { CreateSlideSessionParams, SlideMessageParams, SelectDesignParams } from './domains/slides';
 export { CredentialsApi } from './domains/credentials';
+export type { CreateCredentialParams } from './domains/credentials';
 export { ExpertsApi } from './domains/experts';
+export type { ExpertQuery } from './domains/experts';
 export { TasksApi } from './domains/tasks';
+export type { SubmitTaskParams } from './domains/tasks';
 export { ArtifactsApi } from './domains/artifacts';
+export type {
+  CreateArtifactParams,
+  UpdateArtifactParams,
+  AddArtifactVersionParams,
+} from './domains/artifacts';
 export { PromptsApi } from './domains/prompts';
+export type { CreatePromptParams, UpdatePromptParams } from './domains/prompts';
 export { MonitoringApi } from './domains/monitoring';
 export { VoiceApi } from './domains/voice';
+export type { TtsParams } from './domains/voice';
 export { ContextApi } from './domains/context';
 export { TenantAdminApi } from './domains/tenant-admin';
@@ -1,6 +1,12 @@
 import type { HttpClient } from '../core/http-client';
 import type { RequestOptions } from '../core/types';
 import { OpenAIChatStream } from '../stream/openai-stream';
+import {
+  openAIChatCompletionSchema,
+  openAIModelSchema,
+  openAIModelsSchema,
+  openAITranscriptionSchema,
+} from '../core/schema';
 import type {
   OpenAIChatCompletionRequest,
   OpenAIChatCompletionResponse,
@@ -55,13 +61,14 @@ export class OpenAIClient {
         headers: { Accept: 'text/event-stream', ...options?.headers },
         ...options,
       });
-      return new OpenAIChatStream(response);
+      return new OpenAIChatStream(response, this.http.payloadCheck(`${V1}/chat/completions`, response));
     }
 
     return this.http.requestPlain<OpenAIChatCompletionResponse>({
       method: 'POST',
       path: `${V1}/chat/completions`,
       body: params,
+      schema: openAIChatCompletionSchema,
       ...options,
     });
   }
@@ -70,6 +77,7 @@ export class OpenAIClient {
     return this.http.requestPlain<OpenAIModelsResponse>({
       method: 'GET',
       path: `${V1}/models`,
+      schema: openAIModelsSchema,
       ...options,
     });
   }
@@ -78,6 +86,7 @@ export class OpenAIClient {
     return this.http.requestPlain<OpenAIModelObject>({
       method: 'GET',
       path: `${V1}/models/${modelPathSegments(modelId)}`,
+      schema: openAIModelSchema,
       ...options,
     });
   }
@@ -100,6 +109,7 @@ export class OpenAIClient {
       path: `${V1}/audio/transcriptions`,
       body: form,
       bodyMode: 'raw',
+      schema: openAITranscriptionSchema,
       ...options,
     });
   }
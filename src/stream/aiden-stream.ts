@@ -5,13 +5,20 @@ import type {
   CompleteEventData,
 } from '../core/types';
 import { ConnectionError } from '../core/errors';
+import { streamEventSchema } from '../core/schema';
+import type { PayloadCheck } from '../core/validation';
+import { reportStreamDelta, reportStreamEnd } from '../core/body';
+import type { BodyOutcome } from '../core/body';
 
 export class AidenStream implements AsyncIterable<StreamEvent> {
   private readonly response: Response;
+  private readonly check?: PayloadCheck;
   private consumed = false;
 
-  constructor(response: Response) {
+  /** `check` validates each event (see `HttpClient.payloadCheck`). */
+  constructor(response: Response, check?: PayloadCheck) {
     this.response = response;
+    this.check = check;
   }
 
   async *[Symbol.asyncIterator](): AsyncIterableIterator<StreamEvent> {
@@ -28,6 +35,8 @@ export class AidenStream implements AsyncIterable<StreamEvent> {
     const reader = body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
+    let outcome: BodyOutcome = 'cancelled';
+    let failure: unknown;
 
     try {
       while (true) {
@@ -49,8 +58,14 @@ export class AidenStream implements AsyncIterable<StreamEvent> {
           yield event;
         }
       }
+      outcome = 'complete';
+    } catch (error) {
+      outcome = 'error';
+      failure = error;
+      throw error;
     } finally {
       reader.releaseLock();
+      reportStreamEnd(this.response, outcome, failure);
     }
   }
 
@@ -129,7 +144,11 @@ export class AidenStream implements AsyncIterable<StreamEvent> {
       const trimmed = block.trim();
       if (!trimmed) continue;
       const event = this.parseSingleEvent(trimmed);
-      if (event) parsed.push(event);
+      if (event) {
+        this.check?.(streamEventSchema, event);
+        if (event.type === 'delta') reportStreamDelta(this.response);
+        parsed.push(event);
+      }
     }
 
     return { parsed, remaining };
@@ -1,12 +1,19 @@
 import type { OpenAIChatCompletionChunk } from '../openai/types';
 import { ConnectionError } from '../core/errors';
+import { openAIChatChunkSchema } from '../core/schema';
+import type { PayloadCheck } from '../core/validation';
+import { reportStreamDelta, reportStreamEnd } from '../core/body';
+import type { BodyOutcome } from '../core/body';
 
 export class OpenAIChatStream implements AsyncIterable<OpenAIChatCompletionChunk> {
   private readonly response: Response;
+  private readonly check?: PayloadCheck;
   private consumed = false;
 
-  constructor(response: Response) {
+  /** `check` validates each chunk (see `HttpClient.payloadCheck`). */
+  constructor(response: Response, check?: PayloadCheck) {
     this.response = response;
+    this.check = check;
   }
 
   async *[Symbol.asyncIterator](): AsyncIterableIterator<OpenAIChatCompletionChunk> {
@@ -23,6 +30,8 @@ export class OpenAIChatStream implements AsyncIterable<OpenAIChatCompletionChunk
     const reader = body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
+    let outcome: BodyOutcome = 'cancelled';
+    let failure: unknown;
 
     try {
       while (true) {
@@ -40,10 +49,11 @@ export class OpenAIChatStream implements AsyncIterable<OpenAIChatCompletionChunk
 
           const payload = trimmed.slice('data:'.length).trim();
           if (payload === '[DONE]') {
+            outcome = 'complete';
             return;
           }
 
-          yield JSON.parse(payload) as OpenAIChatCompletionChunk;
+          yield this.parseChunk(payload);
         }
       }
 
@@ -52,12 +62,18 @@ export class OpenAIChatStream implements AsyncIterable<OpenAIChatCompletionChunk
         if (trimmed.startsWith('data:')) {
           const payload = trimmed.slice('data:'.length).trim();
           if (payload && payload !== '[DONE]') {
-            yield JSON.parse(payload) as OpenAIChatCompletionChunk;
+            yield this.parseChunk(payload);
           }
         }
       }
+      outcome = 'complete';
+    } catch (error) {
+      outcome = 'error';
+      failure = error;
+      throw error;
     } finally {
       reader.releaseLock();
+      reportStreamEnd(this.response, outcome, failure);
     }
   }
 
@@ -71,4 +87,14 @@ export class OpenAIChatStream implements AsyncIterable<OpenAIChatCompletionChunk
     }
     return out;
   }
+
+  private parseChunk(payload: string): OpenAIChatCompletionChunk {
+    const chunk: unknown = JSON.parse(payload);
+    this.check?.(openAIChatChunkSchema, chunk);
+    const typed = chunk as OpenAIChatCompletionChunk;
+    if (typed.choices?.some((choice) => typeof choice.delta?.content === 'string' && choice.delta.content)) {
+      reportStreamDelta(this.response);
+    }
+    return typed;
+  }
 }
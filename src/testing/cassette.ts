@@ -0,0 +1,295 @@
+/**
+ * Record/replay `fetch` wrapper: record real traffic once into a JSON cassette, then replay it
+ * without network. Streamed bodies keep their chunk boundaries and timing.
+ */
+
+import { AidenError } from '../core/errors';
+import { redactFields, redactHeaders } from '../core/redact';
+import { tapBody } from '../core/body';
+
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteChunk {
+  /** Time since the previous chunk (or since the response headers for the first one). */
+  delayMs: number;
+  data: string;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Text body of non-streamed responses. */
+  body?: string;
+  /** Base64 body of binary responses (audio, PDFs). */
+  bodyBase64?: string;
+  /** Streamed (`text/event-stream`) bodies, chunk by chunk. */
+  chunks?: CassetteChunk[];
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/** `strict`: method, URL and body; `path`: method and path only; or a custom predicate. */
+export type CassetteMatcher = 'strict' | 'path' | ((request: CassetteRequest, recorded: CassetteRequest) => boolean);
+
+export interface CassetteOptions {
+  /** Cassette file, e.g. `test/cassettes/think.json`. */
+  path: string;
+  /** `auto` (default) replays when the file exists and records otherwise. */
+  mode?: CassetteMode;
+  /** Real `fetch` used while recording (default: `globalThis.fetch`). */
+  fetch?: typeof fetch;
+  match?: CassetteMatcher;
+  /** Extra headers to redact; `Authorization` is always redacted. */
+  redactHeaders?: string[];
+  /** JSON body keys to redact at any depth in requests and responses, e.g. `['password', 'values']`. */
+  redactBodyFields?: string[];
+  /** Multiplier for recorded chunk delays on replay (default `1`; `0` replays instantly). */
+  timingScale?: number;
+}
+
+export interface Cassette {
+  /** Pass as `AidenClientConfig.fetch`. */
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  readonly mode: 'record' | 'replay';
+  readonly interactions: CassetteInteraction[];
+  /** Write recorded interactions to disk (after streams are consumed). No-op when replaying. */
+  save(): Promise<void>;
+}
+
+/** Replay found no unused recorded interaction for a request. */
+export class CassetteMismatchError extends AidenError {
+  constructor(request: CassetteRequest, path: string) {
+    super(`No recorded interaction in ${path} for ${request.method} ${request.url}`, 'CASSETTE_MISMATCH', 0, 'unknown', undefined, {
+      request,
+    });
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+function isText(contentType: string | null): boolean {
+  return !contentType || /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+function redactJsonText(text: string, fields: Set<string>): string {
+  if (fields.size === 0) return text;
+  try {
+    return JSON.stringify(redactFields(JSON.parse(text), fields));
+  } catch {
+    return text;
+  }
+}
+
+function requestBody(body: BodyInit | null | undefined, fields: Set<string>): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body !== 'string') return `[${body.constructor?.name ?? 'binary'} body]`;
+  try {
+    return redactFields(JSON.parse(body), fields);
+  } catch {
+    return body;
+  }
+}
+
+function sortedUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+function matches(matcher: CassetteMatcher, request: CassetteRequest, recorded: CassetteRequest): boolean {
+  if (typeof matcher === 'function') return matcher(request, recorded);
+  if (request.method !== recorded.method) return false;
+  if (matcher === 'path') return new URL(request.url).pathname === new URL(recorded.url).pathname;
+  return (
+    sortedUrl(request.url) === sortedUrl(recorded.url) &&
+    JSON.stringify(request.body ?? null) === JSON.stringify(recorded.body ?? null)
+  );
+}
+
+/** Statuses whose `Response` must not have a body. */
+function isNullBodyStatus(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function replayResponse(recorded: CassetteResponse, timingScale: number, signal?: AbortSignal | null): Response {
+  const init = { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers };
+  const nullBody = isNullBodyStatus(recorded.status);
+
+  if (recorded.chunks) {
+    const encoder = new TextEncoder();
+    const chunks = recorded.chunks;
+    let index = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = chunks[index++];
+        if (!chunk) {
+          controller.close();
+          return;
+        }
+        const delay = chunk.delayMs * timingScale;
+        if (delay > 0) await new Promise((r) => setTimeout(r, delay));
+        if (signal?.aborted) {
+          controller.error(abortError());
+          return;
+        }
+        controller.enqueue(encoder.encode(chunk.data));
+      },
+    });
+    return new Response(body, init);
+  }
+  if (recorded.bodyBase64 !== undefined) {
+    return new Response(nullBody ? null : Buffer.from(recorded.bodyBase64, 'base64'), init);
+  }
+  return new Response(nullBody ? null : (recorded.body ?? ''), init);
+}
+
+/** Redacts the JSON payload of every `data:` line of SSE text. */
+function redactSseText(text: string, fields: Set<string>): string {
+  if (fields.size === 0) return text;
+  return text
+    .split('\n')
+    .map((line) => {
+      const match = /^data: ?/.exec(line);
+      return match ? match[0] + redactJsonText(line.slice(match[0].length), fields) : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Records SSE chunks with their timing. Text is recorded up to the last complete line so every
+ * `data:` line can be redacted whole; the rest is carried into the next chunk.
+ */
+function recordStream(response: Response, chunks: CassetteChunk[], fields: Set<string>): Response {
+  const decoder = new TextDecoder();
+  let last = Date.now();
+  let pending = '';
+  const push = (text: string) => {
+    const current = Date.now();
+    chunks.push({ delayMs: current - last, data: redactSseText(text, fields) });
+    last = current;
+  };
+  return tapBody(response, {
+    onChunk(value) {
+      pending += decoder.decode(value, { stream: true });
+      const end = pending.lastIndexOf('\n') + 1;
+      if (end === 0) return;
+      push(pending.slice(0, end));
+      pending = pending.slice(end);
+    },
+    onEnd() {
+      const tail = pending + decoder.decode();
+      if (tail) push(tail);
+    },
+  });
+}
+
+/**
+ * Open a cassette:
+ *
+ * ```ts
+ * const cassette = await createCassette({ path: 'test/cassettes/think.json', redactBodyFields: ['values'] });
+ * const client = new AidenClient({ apiKey, baseUrl, fetch: cassette.fetch });
+ * // …exercise the client…
+ * await cassette.save();
+ * ```
+ */
+export async function createCassette(options: CassetteOptions): Promise<Cassette> {
+  const { readFile, writeFile, mkdir } = await import('node:fs/promises');
+  const { dirname } = await import('node:path');
+
+  let existing: CassetteFile | undefined;
+  if (options.mode !== 'record') {
+    try {
+      existing = JSON.parse(await readFile(options.path, 'utf8')) as CassetteFile;
+    } catch (error) {
+      if (options.mode === 'replay') {
+        throw new Error(`Cannot read cassette ${options.path}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  const mode = existing ? 'replay' : 'record';
+  const interactions = existing?.interactions ?? [];
+  const used = new Set<number>();
+  const matcher = options.match ?? 'strict';
+  const timingScale = options.timingScale ?? 1;
+  const redactHeaderNames = new Set(['authorization', ...(options.redactHeaders ?? []).map((h) => h.toLowerCase())]);
+  const redactBody = new Set(options.redactBodyFields ?? []);
+  const realFetch = options.fetch ?? globalThis.fetch;
+
+  const describeRequest = (input: RequestInfo | URL, init: RequestInit): CassetteRequest => {
+    const request = input instanceof Request ? input : undefined;
+    return {
+      method: (init.method ?? request?.method ?? 'GET').toUpperCase(),
+      url: request ? request.url : String(input),
+      headers: redactHeaders(init.headers ?? request?.headers, redactHeaderNames),
+      body: requestBody(init.body, redactBody),
+    };
+  };
+
+  const replay = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const request = describeRequest(input, init);
+    if (init.signal?.aborted) throw abortError();
+    const index = interactions.findIndex((interaction, i) => !used.has(i) && matches(matcher, request, interaction.request));
+    if (index < 0) throw new CassetteMismatchError(request, options.path);
+    used.add(index);
+    return replayResponse(interactions[index]!.response, timingScale, init.signal);
+  };
+
+  const record = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const request = describeRequest(input, init);
+    const response = await realFetch(input, init);
+    const contentType = response.headers.get('content-type');
+    const recorded: CassetteResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: redactHeaders(response.headers, redactHeaderNames),
+    };
+    interactions.push({ request, response: recorded });
+    const responseInit = { status: response.status, statusText: response.statusText, headers: response.headers };
+
+    if (response.body && contentType?.includes('text/event-stream')) {
+      recorded.chunks = [];
+      return recordStream(response, recorded.chunks, redactBody);
+    }
+    if (!isText(contentType)) {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      recorded.bodyBase64 = Buffer.from(bytes).toString('base64');
+      return new Response(isNullBodyStatus(response.status) ? null : bytes, responseInit);
+    }
+    const text = await response.text();
+    recorded.body = redactJsonText(text, redactBody);
+    return new Response(isNullBodyStatus(response.status) ? null : text, responseInit);
+  };
+
+  return {
+    fetch: mode === 'replay' ? replay : record,
+    mode,
+    interactions,
+    async save(): Promise<void> {
+      if (mode === 'replay') return;
+      await mkdir(dirname(options.path), { recursive: true });
+      const file: CassetteFile = { version: 1, interactions };
+      await writeFile(options.path, `${JSON.stringify(file, null, 2)}\n`);
+    },
+  };
+}
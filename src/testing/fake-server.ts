@@ -0,0 +1,666 @@
+/**
+ * In-memory fake of the Aiden external API, callable as `fetch`. State lives in plain maps so tests
+ * can seed or inspect it; faults are injected per route to exercise retries, breakers and timeouts.
+ */
+
+import type {
+  ChatMessage,
+  ChatSession,
+  Flow,
+  FlowRun,
+  KnowledgeAsset,
+  Notebook,
+  PDCAPhase,
+  Skill,
+  SkillExecution,
+  StreamEventType,
+} from '../core/types';
+import type { HttpMethod } from '../core/http-client';
+
+export interface FakeAidenServerOptions {
+  /** When set, requests with another bearer token get 401. */
+  apiKey?: string;
+  /** How long skill executions and flow runs stay `running` (default `50`). */
+  executionMs?: number;
+  /** Delay between SSE events (default `0`). */
+  streamDelayMs?: number;
+  /** Assistant reply for `think` and `/v1/chat/completions` (default: echoes the message). */
+  reply?: (message: string) => string;
+}
+
+export interface InjectedFault {
+  method?: HttpMethod;
+  /** Path prefix (`/api/v1/skills`) or pattern; matches every request when omitted. */
+  path?: string | RegExp;
+  /** Answer with this status and an error envelope (e.g. 429, 500, 503). */
+  status?: number;
+  /** `Retry-After` header in seconds. */
+  retryAfter?: number;
+  /** Never answer: the request hangs until its signal aborts, like a server that stopped responding. */
+  timeout?: boolean;
+  /** Reject like a refused connection (`TypeError: fetch failed`). */
+  networkError?: boolean;
+  /** Matching requests to fail before the fault is used up (default `1`). */
+  times?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export type FakeChatSession = ChatSession & { _id: string; messages: ChatMessage[] };
+export type FakeExecution = SkillExecution & { startedAtMs: number };
+export type FakeFlowRun = FlowRun & { startedAtMs: number };
+
+export interface FakeAidenState {
+  notebooks: Map<string, Notebook>;
+  assets: Map<string, KnowledgeAsset>;
+  sessions: Map<string, FakeChatSession>;
+  skills: Map<string, Skill>;
+  executions: Map<string, FakeExecution>;
+  flows: Map<string, Flow>;
+  runs: Map<string, FakeFlowRun>;
+}
+
+export interface FakeAidenServer {
+  (input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+  readonly state: FakeAidenState;
+  /** Every request received, oldest first (including ones answered by a fault). */
+  readonly requests: RecordedRequest[];
+  /** Queue a fault; faults are checked in order before routing. */
+  inject(fault: InjectedFault): void;
+  /** Clear state, recorded requests, faults and ID counters. */
+  reset(): void;
+}
+
+interface FakeRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  signal?: AbortSignal | null;
+}
+
+type Handler = (req: FakeRequest) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+interface SseEvent {
+  event?: string;
+  data: unknown;
+}
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function meta(): { requestId: string; timestamp: string } {
+  return { requestId: `req_fake_${Math.random().toString(36).slice(2, 10)}`, timestamp: now() };
+}
+
+function ok(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify({ data, meta: meta() }), { status, headers: JSON_HEADERS });
+}
+
+function plain(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: JSON_HEADERS });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+function fail(status: number, code: string, message: string, details?: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error: { code, message, details }, meta: meta() }), {
+    status,
+    headers: { ...JSON_HEADERS, ...headers },
+  });
+}
+
+function notFound(kind: string, id: string): Response {
+  return fail(404, 'NOT_FOUND', `${kind} ${id} not found`);
+}
+
+function required(body: Record<string, unknown>, ...fields: string[]): Response | undefined {
+  const missing = fields.filter((f) => typeof body[f] !== 'string' || !body[f]);
+  if (missing.length === 0) return undefined;
+  return fail(
+    400,
+    'VALIDATION_ERROR',
+    `Missing required field: ${missing.join(', ')}`,
+    missing.map((field) => ({ field, message: 'Required' })),
+  );
+}
+
+function page<T>(items: T[], query: URLSearchParams): Response {
+  const search = query.get('search')?.toLowerCase();
+  const filtered = search
+    ? items.filter((item) => JSON.stringify(item).toLowerCase().includes(search))
+    : items;
+  const limit = Math.max(1, Number(query.get('limit')) || 20);
+  const pageNo = Math.max(1, Number(query.get('page')) || 1);
+  const data = filtered.slice((pageNo - 1) * limit, pageNo * limit);
+  const pagination = { page: pageNo, limit, total: filtered.length, totalPages: Math.ceil(filtered.length / limit) };
+  return new Response(JSON.stringify({ data, meta: { ...meta(), pagination } }), { status: 200, headers: JSON_HEADERS });
+}
+
+/** SSE response; events are written `delayMs` apart and the stream stops when `signal` aborts. */
+function sse(events: SseEvent[] | AsyncIterable<SseEvent>, delayMs: number, signal?: AbortSignal | null): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let first = true;
+      try {
+        for await (const e of events as AsyncIterable<SseEvent>) {
+          if (signal?.aborted) break;
+          if (!first && delayMs > 0) await new Promise((r) => setTimeout(r, delayMs));
+          first = false;
+          const data = typeof e.data === 'string' ? e.data : JSON.stringify(e.data);
+          controller.enqueue(encoder.encode(`${e.event ? `event: ${e.event}\n` : ''}data: ${data}\n\n`));
+        }
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function aidenEvent(type: StreamEventType, phase: PDCAPhase, data: unknown): SseEvent {
+  return { event: type, data: { type, phase, data, timestamp: Date.now(), visibility: 'prominent' } };
+}
+
+/** Split a reply into word-sized deltas, keeping whitespace so the parts join back losslessly. */
+function chunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function lastUserMessage(messages: unknown): string {
+  if (!Array.isArray(messages)) return '';
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i] as { role?: string; content?: unknown };
+    if (m?.role === 'user' && typeof m.content === 'string') return m.content;
+  }
+  return '';
+}
+
+function toRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    out[key] = value;
+  });
+  return out;
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (typeof body !== 'string') return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Create a fake server to pass as `fetch`:
+ *
+ * ```ts
+ * const server = createFakeAidenServer();
+ * const client = new AidenClient({ apiKey: 'test', baseUrl: 'https://aiden.test', fetch: server });
+ * server.inject({ path: '/api/v1/skills', status: 503, times: 2 });
+ * ```
+ */
+export function createFakeAidenServer(options: FakeAidenServerOptions = {}): FakeAidenServer {
+  const executionMs = options.executionMs ?? 50;
+  const streamDelayMs = options.streamDelayMs ?? 0;
+  const reply = options.reply ?? ((message: string) => `You said: ${message}`);
+
+  const state: FakeAidenState = {
+    notebooks: new Map(),
+    assets: new Map(),
+    sessions: new Map(),
+    skills: new Map(),
+    executions: new Map(),
+    flows: new Map(),
+    runs: new Map(),
+  };
+  const requests: RecordedRequest[] = [];
+  const faults: Array<InjectedFault & { remaining: number }> = [];
+  const counters = new Map<string, number>();
+  const routes: Route[] = [];
+
+  const nextId = (prefix: string): string => {
+    const n = (counters.get(prefix) ?? 0) + 1;
+    counters.set(prefix, n);
+    return `${prefix}_${n}`;
+  };
+
+  const route = (method: string, template: string, handler: Handler): void => {
+    const keys: string[] = [];
+    const source = template.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  };
+
+  /** Moves a run or execution to `completed` once `executionMs` has passed. */
+  const settle = <T extends FakeExecution | FakeFlowRun>(item: T): T => {
+    if (item.status === 'running' && Date.now() - item.startedAtMs >= executionMs) {
+      item.status = 'completed';
+      item.outputs = { echo: item.inputs ?? {} };
+      item.completedAt = now();
+      item.duration = Date.now() - item.startedAtMs;
+    }
+    return item;
+  };
+
+  const publicView = <T extends { startedAtMs: number }>(item: T): Omit<T, 'startedAtMs'> => {
+    const copy: Partial<T> = { ...item };
+    delete copy.startedAtMs;
+    return copy as Omit<T, 'startedAtMs'>;
+  };
+
+  const sessionsFor = (notebookId?: string): FakeChatSession[] =>
+    [...state.sessions.values()].filter((s) => s.notebookId === notebookId);
+
+  const createSession = (body: Record<string, unknown>, notebookId?: string): FakeChatSession => {
+    const session: FakeChatSession = {
+      ...body,
+      _id: nextId('sess'),
+      title: typeof body.title === 'string' ? body.title : 'New chat',
+      notebookId,
+      messages: [],
+      messageCount: 0,
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    state.sessions.set(session._id, session);
+    return session;
+  };
+
+  const think = (req: FakeRequest, notebookId?: string): Response => {
+    const invalid = required(req.body, 'message');
+    if (invalid) return invalid;
+    if (notebookId && !state.notebooks.has(notebookId)) return notFound('Notebook', notebookId);
+
+    const message = req.body.message as string;
+    const sessionId = req.body.sessionId as string | undefined;
+    let session = sessionId ? state.sessions.get(sessionId) : undefined;
+    if (sessionId && !session) return notFound('Session', sessionId);
+
+    const events: SseEvent[] = [];
+    if (!session) {
+      session = createSession({ title: message.slice(0, 60) }, notebookId ?? (req.body.notebookId as string | undefined));
+      events.push(aidenEvent('session_created', 'plan', { sessionId: session._id }));
+    }
+
+    const content = reply(message);
+    const messageId = nextId('msg');
+    session.messages.push(
+      { _id: nextId('msg'), role: 'user', content: message, createdAt: now() },
+      { _id: messageId, role: 'assistant', content, createdAt: now() },
+    );
+    session.messageCount = session.messages.length;
+    session.lastMessageAt = session.updatedAt = now();
+
+    events.push(aidenEvent('thinking_start', 'plan', {}));
+    for (const part of chunks(content)) events.push(aidenEvent('delta', 'do', { content: part }));
+    events.push(aidenEvent('complete', 'act', { sessionId: session._id, messageId, content }));
+    return sse(events, streamDelayMs, req.signal);
+  };
+
+  const sessionRoutes = (base: string, notebookScoped: boolean): void => {
+    const scope = (req: FakeRequest): string | undefined => (notebookScoped ? req.params.notebookId : undefined);
+    const find = (req: FakeRequest): FakeChatSession | undefined => {
+      const session = state.sessions.get(req.params.sessionId!);
+      return session && session.notebookId === scope(req) ? session : undefined;
+    };
+
+    route('POST', base, (req) => {
+      const notebookId = scope(req);
+      if (notebookId && !state.notebooks.has(notebookId)) return notFound('Notebook', notebookId);
+      return ok(createSession(req.body, notebookId), 201);
+    });
+    route('GET', base, (req) => page(sessionsFor(scope(req)), req.query));
+    route('GET', `${base}/:sessionId`, (req) => {
+      const session = find(req);
+      return session ? ok(session) : notFound('Session', req.params.sessionId!);
+    });
+    route('DELETE', `${base}/:sessionId`, (req) => {
+      if (!find(req)) return notFound('Session', req.params.sessionId!);
+      state.sessions.delete(req.params.sessionId!);
+      return noContent();
+    });
+  };
+
+  // Notebooks and knowledge assets
+  route('POST', '/api/v1/notebooks', (req) => {
+    const invalid = required(req.body, 'name');
+    if (invalid) return invalid;
+    const notebook: Notebook = {
+      ...req.body,
+      _id: nextId('nb'),
+      name: req.body.name as string,
+      knowledgeAssetCount: 0,
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    state.notebooks.set(notebook._id, notebook);
+    return ok(notebook, 201);
+  });
+  route('GET', '/api/v1/notebooks', (req) => page([...state.notebooks.values()], req.query));
+  route('GET', '/api/v1/notebooks/:id', (req) => {
+    const notebook = state.notebooks.get(req.params.id!);
+    return notebook ? ok(notebook) : notFound('Notebook', req.params.id!);
+  });
+  route('PUT', '/api/v1/notebooks/:id', (req) => {
+    const notebook = state.notebooks.get(req.params.id!);
+    if (!notebook) return notFound('Notebook', req.params.id!);
+    Object.assign(notebook, req.body, { _id: notebook._id, updatedAt: now() });
+    return ok(notebook);
+  });
+  route('DELETE', '/api/v1/notebooks/:id', (req) => {
+    if (!state.notebooks.delete(req.params.id!)) return notFound('Notebook', req.params.id!);
+    for (const [id, asset] of state.assets) if (asset.notebookId === req.params.id) state.assets.delete(id);
+    return noContent();
+  });
+
+  const assetsOf = (notebookId: string): KnowledgeAsset[] =>
+    [...state.assets.values()].filter((a) => a.notebookId === notebookId);
+  const findAsset = (req: FakeRequest): KnowledgeAsset | undefined => {
+    const asset = state.assets.get(req.params.assetId!);
+    return asset?.notebookId === req.params.notebookId ? asset : undefined;
+  };
+
+  route('POST', '/api/v1/notebooks/:notebookId/knowledge-assets', (req) => {
+    const notebook = state.notebooks.get(req.params.notebookId!);
+    if (!notebook) return notFound('Notebook', req.params.notebookId!);
+    const invalid = required(req.body, 'name', 'type');
+    if (invalid) return invalid;
+    const asset: KnowledgeAsset = {
+      ...req.body,
+      _id: nextId('asset'),
+      notebookId: notebook._id,
+      name: req.body.name as string,
+      type: req.body.type as string,
+      status: 'indexed',
+      chunkCount: typeof req.body.content === 'string' ? Math.max(1, Math.ceil(req.body.content.length / 1000)) : 1,
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    state.assets.set(asset._id, asset);
+    notebook.knowledgeAssetCount = assetsOf(notebook._id).length;
+    return ok(asset, 201);
+  });
+  route('GET', '/api/v1/notebooks/:notebookId/knowledge-assets', (req) => {
+    if (!state.notebooks.has(req.params.notebookId!)) return notFound('Notebook', req.params.notebookId!);
+    return page(assetsOf(req.params.notebookId!), req.query);
+  });
+  route('GET', '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId', (req) => {
+    const asset = findAsset(req);
+    return asset ? ok(asset) : notFound('Knowledge asset', req.params.assetId!);
+  });
+  route('PATCH', '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId', (req) => {
+    const asset = findAsset(req);
+    if (!asset) return notFound('Knowledge asset', req.params.assetId!);
+    Object.assign(asset, req.body, { _id: asset._id, notebookId: asset.notebookId, updatedAt: now() });
+    return ok(asset);
+  });
+  route('DELETE', '/api/v1/notebooks/:notebookId/knowledge-assets/:assetId', (req) => {
+    if (!findAsset(req)) return notFound('Knowledge asset', req.params.assetId!);
+    state.assets.delete(req.params.assetId!);
+    const notebook = state.notebooks.get(req.params.notebookId!);
+    if (notebook) notebook.knowledgeAssetCount = assetsOf(notebook._id).length;
+    return noContent();
+  });
+
+  // Knowledge chat
+  sessionRoutes('/api/v1/knowledge/chat/sessions', false);
+  sessionRoutes('/api/v1/knowledge/notebooks/:notebookId/chat/sessions', true);
+  route('POST', '/api/v1/knowledge/chat/think', (req) => think(req));
+  route('POST', '/api/v1/knowledge/notebooks/:notebookId/chat/think', (req) => think(req, req.params.notebookId));
+
+  // Skills and executions
+  route('POST', '/api/v1/skills', (req) => {
+    const invalid = required(req.body, 'name');
+    if (invalid) return invalid;
+    const skill: Skill = {
+      ...req.body,
+      _id: nextId('skill'),
+      name: req.body.name as string,
+      status: 'active',
+      version: 1,
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    state.skills.set(skill._id, skill);
+    return ok(skill, 201);
+  });
+  route('GET', '/api/v1/skills', (req) => page([...state.skills.values()], req.query));
+  route('GET', '/api/v1/skills/:id', (req) => {
+    const skill = state.skills.get(req.params.id!);
+    return skill ? ok(skill) : notFound('Skill', req.params.id!);
+  });
+  route('PUT', '/api/v1/skills/:id', (req) => {
+    const skill = state.skills.get(req.params.id!);
+    if (!skill) return notFound('Skill', req.params.id!);
+    Object.assign(skill, req.body, { _id: skill._id, version: (skill.version ?? 1) + 1, updatedAt: now() });
+    return ok(skill);
+  });
+  route('DELETE', '/api/v1/skills/:id', (req) =>
+    state.skills.delete(req.params.id!) ? noContent() : notFound('Skill', req.params.id!),
+  );
+  for (const action of ['activate', 'deactivate'] as const) {
+    route('POST', `/api/v1/skills/:id/${action}`, (req) => {
+      const skill = state.skills.get(req.params.id!);
+      if (!skill) return notFound('Skill', req.params.id!);
+      skill.status = action === 'activate' ? 'active' : 'inactive';
+      return ok(skill);
+    });
+  }
+  route('POST', '/api/v1/skills/:id/run', (req) => {
+    const skill = state.skills.get(req.params.id!);
+    if (!skill) return notFound('Skill', req.params.id!);
+    if (skill.status === 'inactive') return fail(409, 'SKILL_INACTIVE', `Skill ${skill._id} is inactive`);
+    const execution: FakeExecution = {
+      _id: nextId('exec'),
+      skillId: skill._id,
+      status: 'running',
+      inputs: (req.body.inputs as Record<string, unknown> | undefined) ?? {},
+      startedAt: now(),
+      startedAtMs: Date.now(),
+    };
+    state.executions.set(execution._id, execution);
+    return ok(publicView(execution), 202);
+  });
+  route('GET', '/api/v1/skills/:id/executions', (req) => {
+    const executions = [...state.executions.values()].filter((e) => e.skillId === req.params.id);
+    return page(executions.map((e) => publicView(settle(e))), req.query);
+  });
+  route('GET', '/api/v1/skills/:id/executions/:executionId', (req) => {
+    const execution = state.executions.get(req.params.executionId!);
+    if (!execution || execution.skillId !== req.params.id) return notFound('Execution', req.params.executionId!);
+    return ok(publicView(settle(execution)));
+  });
+  route('POST', '/api/v1/skills/:id/executions/:executionId/cancel', (req) => {
+    const execution = state.executions.get(req.params.executionId!);
+    if (!execution || execution.skillId !== req.params.id) return notFound('Execution', req.params.executionId!);
+    if (settle(execution).status !== 'running') {
+      return fail(409, 'EXECUTION_FINISHED', `Execution ${execution._id} already ${execution.status}`);
+    }
+    execution.status = 'cancelled';
+    execution.completedAt = now();
+    return ok(publicView(execution));
+  });
+
+  // Flows and runs
+  route('POST', '/api/v1/flows', (req) => {
+    const invalid = required(req.body, 'name');
+    if (invalid) return invalid;
+    const flow: Flow = { ...req.body, _id: nextId('flow'), name: req.body.name as string, status: 'active', createdAt: now() };
+    state.flows.set(flow._id, flow);
+    return ok(flow, 201);
+  });
+  route('GET', '/api/v1/flows', (req) => page([...state.flows.values()], req.query));
+  route('GET', '/api/v1/flows/runs', (req) => page([...state.runs.values()].map((r) => publicView(settle(r))), req.query));
+  route('GET', '/api/v1/flows/runs/:id', (req) => {
+    const run = state.runs.get(req.params.id!);
+    return run ? ok(publicView(settle(run))) : notFound('Flow run', req.params.id!);
+  });
+  route('GET', '/api/v1/flows/runs/:id/logs', (req) => {
+    const run = state.runs.get(req.params.id!);
+    if (!run) return notFound('Flow run', req.params.id!);
+    settle(run);
+    const logs = [{ level: 'info', message: 'Run started', timestamp: run.startedAt }];
+    if (run.status !== 'running') logs.push({ level: 'info', message: `Run ${run.status}`, timestamp: run.completedAt });
+    return page(logs, req.query);
+  });
+  route('GET', '/api/v1/flows/runs/:id/stream', (req) => {
+    const run = state.runs.get(req.params.id!);
+    if (!run) return notFound('Flow run', req.params.id!);
+    async function* events(): AsyncGenerator<SseEvent> {
+      yield aidenEvent('execution_start', 'do', { runId: run!._id });
+      const remaining = run!.startedAtMs + executionMs - Date.now();
+      if (run!.status === 'running' && remaining > 0) await new Promise((r) => setTimeout(r, remaining));
+      const done = publicView(settle(run!));
+      yield aidenEvent('complete', 'act', { runId: done._id, status: done.status, outputs: done.outputs });
+    }
+    return sse(events(), streamDelayMs, req.signal);
+  });
+  route('POST', '/api/v1/flows/:id/run', (req) => {
+    const flow = state.flows.get(req.params.id!);
+    if (!flow) return notFound('Flow', req.params.id!);
+    const run: FakeFlowRun = {
+      _id: nextId('run'),
+      flowId: flow._id,
+      instanceId: req.body.instanceId as string | undefined,
+      status: 'running',
+      inputs: (req.body.inputs as Record<string, unknown> | undefined) ?? {},
+      startedAt: now(),
+      startedAtMs: Date.now(),
+    };
+    state.runs.set(run._id, run);
+    return ok(publicView(run), 202);
+  });
+
+  // OpenAI-compatible
+  route('GET', '/v1/models', () =>
+    plain({ object: 'list', data: [{ id: 'aiden/default', object: 'model', created: 0, owned_by: 'aiden' }] }),
+  );
+  route('POST', '/v1/chat/completions', (req) => {
+    if (typeof req.body.model !== 'string' || !Array.isArray(req.body.messages)) {
+      return fail(400, 'invalid_request_error', '`model` and `messages` are required');
+    }
+    const id = nextId('chatcmpl');
+    const created = Math.floor(Date.now() / 1000);
+    const model = req.body.model;
+    const content = reply(lastUserMessage(req.body.messages));
+    const usage = { prompt_tokens: 0, completion_tokens: chunks(content).length, total_tokens: chunks(content).length };
+
+    if (!req.body.stream) {
+      return plain({
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage,
+      });
+    }
+
+    const chunk = (delta: Record<string, unknown>, finish: string | null, extra: Record<string, unknown> = {}): SseEvent => ({
+      data: { id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta, finish_reason: finish }], ...extra },
+    });
+    const events = [
+      chunk({ role: 'assistant' }, null),
+      ...chunks(content).map((part) => chunk({ content: part }, null)),
+      chunk({}, 'stop', (req.body.stream_options as { include_usage?: boolean } | undefined)?.include_usage ? { usage } : {}),
+      { data: '[DONE]' },
+    ];
+    return sse(events, streamDelayMs, req.signal);
+  });
+
+  const takeFault = (method: string, path: string): InjectedFault | undefined => {
+    const index = faults.findIndex(
+      (f) =>
+        (!f.method || f.method === method) &&
+        (f.path === undefined || (typeof f.path === 'string' ? path.startsWith(f.path) : f.path.test(path))),
+    );
+    if (index < 0) return undefined;
+    const fault = faults[index]!;
+    if (--fault.remaining <= 0) faults.splice(index, 1);
+    return fault;
+  };
+
+  const server = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const request = input instanceof Request ? input : undefined;
+    const url = new URL(request ? request.url : String(input));
+    const method = (init.method ?? request?.method ?? 'GET').toUpperCase();
+    const headers = toRecord(init.headers ?? request?.headers);
+    const body = parseBody(init.body);
+    const signal = init.signal ?? request?.signal;
+
+    requests.push({ method, path: url.pathname, query: Object.fromEntries(url.searchParams), headers, body });
+
+    if (signal?.aborted) throw abortError();
+
+    const fault = takeFault(method, url.pathname);
+    if (fault?.networkError) throw new TypeError('fetch failed');
+    if (fault?.timeout) {
+      return new Promise<Response>((_, reject) => {
+        if (!signal) return;
+        signal.addEventListener('abort', () => reject(abortError()), { once: true });
+      });
+    }
+    if (fault?.status) {
+      const retryAfter = fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : undefined;
+      return fail(fault.status, fault.status === 429 ? 'RATE_LIMITED' : 'INJECTED_FAULT', `Injected ${fault.status}`, undefined, retryAfter);
+    }
+
+    if (options.apiKey && headers.authorization !== `Bearer ${options.apiKey}`) {
+      return fail(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+
+    for (const r of routes) {
+      if (r.method !== method) continue;
+      const match = r.pattern.exec(url.pathname);
+      if (!match) continue;
+      const params = Object.fromEntries(r.keys.map((key, i) => [key, decodeURIComponent(match[i + 1]!)]));
+      const json = body && typeof body === 'object' && !(body instanceof FormData) ? (body as Record<string, unknown>) : {};
+      return r.handler({ method, path: url.pathname, params, query: url.searchParams, body: json, signal });
+    }
+    return fail(404, 'ROUTE_NOT_FOUND', `No fake route for ${method} ${url.pathname}`);
+  };
+
+  return Object.assign(server, {
+    state,
+    requests,
+    inject(fault: InjectedFault): void {
+      faults.push({ ...fault, remaining: fault.times ?? 1 });
+    },
+    reset(): void {
+      for (const map of Object.values(state)) (map as Map<string, unknown>).clear();
+      requests.length = 0;
+      faults.length = 0;
+      counters.clear();
+    },
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * `@aiden-ai/sdk/testing` — test doubles for code built on `AidenClient`.
+ */
+
+export { createFakeAidenServer } from './fake-server';
+export type {
+  FakeAidenServer,
+  FakeAidenServerOptions,
+  FakeAidenState,
+  FakeChatSession,
+  FakeExecution,
+  FakeFlowRun,
+  InjectedFault,
+  RecordedRequest,
+} from './fake-server';
+export { createCassette, CassetteMismatchError } from './cassette';
+export type {
+  Cassette,
+  CassetteChunk,
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMatcher,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+} from './cassette';
@@ -0,0 +1,261 @@
+/**
+ * Browser-safe client for the public widget chat routes (`/api/v1/chat/:widgetId/…`). It needs no API
+ * key and never sends `Authorization`, so it can ship in a page bundle.
+ */
+
+import { AbortedError, AidenError, ConnectionError, TimeoutError, createErrorFromResponse } from '../core/errors';
+import { parseRetryAfter } from '../core/quota';
+import { tapBody } from '../core/body';
+import { AidenStream } from '../stream/aiden-stream';
+import type { ApiResponse, WidgetMessageReply, WidgetSession } from '../core/types';
+import type { CreateWidgetSessionParams, WidgetMessageParams } from '../domains/chat';
+import { memoryStorage, parseStoredSession } from './storage';
+import type { StoredWidgetSession, WidgetSessionStorage } from './storage';
+
+export interface AidenWidgetClientConfig {
+  /** External API origin, e.g. `https://ext-api.example.com`. */
+  baseUrl: string;
+  widgetId: string;
+  /** Where the session id is kept (default: in memory; pass `localStorage` to keep it across reloads). */
+  storage?: WidgetSessionStorage;
+  /** Storage key (default `aiden-widget:<widgetId>`). */
+  storageKey?: string;
+  /** Body of `POST …/session` whenever a session is created (`locale`, `metadata`, …). */
+  session?: CreateWidgetSessionParams;
+  /** Milliseconds to wait for the first byte of a response (default `30000`). */
+  timeout?: number;
+  /** Extra headers for every request; `Authorization` is dropped. */
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface WidgetRequestOptions {
+  signal?: AbortSignal;
+  /** Overrides the client's first-byte timeout for this call. */
+  timeout?: number;
+}
+
+/** A message text, or the message body without `sessionId` (which the client fills in). */
+export type WidgetMessageInput = string | Omit<WidgetMessageParams, 'sessionId'>;
+
+function isExpired(session: StoredWidgetSession): boolean {
+  return !!session.expiresAt && Date.parse(session.expiresAt) <= Date.now();
+}
+
+/** The server no longer knows the session (expired, cleaned up, or from another widget). */
+function isSessionGone(error: unknown): boolean {
+  if (!(error instanceof AidenError)) return false;
+  return error.status === 404 || error.status === 410 || /SESSION/i.test(error.code);
+}
+
+/**
+ * ```ts
+ * const widget = new AidenWidgetClient({ baseUrl, widgetId, storage: localStorage });
+ * const stream = await widget.stream('Which drill fits concrete?');
+ * for await (const event of stream) if (event.type === 'delta') render(event.data.content);
+ * ```
+ */
+export class AidenWidgetClient {
+  readonly widgetId: string;
+  private readonly baseUrl: string;
+  private readonly storage: WidgetSessionStorage;
+  private readonly storageKey: string;
+  private readonly sessionParams: CreateWidgetSessionParams;
+  private readonly timeout: number;
+  private readonly headers: Record<string, string>;
+  private readonly fetchFn: typeof fetch;
+  /** Session being created; concurrent calls share it. */
+  private creating?: Promise<StoredWidgetSession>;
+
+  constructor(config: AidenWidgetClientConfig) {
+    if (!config.baseUrl) {
+      throw new Error('AidenWidgetClient requires baseUrl (external API origin, e.g. https://ext-api.example.com).');
+    }
+    if (!config.widgetId) {
+      throw new Error('AidenWidgetClient requires widgetId.');
+    }
+    this.widgetId = config.widgetId;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.storage = config.storage ?? memoryStorage();
+    this.storageKey = config.storageKey ?? `aiden-widget:${config.widgetId}`;
+    this.sessionParams = config.session ?? {};
+    this.timeout = config.timeout ?? 30_000;
+    this.headers = Object.fromEntries(
+      Object.entries(config.headers ?? {}).filter(([name]) => name.toLowerCase() !== 'authorization'),
+    );
+    // Browsers throw "Illegal invocation" when `fetch` is called as a method of another object.
+    this.fetchFn = config.fetch ?? ((input, init) => globalThis.fetch(input, init));
+
+    if (!config.fetch && typeof globalThis.fetch !== 'function') {
+      throw new Error('No fetch implementation found. Use a browser, Node.js 18+, or pass `fetch` in config.');
+    }
+  }
+
+  /** The stored session, or a new one when there is none or it has expired. */
+  async session(options: WidgetRequestOptions = {}): Promise<StoredWidgetSession> {
+    const stored = await this.stored();
+    return stored && !isExpired(stored) ? stored : this.createSession(options);
+  }
+
+  /** Sends a message and waits for the whole reply. */
+  async send(message: WidgetMessageInput, options: WidgetRequestOptions = {}): Promise<ApiResponse<WidgetMessageReply>> {
+    const response = await this.withSession(options, (sessionId) =>
+      this.call('POST', '/message', { ...this.messageBody(message), sessionId }, options),
+    );
+    const body = (await response.json()) as ApiResponse<WidgetMessageReply>;
+    const sessionId = body.data?.sessionId;
+    if (sessionId && sessionId !== (await this.stored())?.sessionId) {
+      await this.remember({ sessionId });
+    }
+    return body;
+  }
+
+  /** Sends a message and streams the reply as it is generated (`delta` events, then `complete`). */
+  async stream(message: WidgetMessageInput, options: WidgetRequestOptions = {}): Promise<AidenStream> {
+    const response = await this.withSession(options, (sessionId) =>
+      this.call('POST', '/message', { ...this.messageBody(message), sessionId, stream: true }, options, 'text/event-stream'),
+    );
+    return new AidenStream(response);
+  }
+
+  /** The stored session with its messages (to restore a conversation after a reload), if it still exists. */
+  async history(options: WidgetRequestOptions = {}): Promise<ApiResponse<WidgetSession> | undefined> {
+    const stored = await this.stored();
+    if (!stored || isExpired(stored)) return undefined;
+    try {
+      const response = await this.call('GET', `/session/${encodeURIComponent(stored.sessionId)}`, undefined, options);
+      return (await response.json()) as ApiResponse<WidgetSession>;
+    } catch (error) {
+      if (!isSessionGone(error)) throw error;
+      await this.forget(stored.sessionId);
+      return undefined;
+    }
+  }
+
+  /** Ends the conversation: deletes the session on the server and forgets it locally. */
+  async reset(options: WidgetRequestOptions = {}): Promise<void> {
+    const stored = await this.stored();
+    if (!stored) return;
+    await this.storage.removeItem(this.storageKey);
+    try {
+      await this.call('DELETE', `/session/${encodeURIComponent(stored.sessionId)}`, undefined, options);
+    } catch (error) {
+      if (!isSessionGone(error)) throw error;
+    }
+  }
+
+  /**
+   * Runs `send` with the current session. When the server no longer knows a stored session, a new one
+   * is created and `send` runs once more; a session created for this very call is not replaced.
+   */
+  private async withSession(options: WidgetRequestOptions, send: (sessionId: string) => Promise<Response>): Promise<Response> {
+    const stored = await this.stored();
+    const reused = !!stored && !isExpired(stored);
+    const session = reused ? stored! : await this.createSession(options);
+    try {
+      return await send(session.sessionId);
+    } catch (error) {
+      if (!reused || !isSessionGone(error)) throw error;
+      return send((await this.renew(session.sessionId, options)).sessionId);
+    }
+  }
+
+  /** Replaces a session the server rejected, unless a concurrent call already did. */
+  private async renew(rejectedId: string, options: WidgetRequestOptions): Promise<StoredWidgetSession> {
+    const current = await this.stored();
+    if (current && current.sessionId !== rejectedId && !isExpired(current)) return current;
+    await this.forget(rejectedId);
+    return this.createSession(options);
+  }
+
+  private createSession(options: WidgetRequestOptions): Promise<StoredWidgetSession> {
+    this.creating ??= (async () => {
+      const response = await this.call('POST', '/session', this.sessionParams, options);
+      const { data } = (await response.json()) as ApiResponse<WidgetSession>;
+      if (!data?.sessionId) {
+        throw new AidenError('Widget session response has no sessionId', 'API_ERROR', response.status, 'unknown');
+      }
+      const session: StoredWidgetSession = { sessionId: data.sessionId, expiresAt: data.expiresAt };
+      await this.remember(session);
+      return session;
+    })().finally(() => {
+      this.creating = undefined;
+    });
+    return this.creating;
+  }
+
+  private async stored(): Promise<StoredWidgetSession | undefined> {
+    return parseStoredSession(await this.storage.getItem(this.storageKey));
+  }
+
+  private async remember(session: StoredWidgetSession): Promise<void> {
+    await this.storage.setItem(this.storageKey, JSON.stringify(session));
+  }
+
+  private async forget(sessionId: string): Promise<void> {
+    if ((await this.stored())?.sessionId === sessionId) await this.storage.removeItem(this.storageKey);
+  }
+
+  private messageBody(message: WidgetMessageInput): Omit<WidgetMessageParams, 'sessionId'> {
+    return typeof message === 'string' ? { message } : message;
+  }
+
+  /** One request without retries; non-2xx responses become the matching `AidenError`. */
+  private async call(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    body: unknown,
+    options: WidgetRequestOptions,
+    accept = 'application/json',
+  ): Promise<Response> {
+    const url = `${this.baseUrl}/api/v1/chat/${encodeURIComponent(this.widgetId)}${path}`;
+    const timeoutMs = options.timeout ?? this.timeout;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    // The caller's signal keeps aborting the body after the headers arrived (streams), so it stays
+    // linked until the body ends; long-lived signals would otherwise collect a listener per call.
+    const { signal } = options;
+    const onAbort = () => controller.abort();
+    const unlink = () => signal?.removeEventListener('abort', onAbort);
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let response: Response;
+    try {
+      signal?.throwIfAborted();
+      response = await this.fetchFn(url, {
+        method,
+        headers: {
+          Accept: accept,
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...this.headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      unlink();
+      if (signal?.aborted) throw new AbortedError(`Request to ${url} was aborted`, signal.reason);
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeoutMs}ms waiting for the first byte`, timeoutMs, 'firstByte');
+      }
+      throw new ConnectionError(`Failed to connect to ${url}`, error instanceof Error ? error : undefined);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.ok) {
+      if (!signal || !response.body) {
+        unlink();
+        return response;
+      }
+      return tapBody(response, { onEnd: unlink });
+    }
+    const errorBody: unknown = await response.json().catch(() => ({ error: response.statusText })).finally(unlink);
+    throw createErrorFromResponse(response.status, errorBody, parseRetryAfter(response.headers.get('retry-after')));
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * `@aiden-ai/sdk/widget` — browser bundle for embeddable chat widgets (no API key, no Node.js APIs).
+ */
+
+export { AidenWidgetClient } from './client';
+export type { AidenWidgetClientConfig, WidgetRequestOptions, WidgetMessageInput } from './client';
+export { memoryStorage } from './storage';
+export type { WidgetSessionStorage, StoredWidgetSession } from './storage';
+export { AidenStream } from '../stream/aiden-stream';
+export {
+  AidenError,
+  ValidationError,
+  NotFoundError,
+  RateLimitError,
+  ConnectionError,
+  TimeoutError,
+  AbortedError,
+} from '../core/errors';
+export type { StreamEvent, WidgetSession, WidgetMessageReply } from '../core/types';
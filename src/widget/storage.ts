@@ -0,0 +1,38 @@
+/**
+ * Where `AidenWidgetClient` keeps the widget session between page loads.
+ */
+
+/** `localStorage`, `sessionStorage` or anything with the same three methods (may be async). */
+export interface WidgetSessionStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/** Storage that lives as long as the page: the default when none is passed. */
+export function memoryStorage(): WidgetSessionStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+/** What is persisted under the storage key. */
+export interface StoredWidgetSession {
+  sessionId: string;
+  /** ISO timestamp after which the server no longer accepts the session. */
+  expiresAt?: string;
+}
+
+export function parseStoredSession(value: string | null): StoredWidgetSession | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value) as Partial<StoredWidgetSession>;
+    return typeof parsed.sessionId === 'string' ? { sessionId: parsed.sessionId, expiresAt: parsed.expiresAt } : undefined;
+  } catch {
+    // A bare session id written by an older integration.
+    return { sessionId: value };
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AidenClient } from '../src/client';
+import { AuthenticationError } from '../src/core/errors';
+import { cachedAuth } from '../src/core/auth';
+import { createFakeAidenServer } from '../src/testing';
+
+describe('Auth providers', () => {
+  it('asks the provider for a token on every request', async () => {
+    const server = createFakeAidenServer({ apiKey: 'tok-1' });
+    const getToken = vi.fn(async () => 'tok-1');
+    const client = new AidenClient({ baseUrl: 'https://aiden.test', fetch: server, auth: getToken });
+
+    await client.notebooks.list();
+    await client.notebooks.list({ search: 'x' });
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(server.requests.map((r) => r.headers.authorization)).toEqual(['Bearer tok-1', 'Bearer tok-1']);
+  });
+
+  it('refreshes once on 401 and replays the request', async () => {
+    const server = createFakeAidenServer({ apiKey: 'fresh' });
+    let token = 'stale';
+    const refresh = vi.fn(async () => (token = 'fresh'));
+    const attempts: number[] = [];
+    const client = new AidenClient({
+      baseUrl: 'https://aiden.test',
+      fetch: server,
+      auth: { getToken: () => token, refresh },
+      middleware: [{ onRequest: (ctx) => void attempts.push(ctx.attempt) }],
+    });
+
+    await expect(client.notebooks.create({ name: 'A' })).resolves.toMatchObject({ data: { name: 'A' } });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    // The replay is not a retry.
+    expect(attempts).toEqual([0, 0]);
+    expect(server.requests.map((r) => r.headers.authorization)).toEqual(['Bearer stale', 'Bearer fresh']);
+  });
+
+  it('shares one refresh between concurrent 401s', async () => {
+    const server = createFakeAidenServer({ apiKey: 'fresh' });
+    let token = 'stale';
+    const refresh = vi.fn(async () => {
+      await new Promise((r) => setTimeout(r, 10));
+      return (token = 'fresh');
+    });
+    const client = new AidenClient({ baseUrl: 'https://aiden.test', fetch: server, auth: { getToken: () => token, refresh } });
+
+    const results = await Promise.all([
+      client.notebooks.list(),
+      client.skills.list(),
+      client.flows.listFlows(),
+      client.notebooks.create({ name: 'B' }),
+    ]);
+    expect(results).toHaveLength(4);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after one refresh', async () => {
+    const server = createFakeAidenServer({ apiKey: 'never' });
+    const refresh = vi.fn(() => 'still-wrong');
+    const client = new AidenClient({ baseUrl: 'https://aiden.test', fetch: server, auth: { getToken: () => 'wrong', refresh } });
+
+    await expect(client.notebooks.list()).rejects.toBeInstanceOf(AuthenticationError);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('keeps static API keys working unchanged', async () => {
+    const server = createFakeAidenServer({ apiKey: 'static' });
+    const client = new AidenClient({ apiKey: 'static', baseUrl: 'https://aiden.test', fetch: server });
+    await client.notebooks.list();
+    expect(server.requests[0]!.headers.authorization).toBe('Bearer static');
+    expect(() => new AidenClient({ baseUrl: 'https://aiden.test' })).toThrow(/apiKey/);
+  });
+});
+
+describe('cachedAuth', () => {
+  it('reuses tokens until they expire and refetches on refresh', async () => {
+    let n = 0;
+    const fetchToken = vi.fn(async () => ({ token: `t${++n}`, expiresAt: Date.now() + 60_000 }));
+    const auth = cachedAuth(fetchToken);
+
+    expect(await Promise.all([auth.getToken(), auth.getToken()])).toEqual(['t1', 't1']);
+    expect(await auth.getToken()).toBe('t1');
+    expect(await auth.refresh!()).toBe('t2');
+    expect(await auth.getToken()).toBe('t2');
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+
+    const short = cachedAuth(async () => `s${++n}`, { ttlMs: 0 });
+    expect(await short.getToken()).not.toBe(await short.getToken());
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AidenClient } from '../src/client';
+import { MemoryCacheStore, ResponseCache } from '../src/core/cache';
+import type { AidenClientConfig } from '../src/core/types';
+
+function envelope(data: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ data, meta: { requestId: 'req_1', timestamp: '' } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function setup(cache: AidenClientConfig['cache'] = true, responder = () => envelope([{ id: 'm1' }])) {
+  const fetchFn = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(async () => responder());
+  const client = new AidenClient({ apiKey: 'key-a', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, cache });
+  return { client, fetchFn };
+}
+
+describe('ResponseCache', () => {
+  it('serves default read-mostly routes from cache within the TTL', async () => {
+    const { client, fetchFn } = setup();
+
+    const first = await client.models.list();
+    const second = await client.models.list();
+    expect(second).toEqual(first);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    await client.notebooks.list();
+    await client.notebooks.list();
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('keys entries by API key and X-User-ID', async () => {
+    const cache = new ResponseCache();
+    const { client, fetchFn } = setup(cache);
+    const other = new AidenClient({ apiKey: 'key-b', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, cache });
+
+    await client.slides.themes();
+    await client.slides.themes({ userId: 'u1' });
+    await other.slides.themes();
+    await client.slides.themes({ userId: 'u1' });
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+
+    const keys = [...(cache.store as MemoryCacheStore)['entries'].keys()];
+    expect(keys.join()).not.toContain('key-a');
+  });
+
+  it('revalidates expired entries with ETag and Last-Modified', async () => {
+    let calls = 0;
+    const { client, fetchFn } = setup({ routes: { '/api/v1/models': 1 } }, () =>
+      ++calls === 1
+        ? envelope([{ id: 'm1' }], { ETag: '"v1"', 'Last-Modified': 'Mon, 19 Oct 2026 10:00:00 GMT' })
+        : new Response(null, { status: 304 }),
+    );
+
+    const first = await client.models.list();
+    await new Promise((r) => setTimeout(r, 5));
+    const second = await client.models.list();
+
+    expect(second.data).toEqual(first.data);
+    const headers = fetchFn.mock.calls[1]![1]!.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"v1"');
+    expect(headers['If-Modified-Since']).toBe('Mon, 19 Oct 2026 10:00:00 GMT');
+  });
+
+  it('uses per-route TTLs and pluggable stores', async () => {
+    const entries = new Map();
+    const store = {
+      get: async (key: string) => entries.get(key),
+      set: async (key: string, entry: unknown) => void entries.set(key, entry),
+      delete: async (key: string) => void entries.delete(key),
+      clear: async () => entries.clear(),
+    };
+    const { client, fetchFn } = setup({ store, routes: { '/api/v1/models': 0, '/api/v1/notebooks': 60_000 } });
+
+    await client.models.list();
+    await client.models.list();
+    await client.notebooks.list();
+    await client.notebooks.list();
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    expect(entries.size).toBe(1);
+
+    await client.cache!.clear();
+    await client.notebooks.list();
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not store responses marked no-store', async () => {
+    const { client, fetchFn } = setup(true, () => envelope([], { 'Cache-Control': 'no-store' }));
+    await client.models.list();
+    await client.models.list();
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AidenClient } from '../src/client';
+import { createCassette, createFakeAidenServer, CassetteMismatchError } from '../src/testing';
+import type { Cassette } from '../src/testing';
+
+function client(cassette: Cassette) {
+  return new AidenClient({ apiKey: 'secret-key', baseUrl: 'https://aiden.test', fetch: cassette.fetch, maxRetries: 0 });
+}
+
+describe('createCassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'aiden-cassette-'));
+    path = join(dir, 'nested', 'session.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function recordSession(): Promise<void> {
+    const server = createFakeAidenServer({ streamDelayMs: 25 });
+    const cassette = await createCassette({ path, fetch: server, redactBodyFields: ['context'] });
+    expect(cassette.mode).toBe('record');
+
+    const aiden = client(cassette);
+    await aiden.notebooks.create({ name: 'Recorded' });
+    const stream = await aiden.knowledge.think({ message: 'one two three', context: 'internal notes' });
+    await stream.text();
+    await cassette.save();
+  }
+
+  it('records to disk with Authorization and configured body fields redacted', async () => {
+    await recordSession();
+
+    const file = await readFile(path, 'utf8');
+    expect(file).not.toContain('secret-key');
+    expect(file).not.toContain('internal notes');
+
+    const { interactions } = JSON.parse(file);
+    expect(interactions).toHaveLength(2);
+    expect(interactions[0].request.headers.authorization).toBe('[REDACTED]');
+    expect(interactions[1].request.body.context).toBe('[REDACTED]');
+    expect(interactions[1].response.chunks.length).toBeGreaterThan(1);
+  });
+
+  it('redacts configured fields in recorded stream events', async () => {
+    const cassette = await createCassette({ path, fetch: createFakeAidenServer(), redactBodyFields: ['sessionId'] });
+    const stream = await client(cassette).knowledge.think({ message: 'one two three' });
+    const events = [];
+    for await (const event of stream) events.push(event);
+    await cassette.save();
+
+    expect(events[0]!.data).toEqual({ sessionId: 'sess_1' });
+    const file = await readFile(path, 'utf8');
+    expect(file).not.toContain('sess_1');
+    expect(file).toContain('[REDACTED]');
+  });
+
+  it('records responses that must not have a body', async () => {
+    const notModified = async () => new Response(null, { status: 304, headers: { ETag: '"v1"' } });
+    const cassette = await createCassette({ path, fetch: notModified as typeof fetch });
+
+    const response = await cassette.fetch('https://aiden.test/api/v1/models', { headers: { 'If-None-Match': '"v1"' } });
+    expect(response.status).toBe(304);
+    expect(cassette.interactions[0]!.response.status).toBe(304);
+  });
+
+  it('replays without network and keeps stream chunk timing', async () => {
+    await recordSession();
+    // Redacted fields are compared redacted, so replay needs the same redaction options
+    const cassette = await createCassette({ path, mode: 'replay', redactBodyFields: ['context'] });
+    expect(cassette.mode).toBe('replay');
+    const aiden = client(cassette);
+
+    const { data: notebook } = await aiden.notebooks.create({ name: 'Recorded' });
+    expect(notebook._id).toBe('nb_1');
+
+    const started = Date.now();
+    const stream = await aiden.knowledge.think({ message: 'one two three', context: 'other notes' });
+    const arrivals: number[] = [];
+    for await (const event of stream) {
+      if (event.type === 'delta') arrivals.push(Date.now() - started);
+    }
+    expect(arrivals.length).toBeGreaterThan(2);
+    expect(arrivals.at(-1)! - arrivals[0]!).toBeGreaterThanOrEqual(25 * (arrivals.length - 2));
+  });
+
+  it('matches strictly by default and by path when asked', async () => {
+    await recordSession();
+
+    const strict = client(await createCassette({ path, mode: 'replay', timingScale: 0 }));
+    await expect(strict.notebooks.create({ name: 'Different' })).rejects.toBeInstanceOf(CassetteMismatchError);
+
+    const byPath = client(await createCassette({ path, mode: 'replay', match: 'path', timingScale: 0 }));
+    await expect(byPath.notebooks.create({ name: 'Different' })).resolves.toMatchObject({ data: { name: 'Recorded' } });
+    await expect(byPath.notebooks.create({ name: 'Again' })).rejects.toBeInstanceOf(CassetteMismatchError);
+
+    const custom = client(
+      await createCassette({ path, mode: 'replay', timingScale: 0, match: (req, rec) => req.method === rec.method }),
+    );
+    await expect(custom.notebooks.create({ name: 'Any' })).resolves.toBeDefined();
+  });
+});
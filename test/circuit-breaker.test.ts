@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../src/core/circuit-breaker';
+import { HttpClient } from '../src/core/http-client';
+import { AbortedError, CircuitOpenError, NotFoundError, ServiceUnavailableError, TimeoutError } from '../src/core/errors';
+import { routeGroup } from '../src/core/routes';
+import { statusResponse } from './helpers';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('routeGroup', () => {
+  it('groups paths by route prefix', () => {
+    expect(routeGroup('/api/v1/knowledge/notebooks/n1/rag/ask')).toBe('/api/v1/knowledge');
+    expect(routeGroup('/v1/chat/completions')).toBe('/v1/chat/completions');
+    expect(routeGroup('/v1/models/openai/gpt-4o')).toBe('/v1/models');
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const down = () => new ServiceUnavailableError('down', 'r');
+
+  it('opens after the failure threshold and rejects until the reset timeout', () => {
+    vi.useFakeTimers();
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 1_000,
+      onStateChange: (c) => changes.push(`${c.route}:${c.from}->${c.to}`),
+    });
+    const route = '/api/v1/knowledge';
+
+    for (let i = 0; i < 2; i++) {
+      expect(breaker.acquire(route)).toBeUndefined();
+      breaker.record(route, down());
+    }
+    expect(breaker.state(route)).toBe('open');
+    expect(breaker.acquire(route)).toBeInstanceOf(CircuitOpenError);
+    expect(breaker.acquire('/api/v1/skills')).toBeUndefined();
+
+    vi.advanceTimersByTime(1_000);
+    expect(breaker.acquire(route)).toBeUndefined();
+    expect(breaker.state(route)).toBe('half-open');
+    expect(breaker.acquire(route)).toBeInstanceOf(CircuitOpenError);
+
+    breaker.record(route);
+    expect(breaker.state(route)).toBe('closed');
+    expect(changes).toEqual([`${route}:closed->open`, `${route}:open->half-open`, `${route}:half-open->closed`]);
+  });
+
+  it('reopens when the half-open probe fails and ignores non-outage errors', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10 });
+    const route = '/v1/chat/completions';
+
+    breaker.acquire(route);
+    breaker.record(route, new NotFoundError('x', 'NOT_FOUND', 'r'));
+    expect(breaker.state(route)).toBe('closed');
+
+    breaker.acquire(route);
+    breaker.record(route, down());
+    vi.advanceTimersByTime(10);
+    breaker.acquire(route);
+    breaker.record(route, down());
+    expect(breaker.state(route)).toBe('open');
+  });
+
+  it('keeps its state when a probe is aborted or times out on the client', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 10 });
+    const route = '/api/v1/knowledge';
+
+    breaker.record(route, down());
+    breaker.record(route, new TimeoutError('slow', 100, 'firstByte'));
+    breaker.record(route, down());
+    expect(breaker.state(route)).toBe('open');
+
+    vi.advanceTimersByTime(10);
+    for (const error of [new AbortedError('stop'), new TimeoutError('slow', 100, 'firstByte')]) {
+      expect(breaker.acquire(route)).toBeUndefined();
+      breaker.record(route, error);
+      expect(breaker.state(route)).toBe('half-open');
+    }
+  });
+
+  it('makes HttpClient fail fast without calling fetch', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(statusResponse(503));
+    const http = new HttpClient({
+      apiKey: 'k',
+      baseUrl: 'https://api.test.com',
+      maxRetries: 0,
+      circuitBreaker: { failureThreshold: 2 },
+      fetch: fetchFn as typeof fetch,
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(http.request({ method: 'GET', path: '/api/v1/notebooks' })).rejects.toBeInstanceOf(
+        ServiceUnavailableError,
+      );
+    }
+    await expect(http.request({ method: 'GET', path: '/api/v1/notebooks/n1' })).rejects.toMatchObject({
+      name: 'CircuitOpenError',
+      route: '/api/v1/notebooks',
+    });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(http.circuitBreaker?.snapshot()['/api/v1/notebooks']?.state).toBe('open');
+  });
+
+  it('frees the probe slot when response middleware throws', async () => {
+    vi.useFakeTimers();
+    const fetchFn = vi.fn().mockResolvedValueOnce(statusResponse(503)).mockResolvedValue(statusResponse(200));
+    let broken = true;
+    const http = new HttpClient({
+      apiKey: 'k',
+      baseUrl: 'https://api.test.com',
+      maxRetries: 0,
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 10 },
+      middleware: [
+        {
+          onResponse: (_ctx, response) => {
+            if (response.ok && broken) throw new Error('middleware bug');
+          },
+        },
+      ],
+      fetch: fetchFn as typeof fetch,
+    });
+    const route = '/api/v1/notebooks';
+
+    await expect(http.request({ method: 'GET', path: route })).rejects.toBeInstanceOf(ServiceUnavailableError);
+    vi.advanceTimersByTime(10);
+    await expect(http.request({ method: 'GET', path: route })).rejects.toThrow('middleware bug');
+    broken = false;
+    await expect(http.request({ method: 'GET', path: route })).resolves.toBeDefined();
+    expect(http.circuitBreaker?.state(route)).toBe('closed');
+  });
+});
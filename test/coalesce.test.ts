@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AidenClient } from '../src/client';
+import { AidenError } from '../src/core/errors';
+import { DefaultRetryPolicy } from '../src/core/retry';
+
+function setup(coalesceGets?: boolean, delayMs = 20) {
+  const fetchFn = vi.fn(
+    (url: string, init?: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(
+          () =>
+            resolve(
+              new Response(JSON.stringify({ data: { url, n: fetchFn.mock.calls.length }, meta: { requestId: 'r1', timestamp: '' } }), {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+              }),
+            ),
+          delayMs,
+        );
+        init?.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('aborted', 'AbortError'));
+        });
+      }),
+  );
+  const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, coalesceGets, maxRetries: 0 });
+  return { client, fetchFn };
+}
+
+describe('GET coalescing', () => {
+  it('shares one fetch between identical concurrent GETs and returns independent copies', async () => {
+    const { client, fetchFn } = setup();
+    const [a, b, c] = await Promise.all([client.notebooks.get('nb1'), client.notebooks.get('nb1'), client.models.list()]);
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(a).toEqual(b);
+    expect(a).not.toBe(b);
+    (a.data as { url: string }).url = 'changed';
+    expect((b.data as { url: string }).url).toBe('https://aiden.test/api/v1/notebooks/nb1');
+    expect(c.data).toBeDefined();
+
+    await client.notebooks.get('nb1');
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps different users and headers apart', async () => {
+    const { client, fetchFn } = setup();
+    await Promise.all([
+      client.notebooks.get('nb1', { userId: 'u1' }),
+      client.notebooks.get('nb1', { userId: 'u2' }),
+      client.notebooks.get('nb1', { headers: { 'X-Trace': '1' } }),
+      client.notebooks.get('nb1', { userId: 'u1' }),
+    ]);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('only shares calls made with the same timeouts and retry policy', async () => {
+    const { client, fetchFn } = setup();
+    const policy = new DefaultRetryPolicy({ maxRetries: 0 });
+    await Promise.all([
+      client.notebooks.get('nb1'),
+      client.notebooks.get('nb1', { timeout: 5_000 }),
+      client.notebooks.get('nb1', { totalTimeout: 60_000 }),
+      client.notebooks.get('nb1', { idleTimeout: 1_000 }),
+      client.notebooks.get('nb1', { retryPolicy: policy }),
+      client.notebooks.get('nb1', { retryPolicy: new DefaultRetryPolicy({ maxRetries: 0 }) }),
+      client.notebooks.get('nb1', { retryPolicy: policy, timeout: 5_000 }),
+      client.notebooks.get('nb1', { timeout: 5_000 }),
+    ]);
+    expect(fetchFn).toHaveBeenCalledTimes(7);
+  });
+
+  it('lets one caller abort without affecting the others', async () => {
+    const { client, fetchFn } = setup();
+    const controller = new AbortController();
+    const aborted = client.notebooks.get('nb1', { signal: controller.signal });
+    const other = client.notebooks.get('nb1');
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AidenError);
+    await expect(other).resolves.toMatchObject({ data: { url: 'https://aiden.test/api/v1/notebooks/nb1' } });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the shared fetch once every caller has aborted', async () => {
+    const { client, fetchFn } = setup();
+    const controllers = [new AbortController(), new AbortController()];
+    const calls = controllers.map((c) => client.notebooks.get('nb1', { signal: c.signal }));
+    controllers.forEach((c) => c.abort());
+
+    await Promise.allSettled(calls);
+    const sharedSignal = fetchFn.mock.calls[0]![1]!.signal!;
+    expect(sharedSignal.aborted).toBe(true);
+  });
+
+  it('can be turned off per request or per client', async () => {
+    const perRequest = setup();
+    await Promise.all([perRequest.client.notebooks.get('nb1'), perRequest.client.notebooks.get('nb1', { coalesce: false })]);
+    expect(perRequest.fetchFn).toHaveBeenCalledTimes(2);
+
+    const off = setup(false);
+    await Promise.all([off.client.notebooks.get('nb1'), off.client.notebooks.get('nb1')]);
+    expect(off.fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('never shares POSTs', async () => {
+    const { client, fetchFn } = setup();
+    await Promise.all([client.notebooks.create({ name: 'a' }), client.notebooks.create({ name: 'a' })]);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
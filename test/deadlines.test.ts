@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { AidenClient } from '../src/client';
+import { AbortedError, TimeoutError } from '../src/core/errors';
+import type { OpenAIChatStream } from '../src/stream/openai-stream';
+
+type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** Never answers; rejects like fetch once its signal aborts. */
+const hanging: FetchFn = (_url, init) =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  });
+
+/** Streams `chunks`, then stalls until the request is aborted. */
+function stallingStream(chunks: string[]): FetchFn {
+  return async (_url, init) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        init?.signal?.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+      },
+    });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  };
+}
+
+function client(fetchFn: FetchFn, config: { totalTimeout?: number; idleTimeout?: number; maxRetries?: number } = {}) {
+  return new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, ...config });
+}
+
+const delta = `data: ${JSON.stringify({ type: 'delta', data: { content: 'hi' }, timestamp: 1 })}\n\n`;
+
+describe('Deadlines', () => {
+  it('keeps the first-byte timeout when a signal is passed', async () => {
+    const aiden = client(hanging, { maxRetries: 0 });
+    const error = await aiden.notebooks.list({}, { signal: new AbortController().signal, timeout: 20 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ deadline: 'firstByte', timeoutMs: 20 });
+  });
+
+  it('reports a caller abort as AbortedError, without retrying', async () => {
+    const fetchFn = vi.fn(hanging);
+    const aiden = client(fetchFn);
+    const controller = new AbortController();
+    const pending = aiden.notebooks.create({ name: 'x' }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AbortedError);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('unlinks a reused caller signal once each call is over', async () => {
+    const fetchFn = vi
+      .fn<FetchFn>(async () => new Response('{"data":{},"meta":{}}', { headers: { 'Content-Type': 'application/json' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 503 }));
+    const aiden = client(fetchFn, { maxRetries: 0 });
+    const { signal } = new AbortController();
+
+    await expect(aiden.notebooks.create({ name: 'x' }, { signal })).rejects.toMatchObject({ status: 503 });
+    for (let i = 0; i < 3; i++) await aiden.notebooks.create({ name: 'x' }, { signal });
+    expect(getEventListeners(signal, 'abort')).toHaveLength(0);
+  });
+
+  it('stops retrying at the total deadline', async () => {
+    const fetchFn = vi.fn<FetchFn>(async () => new Response('{}', { status: 503 }));
+    const aiden = client(fetchFn, { totalTimeout: 80, maxRetries: 10 });
+
+    const startedAt = Date.now();
+    const error = await aiden.notebooks.list().catch((e: unknown) => e);
+    expect(error).toMatchObject({ name: 'TimeoutError', deadline: 'total', timeoutMs: 80 });
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+
+  it('discards the unread body of calls that return nothing', async () => {
+    const cancel = vi.fn();
+    const fetchFn = vi.fn<FetchFn>(
+      async () => new Response(new ReadableStream({ pull: () => undefined, cancel }), { status: 200 }),
+    );
+    const aiden = client(fetchFn, { totalTimeout: 60_000 });
+
+    await aiden.notebooks.delete('nb1');
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails a stalled AidenStream with an idle TimeoutError', async () => {
+    const aiden = client(stallingStream([delta]));
+    const stream = await aiden.knowledge.think({ message: 'hi' }, { idleTimeout: 30 });
+
+    const seen: string[] = [];
+    const error = await (async () => {
+      for await (const event of stream) seen.push(event.type);
+    })().catch((e: unknown) => e);
+    expect(seen).toEqual(['delta']);
+    expect(error).toMatchObject({ name: 'TimeoutError', deadline: 'idle', timeoutMs: 30 });
+  });
+
+  it('bounds an OpenAI stream by the total deadline', async () => {
+    const chunk = `data: ${JSON.stringify({ id: 'c', object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content: 'a' } }] })}\n\n`;
+    const aiden = client(stallingStream([chunk]), { totalTimeout: 40 });
+    const stream = (await aiden.openai.chatCompletions({ model: 'm', messages: [], stream: true })) as OpenAIChatStream;
+
+    const error = await (async () => {
+      for await (const part of stream) void part;
+    })().catch((e: unknown) => e);
+    expect(error).toMatchObject({ name: 'TimeoutError', deadline: 'total' });
+  });
+
+  it('ends the total deadline when a stream reader stops early', async () => {
+    vi.useFakeTimers();
+    try {
+      const chunk = `data: ${JSON.stringify({ id: 'c', object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content: 'a' } }] })}\n\n`;
+      const openai = client(stallingStream([chunk, 'data: [DONE]\n\n']), { totalTimeout: 1_000 });
+      const completion = (await openai.openai.chatCompletions({ model: 'm', messages: [], stream: true })) as OpenAIChatStream;
+      for await (const part of completion) void part;
+      expect(vi.getTimerCount()).toBe(0);
+
+      const aiden = client(stallingStream([delta, delta]), { totalTimeout: 1_000 });
+      const stream = await aiden.knowledge.think({ message: 'hi' });
+      for await (const event of stream) if (event.type === 'delta') break;
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { checkDrift, createSnapshot, SDK_ROUTES } from '../src/drift';
+import type { OpenApiDocument, SdkRoute } from '../src/drift';
+import { AidenClient } from '../src/client';
+
+const routes: SdkRoute[] = [
+  { method: 'POST', path: '/api/v1/skills/:id/run', operation: 'skills.run' },
+  { method: 'GET', path: '/api/v1/skills', operation: 'skills.list' },
+  { method: 'DELETE', path: '/api/v1/skills/:id', operation: 'skills.delete' },
+  { method: 'GET', path: '/api/v1/flows/runs', operation: 'flows.listRuns' },
+];
+
+function spec(statusType = 'string'): OpenApiDocument {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Aiden External API', version: '2.1.0' },
+    servers: [{ url: 'https://ext-api.example.com/api/v1' }],
+    paths: {
+      '/skills/{skillId}/run': {
+        post: {
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/RunSkill' } } } },
+          responses: {
+            '200': {
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['data'],
+                    properties: { data: { $ref: '#/components/schemas/SkillExecution' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/skills': { get: { operationId: 'listSkills' } },
+      '/skills/{id}': { get: { operationId: 'getSkill' } },
+      '/health': { get: {} },
+    },
+    components: {
+      schemas: {
+        RunSkill: { type: 'object', properties: { inputs: { type: 'object' } } },
+        SkillExecution: {
+          type: 'object',
+          required: ['_id', 'status'],
+          properties: { _id: { type: 'string' }, status: { type: statusType } },
+        },
+      },
+    },
+  };
+}
+
+describe('checkDrift', () => {
+  it('reports uncovered operations and SDK routes missing from the document', () => {
+    const report = checkDrift(spec(), { routes, ignorePaths: ['/api/v1/health'] });
+
+    expect(report.ok).toBe(false);
+    expect(report.uncovered).toEqual([{ method: 'GET', path: '/api/v1/skills/{id}', operationId: 'getSkill' }]);
+    expect(report.missing).toEqual([
+      { method: 'DELETE', path: '/api/v1/skills/:id', operation: 'skills.delete', reason: 'method' },
+      { method: 'GET', path: '/api/v1/flows/runs', operation: 'flows.listRuns', reason: 'path' },
+    ]);
+    expect(report.summary).toMatchObject({ sdkRoutes: 4, specOperations: 4, uncovered: 1, missing: 2, changed: 0 });
+  });
+
+  it('reports schema changes against a baseline', () => {
+    const baseline = createSnapshot(spec(), routes);
+    expect(baseline.operations['POST /api/v1/skills/{id}/run']?.response).toMatchObject({
+      data: 'object!',
+      'data.status': 'string!',
+    });
+
+    const report = checkDrift(spec('integer'), { routes, baseline, failOn: ['changed'] });
+
+    expect(report.ok).toBe(false);
+    expect(report.changed).toEqual([
+      {
+        method: 'POST',
+        path: '/api/v1/skills/:id/run',
+        operation: 'skills.run',
+        part: 'response',
+        added: [],
+        removed: [],
+        modified: ['data.status: string! -> integer!'],
+      },
+    ]);
+    expect(checkDrift(spec(), { routes, baseline, failOn: ['changed'] }).ok).toBe(true);
+  });
+});
+
+const CALLERS = [
+  ...readdirSync(new URL('../src/domains', import.meta.url)).map((file) => `../src/domains/${file}`),
+  '../src/openai/client.ts',
+  '../src/client.ts',
+];
+
+/**
+ * `METHOD /path` of every `this.http.request*` call in the client sources, with `${…}` parameters as
+ * `{}`. Paths may be literals, module constants (`P`, `V1`, …) or a `const path` declared just above.
+ */
+function callSites(): { calls: number; routes: string[] } {
+  let calls = 0;
+  const routes: string[] = [];
+  for (const file of CALLERS) {
+    const source = readFileSync(new URL(file, import.meta.url), 'utf8');
+    const constants = new Map([...source.matchAll(/^const (\w+) = '([^']*)';/gm)].map((m) => [m[1]!, m[2]!]));
+    calls += source.match(/this\.http\.request\w*[(<]/g)?.length ?? 0;
+
+    const call = /this\.http\.request\w*(?:<[^>]*>)?\(\{\s*method: '(\w+)',\s*path(?:: (`[^`]*`|'[^']*'|\w+))?,/g;
+    for (const match of source.matchAll(call)) {
+      const [, method, value] = match;
+      const expr = value ?? [...source.slice(0, match.index).matchAll(/const path = (`[^`]*`);/g)].at(-1)?.[1];
+      const literal = expr && /^\w+$/.test(expr) ? `'${constants.get(expr)}'` : (expr ?? "''");
+      const path = literal
+        .slice(1, -1)
+        .replace(/\$\{(\w+)\}/g, (whole, name: string) => constants.get(name) ?? whole)
+        .replace(/\$\{[^}]*\}/g, '{}');
+      routes.push(`${method} ${path}`);
+    }
+  }
+  return { calls, routes };
+}
+
+describe('SDK_ROUTES', () => {
+  it('names existing client methods', () => {
+    const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://api.test.com' });
+    for (const route of SDK_ROUTES) {
+      const target = route.operation.split('.').reduce<unknown>((obj, key) => (obj as Record<string, unknown>)?.[key], client);
+      expect(typeof target, route.operation).toBe('function');
+    }
+  });
+
+  it('lists exactly the routes the client calls', () => {
+    const { calls, routes: called } = callSites();
+    const listed = SDK_ROUTES.map((route) => `${route.method} ${route.path.replace(/:\w+/g, '{}')}`);
+
+    // A call this test cannot read (e.g. a computed path) must be handled here, not skipped.
+    expect(called).toHaveLength(calls);
+    expect(called.filter((route) => !listed.includes(route))).toEqual([]);
+    expect(listed.filter((route) => !called.includes(route))).toEqual([]);
+  });
+});
@@ -4,8 +4,15 @@ import {
   ValidationError,
   AuthenticationError,
   RateLimitError,
+  TimeoutError,
+  ConnectionError,
+  CircuitOpenError,
+  NotFoundError,
   createErrorFromResponse,
+  isRetryable,
+  isClientError,
 } from '../src/core/errors';
+import type { AidenErrorJSON, AidenErrorKind, KnownAidenError } from '../src/core/errors';
 
 describe('Error classes', () => {
   it('AidenError', () => {
@@ -43,3 +50,129 @@ describe('createErrorFromResponse', () => {
     expect(err.message).toBe('Invalid');
   });
 });
+
+describe('Error payload shapes', () => {
+  it('derives the code from the status when the body has none', () => {
+    expect(createErrorFromResponse(404, { error: 'Notebook not found' })).toMatchObject({ code: 'NOT_FOUND', message: 'Notebook not found' });
+    expect(createErrorFromResponse(503, undefined)).toMatchObject({ code: 'SERVICE_UNAVAILABLE', kind: 'service_unavailable' });
+    expect(createErrorFromResponse(418, { title: 'Teapot', detail: 'Short and stout' })).toMatchObject({
+      code: 'API_ERROR',
+      message: 'Short and stout',
+      status: 418,
+    });
+  });
+
+  it('normalizes field errors into a map keyed by field path', () => {
+    const envelope = createErrorFromResponse(400, {
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid', details: [{ field: 'name', message: 'required' }] },
+    }) as ValidationError;
+    expect(envelope.fieldErrors).toEqual({ name: ['required'] });
+
+    const fastApi = createErrorFromResponse(400, {
+      detail: [
+        { loc: ['inputs', 'items', 0, 'url'], msg: 'invalid url' },
+        { loc: ['inputs', 'items', 0, 'url'], msg: 'too long' },
+      ],
+    }) as ValidationError;
+    expect(fastApi.message).toBe('invalid url');
+    expect(fastApi.fieldErrors).toEqual({ 'inputs.items[0].url': ['invalid url', 'too long'] });
+
+    const map = createErrorFromResponse(400, { error: { code: 'V', message: 'x', details: { fieldErrors: { email: ['taken'] } } } });
+    expect((map as ValidationError).fieldErrors).toEqual({ email: ['taken'] });
+
+    const openai = createErrorFromResponse(400, { error: { message: 'bad model', type: 'invalid_request_error', param: 'model' } });
+    expect((openai as ValidationError).fieldErrors).toEqual({ model: ['bad model'] });
+  });
+});
+
+describe('Error catalogue', () => {
+  it('discriminates error classes by kind', () => {
+    const summarize = (error: KnownAidenError): string => {
+      switch (error.kind) {
+        case 'rate_limit':
+          return `wait ${error.retryAfter}`;
+        case 'timeout':
+          return `slow ${error.deadline}`;
+        default:
+          return error.kind;
+      }
+    };
+    expect(summarize(new RateLimitError('x', 'r', 5000))).toBe('wait 5000');
+    expect(summarize(new TimeoutError('x', 10, 'idle'))).toBe('slow idle');
+    expect(summarize(new NotFoundError('x', 'NOT_FOUND', 'r'))).toBe('not_found');
+  });
+
+  it('classifies retryable and client errors', () => {
+    expect(isRetryable(new RateLimitError('x', 'r', 1))).toBe(true);
+    expect(isRetryable(createErrorFromResponse(502, {}))).toBe(true);
+    expect(isRetryable(new ConnectionError('down'))).toBe(true);
+    expect(isRetryable(new CircuitOpenError('/api/v1/skills', 100))).toBe(true);
+    expect(isRetryable(createErrorFromResponse(400, {}))).toBe(false);
+    expect(isRetryable(new Error('plain'))).toBe(false);
+
+    expect(isClientError(createErrorFromResponse(422, {}))).toBe(true);
+    expect(isClientError(new RateLimitError('x', 'r', 1))).toBe(false);
+    expect(isClientError(createErrorFromResponse(500, {}))).toBe(false);
+  });
+
+  it('round-trips through JSON', () => {
+    const meta = { requestId: 'req-9', timestamp: '2026-01-01T00:00:00Z' };
+    const errors: AidenError[] = [
+      createErrorFromResponse(400, { error: { code: 'VALIDATION_ERROR', message: 'Invalid', details: [{ field: 'name', message: 'required' }] }, meta }),
+      createErrorFromResponse(429, { error: { code: 'RATE_LIMITED', message: 'slow down' }, meta }, 3_000),
+      new TimeoutError('late', 50, 'total'),
+      new CircuitOpenError('/api/v1/knowledge', 1_000),
+      new AidenError('teapot', 'TEAPOT', 418, 'req-1', meta, { extra: true }),
+    ];
+
+    for (const error of errors) {
+      const copy = AidenError.fromJSON(JSON.parse(JSON.stringify(error)));
+      expect(copy).toBeInstanceOf(error.constructor);
+      expect(copy.toJSON()).toEqual(error.toJSON());
+    }
+    const validation = AidenError.fromJSON(JSON.parse(JSON.stringify(errors[0]))) as ValidationError;
+    expect(validation.fieldErrors).toEqual({ name: ['required'] });
+    expect(validation.requestId).toBe('req-9');
+    expect((AidenError.fromJSON(errors[1]!.toJSON()) as RateLimitError).retryAfter).toBe(3_000);
+  });
+
+  it('keeps the request id, meta and details of every kind', () => {
+    const meta = { requestId: 'req-7', timestamp: '2026-01-01T00:00:00Z' };
+    const kinds: [AidenErrorKind, number, Record<string, unknown>][] = [
+      ['api', 418, {}],
+      ['validation', 400, {}],
+      ['authentication', 401, {}],
+      ['forbidden', 403, {}],
+      ['not_found', 404, {}],
+      ['conflict', 409, {}],
+      ['unprocessable_entity', 422, {}],
+      ['rate_limit', 429, {}],
+      ['internal', 500, {}],
+      ['bad_gateway', 502, {}],
+      ['service_unavailable', 503, {}],
+      ['gateway_timeout', 504, {}],
+      ['connection', 0, {}],
+      ['timeout', 0, { timeoutMs: 50, deadline: 'idle' }],
+      ['aborted', 0, {}],
+      ['circuit_open', 503, { route: '/api/v1/skills', retryAfter: 100 }],
+      ['schema_mismatch', 200, { path: '/api/v1/skills', field: 'data', expected: 'array', received: 'object' }],
+      ['version_mismatch', 0, { contractVersion: '2.0.0', range: { min: '1.0.0', below: '2.0.0' } }],
+    ];
+
+    for (const [kind, status, details] of kinds) {
+      const json: AidenErrorJSON = {
+        name: 'SomeError',
+        kind,
+        code: 'SOME_CODE',
+        message: `${kind} failed`,
+        status,
+        requestId: 'req-7',
+        meta,
+        details: { ...details, extra: true },
+      };
+      const copy = AidenError.fromJSON(json);
+      expect(copy.kind).toBe(kind);
+      expect(copy.toJSON()).toMatchObject(json);
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { AidenClient } from '../src/client';
+import { DefaultRetryPolicy } from '../src/core/retry';
+import { AuthenticationError, NotFoundError, ServiceUnavailableError, TimeoutError, ValidationError } from '../src/core/errors';
+import { createFakeAidenServer } from '../src/testing';
+import type { FakeAidenServerOptions } from '../src/testing';
+import type { OpenAIChatStream } from '../src/stream/openai-stream';
+
+function setup(options: FakeAidenServerOptions = {}) {
+  const server = createFakeAidenServer(options);
+  const client = new AidenClient({
+    apiKey: 'test-key',
+    baseUrl: 'https://aiden.test',
+    fetch: server,
+    retryPolicy: new DefaultRetryPolicy({ maxRetries: 2, baseDelayMs: 1, jitterMs: 0 }),
+  });
+  return { server, client };
+}
+
+describe('createFakeAidenServer', () => {
+  it('keeps notebooks and knowledge assets in state', async () => {
+    const { server, client } = setup();
+
+    const { data: notebook } = await client.notebooks.create({ name: 'Manuals' });
+    await client.notebooks.createKnowledgeAsset(notebook._id, { name: 'guide.pdf', type: 'document' });
+    const assets = await client.notebooks.listKnowledgeAssets(notebook._id);
+
+    expect(assets.data).toHaveLength(1);
+    expect(assets.meta.pagination).toMatchObject({ total: 1, totalPages: 1 });
+    expect((await client.notebooks.get(notebook._id)).data.knowledgeAssetCount).toBe(1);
+    expect(server.state.assets.size).toBe(1);
+
+    await expect(client.notebooks.create({ name: '' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.notebooks.get('nb_404')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('streams think replies into a chat session', async () => {
+    const { client } = setup({ reply: (m) => `Answer to ${m}` });
+
+    const { data: session } = await client.knowledge.createSession({ title: 'Support' });
+    const stream = await client.knowledge.think({ message: 'reset password', sessionId: session._id });
+    const types: string[] = [];
+    const complete = await stream.subscribe({ onEvent: (e) => types.push(e.type) });
+
+    expect(types[0]).toBe('thinking_start');
+    expect(types.at(-1)).toBe('complete');
+    expect(complete).toMatchObject({ sessionId: session._id, content: 'Answer to reset password' });
+
+    const stored = await client.knowledge.getSession(session._id);
+    expect(stored.data.messages?.map((m) => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('runs skills asynchronously', async () => {
+    const { client } = setup({ executionMs: 20 });
+    const { data: skill } = await client.skills.create({ name: 'Summarize' });
+
+    const { data: started } = await client.skills.run(skill._id, { inputs: { url: 'https://x.test' } });
+    expect(started.status).toBe('running');
+
+    await new Promise((r) => setTimeout(r, 30));
+    const { data: finished } = await client.skills.getExecution(skill._id, started._id);
+    expect(finished).toMatchObject({ status: 'completed', outputs: { echo: { url: 'https://x.test' } } });
+  });
+
+  it('streams flow runs until they finish', async () => {
+    const { client } = setup({ executionMs: 10 });
+    const { data: flow } = await client.flows.createFlow({ name: 'Nightly' });
+    const { data: run } = await client.flows.runFlow(flow._id, {});
+
+    const events = [];
+    for await (const event of await client.flows.streamRun(run._id)) events.push(event);
+
+    expect(events.map((e) => e.type)).toEqual(['execution_start', 'complete']);
+    expect((await client.flows.getRun(run._id)).data.status).toBe('completed');
+  });
+
+  it('serves /v1/chat/completions with and without streaming', async () => {
+    const { client } = setup();
+    const messages = [{ role: 'user' as const, content: 'hello there' }];
+
+    const completion = await client.openai.chatCompletions({ model: 'aiden/default', messages });
+    expect(completion).toMatchObject({ object: 'chat.completion', choices: [{ message: { content: 'You said: hello there' } }] });
+
+    const stream = (await client.openai.chatCompletions({ model: 'aiden/default', messages, stream: true })) as OpenAIChatStream;
+    expect(await stream.text()).toBe('You said: hello there');
+  });
+
+  it('injects 5xx faults that retries recover from', async () => {
+    const { server, client } = setup();
+    server.inject({ path: '/api/v1/notebooks', status: 503, times: 2 });
+
+    await expect(client.notebooks.list()).resolves.toMatchObject({ data: [] });
+    expect(server.requests).toHaveLength(3);
+
+    server.inject({ path: '/api/v1/notebooks', status: 503, times: 3 });
+    await expect(client.notebooks.list()).rejects.toBeInstanceOf(ServiceUnavailableError);
+  });
+
+  it('injects 429 with Retry-After and timeouts', async () => {
+    const { server, client } = setup();
+    server.inject({ method: 'GET', path: /^\/api\/v1\/skills$/, status: 429, retryAfter: 0 });
+    await expect(client.skills.list()).resolves.toBeDefined();
+    expect(server.requests.map((r) => r.path)).toEqual(['/api/v1/skills', '/api/v1/skills']);
+
+    server.inject({ path: '/api/v1/skills', timeout: true });
+    await expect(client.skills.list(undefined, { timeout: 20 })).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('checks the API key when configured', async () => {
+    const { client } = setup({ apiKey: 'other-key' });
+    await expect(client.notebooks.list()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
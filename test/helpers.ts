@@ -0,0 +1,11 @@
+/** Minimal `Response` stand-in with an envelope (or error) JSON body for `status`. */
+export function statusResponse(status: number): Response {
+  return {
+    ok: status < 400,
+    status,
+    statusText: '',
+    headers: new Headers(),
+    json: () => Promise.resolve(status < 400 ? { data: {}, meta: {} } : { error: { code: 'E', message: 'e' } }),
+    body: null,
+  } as unknown as Response;
+}
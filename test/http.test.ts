@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { HttpClient } from '../src/core/http-client';
+import { statusResponse } from './helpers';
 
 function mockFetch(response: {
   ok?: boolean;
@@ -103,3 +104,62 @@ describe('HttpClient', () => {
     expect(fetchFn).toHaveBeenCalledTimes(2);
   });
 });
+
+describe('HttpClient idempotency', () => {
+  const baseConfig = { apiKey: 'test-key', baseUrl: 'https://api.test.com' };
+
+  async function settle<T>(promise: Promise<T>): Promise<PromiseSettledResult<T>> {
+    const settled = Promise.allSettled([promise]);
+    await vi.runAllTimersAsync();
+    return (await settled)[0]!;
+  }
+
+  it('reuses one generated Idempotency-Key across POST retries', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchFn = vi.fn().mockResolvedValueOnce(statusResponse(502)).mockResolvedValueOnce(statusResponse(200));
+      const http = new HttpClient({ ...baseConfig, fetch: fetchFn as typeof fetch });
+
+      const result = await settle(http.request({ method: 'POST', path: '/api/v1/skills/s1/run', body: {} }));
+
+      expect(result.status).toBe('fulfilled');
+      const keys = fetchFn.mock.calls.map(([, init]) => (init!.headers as Record<string, string>)['Idempotency-Key']);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(keys[1]).toBe(keys[0]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('uses the caller key and leaves GET requests alone', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(statusResponse(200));
+    const http = new HttpClient({ ...baseConfig, fetch: fetchFn as typeof fetch });
+
+    await http.request({ method: 'POST', path: '/api/v1/users/invite', body: {}, idempotencyKey: 'invite-42' });
+    await http.request({ method: 'GET', path: '/api/v1/users' });
+
+    expect((fetchFn.mock.calls[0][1]!.headers as Record<string, string>)['Idempotency-Key']).toBe('invite-42');
+    expect((fetchFn.mock.calls[1][1]!.headers as Record<string, string>)['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('only retries unprotected POSTs on failures the server never acted on', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchFn = vi.fn().mockResolvedValue(statusResponse(500));
+      const http = new HttpClient({ ...baseConfig, idempotencyKeys: false, fetch: fetchFn as typeof fetch });
+
+      const failed = await settle(http.request({ method: 'POST', path: '/api/v1/flows/f1/run', body: {} }));
+      expect(failed.status).toBe('rejected');
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect((fetchFn.mock.calls[0][1]!.headers as Record<string, string>)['Idempotency-Key']).toBeUndefined();
+
+      fetchFn.mockReset();
+      fetchFn.mockResolvedValueOnce(statusResponse(503)).mockResolvedValueOnce(statusResponse(200));
+      const retried = await settle(http.request({ method: 'POST', path: '/api/v1/flows/f1/run', body: {} }));
+      expect(retried.status).toBe('fulfilled');
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestLimiter } from '../src/core/limiter';
+import { HttpClient } from '../src/core/http-client';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RequestLimiter', () => {
+  it('caps concurrency and reports queue depth', async () => {
+    const limiter = new RequestLimiter({ maxConcurrency: 1 });
+    const release = await limiter.acquire();
+    const second = limiter.acquire();
+
+    expect(limiter.stats()).toMatchObject({ inFlight: 1, queueDepth: 1 });
+    release();
+    const releaseSecond = await second;
+    expect(limiter.stats()).toMatchObject({ inFlight: 1, queueDepth: 0, acquired: 2 });
+    releaseSecond();
+    expect(limiter.stats().inFlight).toBe(0);
+  });
+
+  it('spaces requests according to the token bucket', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter({ requestsPerSecond: 2, burst: 1 });
+    const granted: number[] = [];
+    const start = Date.now();
+    const all = [0, 1, 2].map((i) => limiter.acquire().then(() => granted.push(i)));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(all);
+    expect(Date.now() - start).toBe(1000);
+  });
+
+  it('holds the queue while paused', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter();
+    limiter.pause(2_000);
+    let granted = false;
+    const pending = limiter.acquire().then(() => (granted = true));
+
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(granted).toBe(false);
+    expect(limiter.stats().queueDepth).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(granted).toBe(true);
+  });
+
+  it('removes an aborted request from the queue', async () => {
+    const limiter = new RequestLimiter({ maxConcurrency: 1 });
+    await limiter.acquire();
+    const controller = new AbortController();
+    const queued = limiter.acquire(controller.signal);
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(limiter.stats().queueDepth).toBe(0);
+  });
+});
+
+describe('HttpClient with limiter', () => {
+  it('pauses the shared queue when the server returns 429 with Retry-After', async () => {
+    vi.useFakeTimers();
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: '',
+        headers: new Headers({ 'retry-after': '3' }),
+        json: () => Promise.resolve({ error: { code: 'RATE_LIMITED', message: 'slow' } }),
+        body: null,
+      })
+      .mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers(),
+        json: () => Promise.resolve({ data: {}, meta: {} }),
+        body: null,
+      });
+    const limiter = new RequestLimiter();
+    const http = new HttpClient({ apiKey: 'k', baseUrl: 'https://api.test.com', maxRetries: 0, limiter, fetch: fetchFn as typeof fetch });
+
+    await expect(http.request({ method: 'GET', path: '/a' })).rejects.toMatchObject({ name: 'RateLimitError' });
+    const other = http.request({ method: 'GET', path: '/b' });
+
+    await vi.advanceTimersByTimeAsync(2_900);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(limiter.stats().queueDepth).toBe(1);
+    await vi.advanceTimersByTimeAsync(200);
+    await other;
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { AidenClient } from '../src/client';
+import { DefaultRetryPolicy } from '../src/core/retry';
+import { createFakeAidenServer } from '../src/testing';
+import type { Logger, LogFields, LogLevel } from '../src/core/logger';
+
+type Entry = { level: string; message: string; fields: LogFields };
+
+function setup(logLevel?: LogLevel, logRedact?: string[]) {
+  const entries: Entry[] = [];
+  const logger: Logger = {
+    debug: (message, fields) => entries.push({ level: 'debug', message, fields }),
+    info: (message, fields) => entries.push({ level: 'info', message, fields }),
+    warn: (message, fields) => entries.push({ level: 'warn', message, fields }),
+    error: (message, fields) => entries.push({ level: 'error', message, fields }),
+  };
+  const server = createFakeAidenServer();
+  const client = new AidenClient({
+    apiKey: 'secret-key',
+    baseUrl: 'https://aiden.test',
+    fetch: server,
+    retryPolicy: new DefaultRetryPolicy({ maxRetries: 1, baseDelayMs: 1, jitterMs: 0 }),
+    logger,
+    logLevel,
+    logRedact,
+  });
+  return { server, client, entries };
+}
+
+describe('Logging', () => {
+  it('logs requests and responses at debug level with the envelope requestId', async () => {
+    const { client, entries } = setup('debug');
+    await client.notebooks.create({ name: 'Manuals' });
+
+    expect(entries.map((e) => `${e.level} ${e.message}`)).toEqual(['debug aiden.request', 'info aiden.response']);
+    const [request, response] = entries;
+    expect(request!.fields).toMatchObject({
+      method: 'POST',
+      url: 'https://aiden.test/api/v1/notebooks',
+      attempt: 0,
+      headers: { authorization: '[REDACTED]' },
+      body: '{"name":"Manuals"}',
+    });
+    expect(response!.fields).toMatchObject({ status: 201, attempt: 0, requestId: expect.stringMatching(/^req_fake_/) });
+    expect(response!.fields.durationMs).toEqual(expect.any(Number));
+    expect(response!.fields.body).toContain('"_id":"nb_1"');
+  });
+
+  it('omits headers and bodies at info level and logs nothing by default', async () => {
+    const info = setup();
+    await info.client.notebooks.list();
+    expect(info.entries).toHaveLength(1);
+    expect(info.entries[0]!.fields.body).toBeUndefined();
+
+    const silent = setup('silent');
+    await silent.client.notebooks.list();
+    expect(silent.entries).toHaveLength(0);
+  });
+
+  it('redacts credential payloads and configured fields', async () => {
+    const { client, entries } = setup('debug', ['token']);
+    await client.credentials.create({ name: 'CRM', type: 'apiKey', values: { apiKey: 'sk-live' } }).catch(() => undefined);
+    await client.notebooks.create({ name: 'Manuals', settings: { token: 'tok-secret' } });
+
+    const logged = JSON.stringify(entries);
+    expect(logged).not.toContain('sk-live');
+    expect(logged).not.toContain('tok-secret');
+    expect(entries[0]!.fields.body).toBe('[REDACTED]');
+    expect(entries.at(-2)!.fields.body).toBe('{"name":"Manuals","settings":{"token":"[REDACTED]"}}');
+  });
+
+  it('truncates long bodies', async () => {
+    const { client, entries } = setup('debug');
+    await client.notebooks.create({ name: 'x'.repeat(5_000) });
+    const body = entries[0]!.fields.body as string;
+    expect(body.length).toBeLessThan(1_100);
+    expect(body).toMatch(/more chars\)$/);
+  });
+
+  it('logs retries and final failures', async () => {
+    const { server, client, entries } = setup('warn');
+    server.inject({ path: '/api/v1/skills', status: 503, times: 2 });
+    await expect(client.skills.list()).rejects.toThrow();
+
+    expect(entries.map((e) => `${e.level} ${e.message}`)).toEqual(['warn aiden.retry', 'error aiden.error']);
+    expect(entries[0]!.fields).toMatchObject({ attempt: 0, delayMs: 1, status: 503 });
+    expect(entries[1]!.fields).toMatchObject({ attempts: 2, code: 'SERVICE_UNAVAILABLE' });
+  });
+
+  it('logs one summary line per finished stream', async () => {
+    const { client, entries } = setup('info');
+    const stream = await client.knowledge.think({ message: 'one two three four' });
+    await stream.text();
+
+    expect(entries.map((e) => e.message)).toEqual(['aiden.response', 'aiden.stream']);
+    expect(entries[1]!.fields).toMatchObject({ outcome: 'complete', status: 200 });
+    expect(entries[1]!.fields.chunks).toBeGreaterThan(1);
+    expect(entries[1]!.fields.bytes).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { AidenClient } from '../src/client';
+import { DefaultRetryPolicy } from '../src/core/retry';
+import { MetricsCollector } from '../src/core/metrics';
+import { routeTemplate } from '../src/core/routes';
+import { createFakeAidenServer } from '../src/testing';
+
+function setup() {
+  const metrics = new MetricsCollector();
+  const server = createFakeAidenServer({ executionMs: 1 });
+  const client = new AidenClient({
+    apiKey: 'test-key',
+    baseUrl: 'https://aiden.test',
+    fetch: server,
+    retryPolicy: new DefaultRetryPolicy({ maxRetries: 2, baseDelayMs: 1, jitterMs: 0 }),
+    metrics,
+  });
+  return { metrics, server, client };
+}
+
+describe('routeTemplate', () => {
+  it('maps paths to SDK route templates', () => {
+    expect(routeTemplate('POST', '/api/v1/skills/64f1c2/run')).toBe('/api/v1/skills/:id/run');
+    expect(routeTemplate('GET', '/api/v1/skills/templates')).toBe('/api/v1/skills/templates');
+    expect(routeTemplate('GET', '/api/v1/skills/abc/executions/ex_9')).toBe('/api/v1/skills/:id/executions/:executionId');
+    expect(routeTemplate('GET', '/v1/models/openai/gpt-4o')).toBe('/v1/models/:model');
+  });
+
+  it('replaces ID-like segments of unknown paths', () => {
+    expect(routeTemplate('GET', '/api/v1/custom/abc123/items?x=1')).toBe('/api/v1/custom/:id/items');
+  });
+});
+
+describe('MetricsCollector', () => {
+  it('aggregates calls by method and route template', async () => {
+    const { metrics, server, client } = setup();
+    const { data: a } = await client.skills.create({ name: 'A' });
+    const { data: b } = await client.skills.create({ name: 'B' });
+    server.inject({ path: `/api/v1/skills/${a._id}/run`, status: 503, times: 1 });
+    await client.skills.run(a._id, {});
+    await client.skills.run(b._id, {});
+    await expect(client.skills.get('sk_missing')).rejects.toThrow();
+
+    const { routes } = metrics.snapshot();
+    const run = routes.find((r) => r.route === '/api/v1/skills/:id/run')!;
+    expect(run).toMatchObject({ method: 'POST', requests: 2, errors: 0, retries: 1, statuses: { 202: 2 } });
+    expect(run.latencyMs.count).toBe(2);
+    expect(run.latencyMs.p99).toBeGreaterThanOrEqual(run.latencyMs.p50);
+
+    const get = routes.find((r) => r.route === '/api/v1/skills/:id')!;
+    expect(get).toMatchObject({ errors: 1, errorsByType: { NotFoundError: 1 }, statuses: { 404: 1 } });
+  });
+
+  it('records stream throughput and time to first delta', async () => {
+    const { metrics, client } = setup();
+    const stream = await client.knowledge.think({ message: 'one two three' });
+    await stream.text();
+
+    const [think] = metrics.snapshot().streams;
+    expect(think).toMatchObject({ method: 'POST', route: '/api/v1/knowledge/chat/think', streams: 1, outcomes: { complete: 1 } });
+    expect(think!.deltas).toBeGreaterThan(1);
+    expect(think!.bytes).toBeGreaterThan(0);
+    expect(think!.timeToFirstDeltaMs.count).toBe(1);
+  });
+
+  it('records a call whose body fails to parse as a failure', async () => {
+    const metrics = new MetricsCollector();
+    const client = new AidenClient({
+      apiKey: 'test-key',
+      baseUrl: 'https://aiden.test',
+      fetch: async () => new Response('{"data": [', { status: 200, headers: { 'content-type': 'application/json' } }),
+      metrics,
+    });
+    await expect(client.notebooks.list()).rejects.toThrow(SyntaxError);
+
+    const [list] = metrics.snapshot().routes;
+    expect(list).toMatchObject({ requests: 1, errors: 1, errorsByType: { SyntaxError: 1 }, statuses: { 200: 1 } });
+  });
+
+  it('exports Prometheus text', async () => {
+    const { metrics, client } = setup();
+    await client.notebooks.list();
+    await client.notebooks.list();
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain('# TYPE aiden_sdk_requests_total counter');
+    expect(text).toContain('aiden_sdk_requests_total{method="GET",route="/api/v1/notebooks",status="200"} 2');
+    expect(text).toContain('aiden_sdk_request_duration_seconds_count{method="GET",route="/api/v1/notebooks"} 2');
+    expect(text).toMatch(/aiden_sdk_request_duration_seconds\{method="GET",route="\/api\/v1\/notebooks",quantile="0\.99"\} [\d.]+/);
+
+    metrics.reset();
+    expect(metrics.toPrometheus()).toBe('');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from '../src/core/http-client';
+import { AidenError, NotFoundError } from '../src/core/errors';
+import type { Middleware } from '../src/core/middleware';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    body: null,
+  } as unknown as Response;
+}
+
+const baseConfig = { apiKey: 'test-key', baseUrl: 'https://api.test.com' };
+
+describe('Middleware', () => {
+  it('lets onRequest add headers and rewrite the URL', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(200, { data: {}, meta: {} }));
+    const http = new HttpClient({
+      ...baseConfig,
+      fetch: fetchFn as typeof fetch,
+      middleware: [
+        {
+          onRequest: (ctx) => {
+            ctx.headers['X-Trace'] = 't1';
+            ctx.url = ctx.url.replace('api.test.com', 'proxy.test.com');
+          },
+        },
+      ],
+    });
+
+    await http.request({ method: 'GET', path: '/api/v1/notebooks/n1' });
+
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('https://proxy.test.com/api/v1/notebooks/n1');
+    expect((init!.headers as Record<string, string>)['X-Trace']).toBe('t1');
+  });
+
+  it('runs request hooks in order and response hooks in reverse', async () => {
+    const order: string[] = [];
+    const tag = (name: string): Middleware => ({
+      onRequest: () => void order.push(`req:${name}`),
+      onResponse: () => void order.push(`res:${name}`),
+    });
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(200, { data: {}, meta: {} }));
+    const http = new HttpClient({ ...baseConfig, fetch: fetchFn as typeof fetch, middleware: [tag('a'), tag('b')] });
+
+    await http.request({ method: 'GET', path: '/x' });
+
+    expect(order).toEqual(['req:a', 'req:b', 'res:b', 'res:a']);
+  });
+
+  it('reports attempt numbers, retries and the final error with the domain', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(503, { error: { code: 'DOWN', message: 'down' } }))
+        .mockResolvedValueOnce(jsonResponse(404, { error: { code: 'NOT_FOUND', message: 'missing' } }));
+      const attempts: number[] = [];
+      const onRetry = vi.fn();
+      const onError = vi.fn();
+      const http = new HttpClient({
+        ...baseConfig,
+        maxRetries: 2,
+        fetch: fetchFn as typeof fetch,
+        middleware: [{ onRequest: (ctx) => void attempts.push(ctx.attempt), onRetry, onError }],
+      });
+
+      const pending = http.request({ method: 'GET', path: '/api/v1/skills/s1' });
+      const assertion = expect(pending).rejects.toBeInstanceOf(NotFoundError);
+      await vi.runAllTimersAsync();
+      await assertion;
+
+      expect(attempts).toEqual([0, 1]);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onRetry.mock.calls[0][1]).toMatchObject({ nextAttempt: 1 });
+      expect(onRetry.mock.calls[0][1].error.status).toBe(503);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0].domain).toBe('skills');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('lets onError replace the error and onResponse replace the response', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(404, { error: { code: 'NOT_FOUND', message: 'missing' } }));
+    const http = new HttpClient({
+      ...baseConfig,
+      maxRetries: 0,
+      fetch: fetchFn as typeof fetch,
+      middleware: [{ onError: (_ctx, err) => new AidenError(`wrapped: ${err.message}`, 'WRAPPED', err.status, err.requestId) }],
+    });
+    await expect(http.request({ method: 'GET', path: '/x' })).rejects.toMatchObject({ code: 'WRAPPED' });
+
+    http.use({ onResponse: () => jsonResponse(200, { data: { replaced: true }, meta: {} }) });
+    const res = await http.request<{ replaced: boolean }>({ method: 'GET', path: '/x' });
+    expect(res.data.replaced).toBe(true);
+  });
+});
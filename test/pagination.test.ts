@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AidenClient } from '../src/client';
+import { paginate } from '../src/core/pagination';
+import { AbortedError } from '../src/core/errors';
+import type { PaginatedResponse, PaginationParams } from '../src/core/types';
+
+function page<T>(data: T[], pagination?: { page: number; limit: number; total: number; totalPages: number }): PaginatedResponse<T> {
+  return { data, meta: { requestId: 'r', timestamp: 't', ...(pagination ? { pagination } : {}) } };
+}
+
+describe('paginate', () => {
+  it('follows meta.pagination across pages', async () => {
+    const fetchPage = vi.fn(async (params: PaginationParams) =>
+      page([`item-${params.page}`], { page: params.page!, limit: 1, total: 3, totalPages: 3 }),
+    );
+
+    const items = await paginate(fetchPage, { search: 'x' }).toArray();
+
+    expect(items).toEqual(['item-1', 'item-2', 'item-3']);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage.mock.calls[2]![0]).toMatchObject({ page: 3, search: 'x' });
+  });
+
+  it('honours maxItems and pageSize', async () => {
+    const fetchPage = vi.fn(async (params: PaginationParams) =>
+      page([1, 2, 3].map((n) => n + (params.page! - 1) * 3), { page: params.page!, limit: 3, total: 9, totalPages: 3 }),
+    );
+
+    const pages = [];
+    for await (const p of paginate(fetchPage, undefined, { pageSize: 3, maxItems: 4 }).pages()) {
+      pages.push(p.data);
+    }
+
+    expect(pages).toEqual([[1, 2, 3], [4]]);
+    expect(fetchPage.mock.calls[0]![0]).toMatchObject({ page: 1, limit: 3 });
+  });
+
+  it('stops on a short page when pagination metadata is missing', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce(page(['a', 'b']))
+      .mockResolvedValueOnce(page(['c']));
+
+    expect(await paginate(fetchPage, { limit: 2 }).toArray()).toEqual(['a', 'b', 'c']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+
+    const single = vi.fn().mockResolvedValue(page(['a', 'b']));
+    expect(await paginate(single).toArray()).toEqual(['a', 'b']);
+    expect(single).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the signal aborts between pages', async () => {
+    const controller = new AbortController();
+    const fetchPage = vi.fn(async (params: PaginationParams) => {
+      controller.abort();
+      return page([params.page], { page: params.page!, limit: 1, total: 5, totalPages: 5 });
+    });
+
+    const seen: unknown[] = [];
+    const error = await (async () => {
+      for await (const item of paginate(fetchPage, undefined, { signal: controller.signal })) seen.push(item);
+    })().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AbortedError);
+    expect((error as AbortedError).cause).toBe(controller.signal.reason);
+    expect(seen).toEqual([1]);
+  });
+});
+
+describe('domain listAll', () => {
+  it('notebooks.listAll requests successive pages', async () => {
+    const fetchFn = vi.fn(async (url: string) => {
+      const current = Number(new URL(url).searchParams.get('page'));
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve(page([{ _id: `nb${current}` }], { page: current, limit: 1, total: 2, totalPages: 2 })),
+        body: null,
+      } as unknown as Response;
+    });
+    const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://ext.example.com', fetch: fetchFn as typeof fetch });
+
+    const ids: string[] = [];
+    for await (const nb of client.notebooks.listAll()) ids.push((nb as { _id: string })._id);
+
+    expect(ids).toEqual(['nb1', 'nb2']);
+    expect(fetchFn.mock.calls[1]![0]).toBe('https://ext.example.com/api/v1/notebooks?page=2');
+  });
+});
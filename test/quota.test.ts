@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AidenClient } from '../src/client';
+import { QuotaTracker, parseRateLimit, parseRetryAfter } from '../src/core/quota';
+import type { LowQuotaEvent } from '../src/core/quota';
+
+function clientWithQuota(remaining: number[], onLowQuota: (event: LowQuotaEvent) => void) {
+  const fetchFn = vi.fn(async () => {
+    const left = remaining.shift()!;
+    return new Response(JSON.stringify({ data: [], meta: { requestId: 'r', timestamp: '' } }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'RateLimit-Limit': '100', 'RateLimit-Remaining': String(left), 'RateLimit-Reset': '30' },
+    });
+  });
+  return new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, quota: { onLowQuota } });
+}
+
+describe('parseRateLimit', () => {
+  const now = 1_700_000_000_000;
+
+  it('reads RateLimit-* and X-RateLimit-* headers', () => {
+    expect(parseRateLimit(new Headers({ 'RateLimit-Limit': '100', 'RateLimit-Remaining': '42', 'RateLimit-Reset': '30' }), now)).toEqual({
+      limit: 100,
+      remaining: 42,
+      resetAt: now + 30_000,
+    });
+    expect(parseRateLimit(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '1700000060' }), now)).toEqual({
+      limit: undefined,
+      remaining: 0,
+      resetAt: 1_700_000_060_000,
+    });
+  });
+
+  it('reads structured RateLimit headers and ignores responses without any', () => {
+    expect(parseRateLimit(new Headers({ RateLimit: 'limit=10, remaining=3, reset=5' }), now)).toEqual({
+      limit: 10,
+      remaining: 3,
+      resetAt: now + 5_000,
+    });
+    expect(parseRateLimit(new Headers({ RateLimit: '"default";r=7;t=2', 'RateLimit-Policy': '"default";q=50;w=60' }), now)).toEqual({
+      limit: 50,
+      remaining: 7,
+      resetAt: now + 2_000,
+    });
+    expect(parseRateLimit(new Headers({ 'Content-Type': 'application/json' }), now)).toBeUndefined();
+  });
+
+  it('parses Retry-After as seconds or HTTP date', () => {
+    expect(parseRetryAfter('3')).toBe(3_000);
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(55_000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('QuotaTracker', () => {
+  it('exposes the latest quota per route group on the client', async () => {
+    const client = clientWithQuota([80, 79], () => undefined);
+    await client.notebooks.list();
+    await client.skills.list();
+
+    expect(client.quota.get('/api/v1/notebooks')).toMatchObject({ limit: 100, remaining: 80 });
+    expect(Object.keys(client.quota.snapshot())).toEqual(['/api/v1/notebooks', '/api/v1/skills']);
+  });
+
+  it('fires onLowQuota once per drop below the threshold', async () => {
+    const events: LowQuotaEvent[] = [];
+    const client = clientWithQuota([20, 10, 5, 50, 9], (e) => events.push(e));
+    for (let i = 0; i < 5; i++) await client.notebooks.list();
+
+    expect(events.map((e) => [e.route, e.state.remaining])).toEqual([
+      ['/api/v1/notebooks', 10],
+      ['/api/v1/notebooks', 9],
+    ]);
+  });
+
+  it('supports an absolute threshold and sharing between clients', () => {
+    const events: LowQuotaEvent[] = [];
+    const tracker = new QuotaTracker({ lowRemaining: 5, onLowQuota: (e) => events.push(e) });
+    tracker.observe('/v1/chat/completions', new Headers({ 'X-RateLimit-Remaining': '4' }));
+    expect(events).toHaveLength(1);
+
+    const a = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', quota: tracker });
+    const b = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', quota: tracker });
+    expect(a.quota).toBe(b.quota);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { DefaultRetryPolicy, isSafeFailure } from '../src/core/retry';
+import type { RetryContext } from '../src/core/retry';
+import { AidenClient } from '../src/client';
+import { createFakeAidenServer } from '../src/testing';
+import {
+  ConnectionError,
+  InternalError,
+  NotFoundError,
+  RateLimitError,
+  ServiceUnavailableError,
+  TimeoutError,
+} from '../src/core/errors';
+
+function ctx(overrides: Partial<RetryContext>): RetryContext {
+  const error = overrides.error ?? new InternalError('boom', 'r1');
+  return {
+    method: 'GET',
+    path: '/api/v1/notebooks',
+    attempt: 0,
+    status: error.status,
+    elapsedMs: 0,
+    replaySafe: true,
+    ...overrides,
+    error,
+  };
+}
+
+describe('DefaultRetryPolicy', () => {
+  const policy = new DefaultRetryPolicy({ jitterMs: 0 });
+
+  it('backs off exponentially up to maxRetries', () => {
+    expect(policy.nextDelay(ctx({ attempt: 0 }))).toBe(1000);
+    expect(policy.nextDelay(ctx({ attempt: 2 }))).toBe(4000);
+    expect(policy.nextDelay(ctx({ attempt: 3 }))).toBeNull();
+  });
+
+  it('does not retry client errors or timeouts by default', () => {
+    expect(policy.nextDelay(ctx({ error: new NotFoundError('x', 'NOT_FOUND', 'r') }))).toBeNull();
+    expect(policy.nextDelay(ctx({ error: new TimeoutError('slow', 100) }))).toBeNull();
+    expect(policy.nextDelay(ctx({ error: new ConnectionError('down') }))).toBe(1000);
+  });
+
+  it('honours Retry-After even beyond the backoff cap', () => {
+    const error = new RateLimitError('slow down', 'r', 45_000);
+    expect(policy.nextDelay(ctx({ error, retryAfterMs: 45_000 }))).toBe(45_000);
+  });
+
+  it('gives up when Retry-After exceeds maxRetryAfterMs', async () => {
+    const error = new RateLimitError('slow down', 'r', 3_600_000);
+    expect(policy.nextDelay(ctx({ error, retryAfterMs: 3_600_000 }))).toBeNull();
+    expect(policy.nextDelay(ctx({ error, retryAfterMs: 60_000 }))).toBe(60_000);
+    const strict = new DefaultRetryPolicy({ maxRetryAfterMs: 5_000 });
+    expect(strict.nextDelay(ctx({ error, retryAfterMs: 6_000 }))).toBeNull();
+
+    const server = createFakeAidenServer({ apiKey: 'k' });
+    server.inject({ path: '/api/v1/skills', status: 429, retryAfter: 3600 });
+    const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: server });
+    await expect(client.skills.list()).rejects.toMatchObject({ name: 'RateLimitError', retryAfter: 3_600_000 });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('stops when the time budget would be exceeded', () => {
+    const budgeted = new DefaultRetryPolicy({ jitterMs: 0, budgetMs: 5_000 });
+    expect(budgeted.nextDelay(ctx({ attempt: 1, elapsedMs: 2_000 }))).toBe(2000);
+    expect(budgeted.nextDelay(ctx({ attempt: 1, elapsedMs: 3_500 }))).toBeNull();
+  });
+
+  it('applies the first rule matching path, method and status', () => {
+    const routed = new DefaultRetryPolicy({
+      jitterMs: 0,
+      maxRetries: 1,
+      rules: [
+        { path: '/api/v1/knowledge', maxRetries: 5 },
+        { status: 503, baseDelayMs: 5_000 },
+      ],
+    });
+    expect(routed.nextDelay(ctx({ attempt: 3, path: '/api/v1/knowledge/notebooks/n/rag/ask' }))).toBe(8000);
+    expect(routed.nextDelay(ctx({ attempt: 3 }))).toBeNull();
+    expect(routed.nextDelay(ctx({ error: new ServiceUnavailableError('down', 'r') }))).toBe(5000);
+  });
+
+  it('only retries safe failures when the request is not replay-safe', () => {
+    expect(policy.nextDelay(ctx({ replaySafe: false }))).toBeNull();
+    expect(policy.nextDelay(ctx({ replaySafe: false, error: new ServiceUnavailableError('down', 'r') }))).toBe(1000);
+  });
+});
+
+describe('isSafeFailure', () => {
+  it('recognises refused connections through the cause chain', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const fetchFailed = new TypeError('fetch failed', { cause: refused });
+    expect(isSafeFailure(new ConnectionError('Failed to connect', fetchFailed))).toBe(true);
+    expect(isSafeFailure(new ConnectionError('socket hang up'))).toBe(false);
+  });
+});
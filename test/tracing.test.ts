@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { AidenClient } from '../src/client';
+import { DefaultRetryPolicy } from '../src/core/retry';
+import { BasicTracer, formatTraceparent } from '../src/core/tracing';
+import { MetricsCollector } from '../src/core/metrics';
+import { AbortedError, AidenError } from '../src/core/errors';
+import type { FinishedSpan } from '../src/core/tracing';
+import { createFakeAidenServer } from '../src/testing';
+import type { OpenAIChatStream } from '../src/stream/openai-stream';
+
+function setup(streamDelayMs = 0) {
+  const spans: FinishedSpan[] = [];
+  const tracer = new BasicTracer({ onEnd: (span) => spans.push({ ...span }), traceState: 'vendor=aiden' });
+  const server = createFakeAidenServer({ streamDelayMs });
+  const client = new AidenClient({
+    apiKey: 'test-key',
+    baseUrl: 'https://aiden.test',
+    fetch: server,
+    retryPolicy: new DefaultRetryPolicy({ maxRetries: 2, baseDelayMs: 1, jitterMs: 0 }),
+    tracer,
+  });
+  return { spans, tracer, server, client };
+}
+
+describe('Tracing', () => {
+  it('creates an operation span with a child span per attempt', async () => {
+    const { spans, server, client } = setup();
+    server.inject({ path: '/api/v1/notebooks', status: 503, times: 1 });
+    await client.notebooks.create({ name: 'Manuals' });
+
+    expect(spans.map((s) => s.name)).toEqual(['POST', 'POST', 'aiden.notebooks']);
+    const [first, second, operation] = spans;
+    expect(first!.parentSpanId).toBe(operation!.spanId);
+    expect(second!.traceId).toBe(operation!.traceId);
+    expect(first).toMatchObject({ status: 'error', attributes: { 'http.response.status_code': 503, 'aiden.attempt': 0 } });
+    expect(second).toMatchObject({ status: 'ok', attributes: { 'http.response.status_code': 201, 'aiden.attempt': 1 } });
+    expect(operation).toMatchObject({
+      status: 'ok',
+      attributes: {
+        'http.response.status_code': 201,
+        'aiden.retry_count': 1,
+        'aiden.request_id': expect.stringMatching(/^req_fake_/),
+      },
+    });
+  });
+
+  it('injects traceparent and tracestate of the attempt span', async () => {
+    const { spans, server, client } = setup();
+    await client.notebooks.list();
+
+    const headers = server.requests[0]!.headers;
+    expect(headers.traceparent).toBe(formatTraceparent({ traceId: spans[0]!.traceId, spanId: spans[0]!.spanId }));
+    expect(headers.tracestate).toBe('vendor=aiden');
+  });
+
+  it('continues the trace of a parent span and records failures', async () => {
+    const { spans, tracer, server, client } = setup();
+    const parent = tracer.startSpan('checkout');
+    server.inject({ path: '/api/v1/notebooks', status: 404, times: 1 });
+    await expect(client.notebooks.get('nb_1', { parentSpan: parent })).rejects.toThrow();
+
+    const operation = spans.at(-1)!;
+    expect(operation.parentSpanId).toBe(parent.spanContext().spanId);
+    expect(operation).toMatchObject({ status: 'error', attributes: { 'http.response.status_code': 404, 'aiden.retry_count': 0 } });
+  });
+
+  it('reports failures from middleware and aborted backoff like any other failure', async () => {
+    const spans: FinishedSpan[] = [];
+    const metrics = new MetricsCollector();
+    const errors: string[] = [];
+    const server = createFakeAidenServer();
+    const client = new AidenClient({
+      apiKey: 'test-key',
+      baseUrl: 'https://aiden.test',
+      fetch: server,
+      retryPolicy: new DefaultRetryPolicy({ maxRetries: 2, baseDelayMs: 60_000, jitterMs: 0 }),
+      tracer: new BasicTracer({ onEnd: (span) => spans.push({ ...span }) }),
+      metrics,
+      middleware: [
+        {
+          onRequest: (ctx) => {
+            if (ctx.path === '/api/v1/skills') throw new AidenError('blocked', 'BLOCKED', 0, 'unknown');
+          },
+          onError: (_ctx, error) => void errors.push(error.code),
+        },
+      ],
+    });
+
+    await expect(client.skills.list()).rejects.toMatchObject({ code: 'BLOCKED' });
+    expect(spans.map((s) => [s.name, s.status])).toEqual([
+      ['GET', 'error'],
+      ['aiden.skills', 'error'],
+    ]);
+
+    server.inject({ path: '/api/v1/notebooks', status: 503, times: 1 });
+    const controller = new AbortController();
+    const pending = client.notebooks.list({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(pending).rejects.toBeInstanceOf(AbortedError);
+
+    expect(errors).toEqual(['BLOCKED', 'ABORTED']);
+    expect(spans.at(-1)).toMatchObject({ name: 'aiden.notebooks', status: 'error' });
+    expect(metrics.snapshot().routes.map((r) => [r.route, r.errors])).toEqual([
+      ['/api/v1/skills', 1],
+      ['/api/v1/notebooks', 1],
+    ]);
+  });
+
+  it('keeps stream spans open until the stream finishes', async () => {
+    const { spans, client } = setup(10);
+    const stream = await client.knowledge.think({ message: 'one two three' });
+    expect(spans.map((s) => s.name)).toEqual(['POST']);
+
+    await stream.text();
+    const operation = spans.at(-1)!;
+    expect(operation.name).toBe('aiden.knowledge');
+    expect(operation.attributes['aiden.stream.outcome']).toBe('complete');
+    expect(operation.attributes['aiden.time_to_first_delta_ms']).toBeGreaterThan(0);
+    expect(operation.events.map((e) => e.name)).toEqual(['first_delta']);
+  });
+
+  it('ends OpenAI stream spans at [DONE]', async () => {
+    const { spans, client } = setup();
+    const stream = (await client.openai.chatCompletions({
+      model: 'aiden/default',
+      messages: [{ role: 'user', content: 'hi' }],
+      stream: true,
+    })) as OpenAIChatStream;
+    await stream.text();
+
+    const operation = spans.at(-1)!;
+    expect(operation).toMatchObject({ name: 'aiden.openai', status: 'ok' });
+    expect(operation.attributes['aiden.time_to_first_delta_ms']).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { AidenClient } from '../src/client';
+import { AbortedError } from '../src/core/errors';
+import { fixedChunks, readSource } from '../src/core/upload';
+import type { UploadProgress } from '../src/core/upload';
+
+const FILE = new TextEncoder().encode('0123456789abcdefghij');
+
+interface ServerOptions {
+  chunked?: boolean;
+  /** Fail this many chunk PUTs with 503 after storing the first half of their bytes. */
+  failPuts?: number;
+  /** Offset a chunk PUT answers with, given the one the server has stored. */
+  ack?: (offset: number) => unknown;
+}
+
+function uploadServer({ chunked = true, failPuts = 0, ack = (offset) => offset }: ServerOptions = {}) {
+  const uploads = new Map<string, number[]>();
+  const calls: string[] = [];
+  const ranges: string[] = [];
+  let singleUpload: FormData | undefined;
+  const json = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(status < 400 ? { data, meta: { requestId: 'r', timestamp: '' } } : data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const fetchFn = vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const path = new URL(String(input)).pathname;
+    const method = init.method ?? 'GET';
+    calls.push(`${method} ${path}`);
+    const id = /^\/api\/v1\/documents\/uploads\/([^/]+)/.exec(path)?.[1];
+
+    if (method === 'POST' && path === '/api/v1/documents/upload') {
+      singleUpload = init.body as FormData;
+      return json({ _id: 'doc_1', filename: 'manual.pdf', size: (singleUpload.get('file') as Blob).size }, 201);
+    }
+    if (!chunked) return json({ error: { code: 'ROUTE_NOT_FOUND', message: 'Not found' } }, 404);
+    if (method === 'POST' && path === '/api/v1/documents/uploads') {
+      uploads.set('up_1', []);
+      return json({ uploadId: 'up_1', offset: 0 }, 201);
+    }
+    const stored = uploads.get(id!)!;
+    if (method === 'GET') return json({ uploadId: id, offset: stored.length });
+    if (method === 'PUT') {
+      const range = new Headers(init.headers).get('content-range')!;
+      ranges.push(range);
+      const start = Number(/bytes (\d+)-/.exec(range)![1]);
+      const bytes = [...new Uint8Array(await new Response(init.body).arrayBuffer())];
+      if (start !== stored.length) return json({ error: { code: 'CONFLICT', message: 'Wrong offset' } }, 409);
+      if (failPuts > 0) {
+        failPuts--;
+        stored.push(...bytes.slice(0, Math.ceil(bytes.length / 2)));
+        return json({ error: { code: 'SERVICE_UNAVAILABLE', message: 'Try later' } }, 503);
+      }
+      for (const byte of bytes) stored.push(byte);
+      return json({ uploadId: id, offset: ack(stored.length) });
+    }
+    const body = JSON.parse(init.body as string) as { size: number };
+    return json({ _id: 'doc_1', filename: 'manual.pdf', size: body.size }, 201);
+  });
+
+  const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, maxRetries: 0 });
+  const received = () => new TextDecoder().decode(new Uint8Array(uploads.get('up_1') ?? []));
+  return { client, fetchFn, calls, ranges, received, single: () => singleUpload };
+}
+
+describe('upload sources', () => {
+  it('re-slices any source into fixed chunks from an offset', async () => {
+    const web = new Blob([FILE]).stream();
+    const node = Readable.from([FILE.subarray(0, 3), FILE.subarray(3, 11), FILE.subarray(11)]);
+    for (const source of [FILE, new Blob([FILE]), web, node]) {
+      const pieces: string[] = [];
+      for await (const { bytes, last } of fixedChunks(readSource(source, 2), 8)) {
+        pieces.push(`${new TextDecoder().decode(bytes)}${last ? '$' : ''}`);
+      }
+      expect(pieces).toEqual(['23456789', 'abcdefgh', 'ij$']);
+    }
+
+    const empty: string[] = [];
+    for await (const { bytes, last } of fixedChunks(readSource(new Uint8Array(0)), 8)) empty.push(`${bytes.length}${last}`);
+    expect(empty).toEqual(['0true']);
+  });
+});
+
+describe('documents.uploadResumable', () => {
+  it('uploads in chunks with Content-Range and reports progress', async () => {
+    const { client, ranges, received, calls } = uploadServer();
+    const progress: UploadProgress[] = [];
+    const result = await client.documents.uploadResumable({
+      source: FILE,
+      filename: 'manual.pdf',
+      chunkSize: 8,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(result.data.size).toBe(20);
+    expect(received()).toBe('0123456789abcdefghij');
+    expect(ranges).toEqual(['bytes 0-7/20', 'bytes 8-15/20', 'bytes 16-19/20']);
+    expect(progress.map((p) => p.bytesSent)).toEqual([0, 8, 16, 20]);
+    expect(progress[0]).toEqual({ uploadId: 'up_1', bytesSent: 0, totalBytes: 20 });
+    expect(calls.at(-1)).toBe('POST /api/v1/documents/uploads/up_1/complete');
+  });
+
+  it('reports progress while a chunk is being sent', async () => {
+    const big = new Uint8Array(200 * 1024).map((_, i) => i % 251);
+    const { client, received } = uploadServer();
+    const progress: number[] = [];
+    await client.documents.uploadResumable({
+      source: big,
+      filename: 'manual.pdf',
+      chunkSize: 128 * 1024,
+      onProgress: (p) => progress.push(p.bytesSent),
+    });
+
+    expect(received().length).toBe(big.length);
+    expect(progress).toEqual([0, 64 * 1024, 128 * 1024, 192 * 1024, 200 * 1024]);
+  });
+
+  it('asks for the offset when a chunk is acknowledged with an invalid one', async () => {
+    const acks = [null, 'sixteen', 4, 999];
+    const { client, received, calls } = uploadServer({ ack: () => acks.shift() });
+    const progress: number[] = [];
+    await client.documents.uploadResumable({
+      source: Readable.from([FILE]),
+      filename: 'manual.pdf',
+      chunkSize: 6,
+      onProgress: (p) => progress.push(p.bytesSent),
+    });
+
+    expect(received()).toBe('0123456789abcdefghij');
+    expect(calls.filter((c) => c.startsWith('GET'))).toHaveLength(4);
+    expect(progress).toEqual([0, 6, 12, 18, 20]);
+  });
+
+  it('reads file paths and streams of unknown size', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'aiden-upload-'));
+    try {
+      const path = join(dir, 'manual.pdf');
+      await writeFile(path, FILE);
+      const fromPath = uploadServer();
+      await fromPath.client.documents.uploadResumable({ source: path, filename: 'manual.pdf', chunkSize: 16 });
+      expect(fromPath.received()).toBe('0123456789abcdefghij');
+      expect(fromPath.ranges).toEqual(['bytes 0-15/20', 'bytes 16-19/20']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    const fromStream = uploadServer();
+    await fromStream.client.documents.uploadResumable({ source: new Blob([FILE]).stream(), filename: 'manual.pdf', chunkSize: 16 });
+    expect(fromStream.ranges).toEqual(['bytes 0-15/*', 'bytes 16-19/20']);
+  });
+
+  it('resumes a failed chunk from the last acknowledged offset', async () => {
+    const { client, received, ranges } = uploadServer({ failPuts: 2 });
+    await client.documents.uploadResumable({ source: Readable.from([FILE]), filename: 'manual.pdf', chunkSize: 8 });
+
+    expect(received()).toBe('0123456789abcdefghij');
+    expect(ranges).toEqual(['bytes 0-7/*', 'bytes 4-7/*', 'bytes 6-7/*', 'bytes 8-15/*', 'bytes 16-19/20']);
+  });
+
+  it('continues an earlier upload by uploadId and gives up after maxResumes', async () => {
+    const server = uploadServer({ failPuts: 1 });
+    const progress: UploadProgress[] = [];
+    const failed = server.client.documents.uploadResumable({
+      source: FILE,
+      filename: 'manual.pdf',
+      chunkSize: 8,
+      maxResumes: 0,
+      onProgress: (p) => progress.push(p),
+    });
+    await expect(failed).rejects.toMatchObject({ status: 503 });
+
+    const uploadId = progress.at(-1)!.uploadId!;
+    await server.client.documents.uploadResumable({ source: Readable.from([FILE]), filename: 'manual.pdf', uploadId, chunkSize: 8 });
+    expect(server.received()).toBe('0123456789abcdefghij');
+    expect(server.ranges.slice(1)).toEqual(['bytes 4-11/*', 'bytes 12-19/20']);
+  });
+
+  it('falls back to a single upload when the server has no chunked uploads', async () => {
+    const { client, single } = uploadServer({ chunked: false });
+    const progress: number[] = [];
+    const result = await client.documents.uploadResumable({
+      source: Readable.from([FILE]),
+      filename: 'manual.pdf',
+      contentType: 'application/pdf',
+      onProgress: (p) => progress.push(p.bytesSent),
+    });
+
+    expect(result.data._id).toBe('doc_1');
+    expect((single()!.get('file') as Blob).type).toBe('application/pdf');
+    expect(progress).toEqual([0, 20]);
+  });
+
+  it('stops when the signal aborts', async () => {
+    const { client, calls } = uploadServer();
+    const controller = new AbortController();
+    const upload = client.documents.uploadResumable(
+      { source: FILE, filename: 'manual.pdf', chunkSize: 8, onProgress: (p) => p.bytesSent === 8 && controller.abort() },
+      { signal: controller.signal },
+    );
+
+    await expect(upload).rejects.toBeInstanceOf(AbortedError);
+    expect(calls.filter((c) => c.startsWith('PUT'))).toHaveLength(1);
+  });
+});
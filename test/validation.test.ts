@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from '../src/core/http-client';
+import { OpenAIClient } from '../src/openai/client';
+import { AidenStream } from '../src/stream/aiden-stream';
+import { SchemaMismatchError } from '../src/core/errors';
+import type { AidenClientConfig } from '../src/core/types';
+
+const meta = { requestId: 'req-1', timestamp: '2026-01-01T00:00:00Z' };
+
+function jsonFetch(body: unknown) {
+  return vi.fn().mockImplementation(async () => Response.json(body));
+}
+
+function client(fetchFn: ReturnType<typeof vi.fn>, config: Partial<AidenClientConfig> = {}) {
+  return new HttpClient({
+    apiKey: 'k',
+    baseUrl: 'https://api.test.com',
+    fetch: fetchFn as typeof fetch,
+    maxRetries: 0,
+    ...config,
+  });
+}
+
+function sseFetch(lines: string[]) {
+  return vi.fn().mockImplementation(async () => {
+    const body = new ReadableStream({
+      start(controller) {
+        for (const line of lines) controller.enqueue(new TextEncoder().encode(line));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  });
+}
+
+describe('response validation', () => {
+  const badPage = {
+    data: [],
+    meta: { ...meta, pagination: { page: 1, limit: 20, total: 0, totalPages: '1' } },
+  };
+
+  it('is off by default', async () => {
+    const http = client(jsonFetch({ data: 'x' }));
+    await expect(http.request({ method: 'GET', path: '/api/v1/notebooks/n1' })).resolves.toEqual({ data: 'x' });
+  });
+
+  it('strict mode throws SchemaMismatchError naming path and field', async () => {
+    const http = client(jsonFetch(badPage), { validate: 'strict' });
+
+    const error = await http
+      .requestPaginated({ method: 'GET', path: '/api/v1/notebooks' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error).toMatchObject({
+      code: 'SCHEMA_MISMATCH',
+      path: '/api/v1/notebooks',
+      field: 'meta.pagination.totalPages',
+      expected: 'number',
+      received: 'string',
+      requestId: 'req-1',
+    });
+  });
+
+  it('warn mode reports through the callback and returns the body', async () => {
+    const onSchemaMismatch = vi.fn();
+    const http = client(jsonFetch({ data: {}, meta: { timestamp: meta.timestamp } }), {
+      validate: 'warn',
+      onSchemaMismatch,
+    });
+
+    const res = await http.request({ method: 'GET', path: '/api/v1/skills/s1' });
+
+    expect(res.data).toEqual({});
+    expect(onSchemaMismatch).toHaveBeenCalledTimes(1);
+    expect(onSchemaMismatch.mock.calls[0]![0]).toMatchObject({ field: 'meta.requestId', received: 'undefined' });
+  });
+
+  it('accepts extra fields', async () => {
+    const http = client(jsonFetch({ data: [{ _id: 'a' }], meta: { ...meta, extra: true }, links: {} }), {
+      validate: 'strict',
+    });
+    await expect(http.requestPaginated({ method: 'GET', path: '/api/v1/skills' })).resolves.toBeDefined();
+  });
+
+  it('checks OpenAI /v1 shapes', async () => {
+    const http = client(jsonFetch({ object: 'list', data: [{ id: 'm', object: 'model', created: 0 }] }), {
+      validate: 'strict',
+    });
+
+    await expect(new OpenAIClient(http).listModels()).rejects.toMatchObject({
+      path: '/v1/models',
+      field: 'data[0].owned_by',
+    });
+  });
+
+  it('checks OpenAI stream chunks', async () => {
+    const http = client(sseFetch(['data: {"id":"1","object":"chat.completion","created":0,"model":"m","choices":[]}\n\n']), {
+      validate: 'strict',
+    });
+    const stream = await new OpenAIClient(http).chatCompletions({ model: 'm', messages: [], stream: true });
+
+    await expect((stream as AsyncIterable<unknown>)[Symbol.asyncIterator]().next()).rejects.toMatchObject({
+      path: '/v1/chat/completions',
+      field: 'object',
+    });
+  });
+
+  it('checks stream event payloads', async () => {
+    const event = { type: 'delta', phase: 'do', data: { text: 'hi' }, timestamp: 1, visibility: 'prominent' };
+    const fetchFn = sseFetch([`data: ${JSON.stringify(event)}\n\n`]);
+    const http = client(fetchFn, { validate: 'strict' });
+    const path = '/api/v1/knowledge/chat/think';
+    const res = await http.requestRaw({ method: 'POST', path, body: {} });
+
+    await expect(new AidenStream(res, http.payloadCheck(path, res)).text()).rejects.toMatchObject({
+      field: 'data.content',
+      expected: 'string',
+    });
+  });
+});
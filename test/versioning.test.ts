@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AidenClient } from '../src/client';
+import { AbortedError, VersionMismatchError } from '../src/core/errors';
+import { withResponse } from '../src/core/with-response';
+import {
+  DeprecationMonitor,
+  compareVersions,
+  describeDeprecation,
+  isContractSupported,
+  parseDeprecationHeaders,
+} from '../src/core/versioning';
+import type { DeprecationNotice } from '../src/core/versioning';
+import type { AidenClientConfig } from '../src/core/types';
+import type { Logger } from '../src/core/logger';
+
+const envelope = (data: unknown) => JSON.stringify({ data, meta: { requestId: 'r', timestamp: '' } });
+
+function setup(contractVersion: string, config: Partial<AidenClientConfig> = {}, deprecated: Record<string, string> = {}) {
+  const fetchFn = vi.fn(async (input: RequestInfo | URL) => {
+    const { pathname } = new URL(String(input));
+    if (pathname === '/api/version') {
+      return new Response(envelope({ name: 'aiden', pathVersion: 'v1', contractVersion }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    return new Response(envelope([]), {
+      headers: { 'Content-Type': 'application/json', ...(pathname.startsWith('/api/v1/skills') ? deprecated : {}) },
+    });
+  });
+  const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch, ...config });
+  return { client, fetchFn };
+}
+
+function memoryLogger() {
+  const warnings: [string, Record<string, unknown>][] = [];
+  const logger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: (message, fields) => warnings.push([message, fields]),
+    error: () => undefined,
+  };
+  return { logger, warnings };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('compareVersions', () => {
+  it('compares dotted versions and checks the supported range', () => {
+    expect(compareVersions('1.2.0', '1.10.0')).toBe(-1);
+    expect(compareVersions('v2.0', '2.0.0')).toBe(0);
+    expect(compareVersions('1.0.1-beta.2', '1.0.0')).toBe(1);
+    expect(isContractSupported('1.4.2')).toBe(true);
+    expect(isContractSupported('2.0.0')).toBe(false);
+    expect(isContractSupported('0.9.0')).toBe(false);
+  });
+});
+
+describe('checkVersion', () => {
+  it('reports the server contract and warns once on a mismatch', async () => {
+    const { logger, warnings } = memoryLogger();
+    const { client } = setup('1.3.0', { logger });
+    await expect(client.checkVersion()).resolves.toMatchObject({ contractVersion: '1.3.0', supported: true });
+    expect(warnings).toHaveLength(0);
+
+    const mismatched = setup('2.1.0', { logger, versionCheck: 'warn' });
+    await mismatched.client.skills.list();
+    expect(warnings).toEqual([['aiden.version', expect.objectContaining({ contractVersion: '2.1.0' })]]);
+  });
+
+  it('passes request options through version() and apiV1Index()', async () => {
+    const { client, fetchFn } = setup('1.3.0');
+    const version = await withResponse((o) => client.version(o));
+    expect(version.data.data.contractVersion).toBe('1.3.0');
+    await expect(withResponse((o) => client.apiV1Index(o))).resolves.toMatchObject({ attempts: 1 });
+
+    await expect(client.checkVersion('warn', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortedError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects every call in 'throw' mode when the contract is unsupported", async () => {
+    const { client, fetchFn } = setup('3.0.0', { versionCheck: 'throw' });
+    await expect(client.skills.list()).rejects.toBeInstanceOf(VersionMismatchError);
+    await expect(client.notebooks.list()).rejects.toMatchObject({ kind: 'version_mismatch', contractVersion: '3.0.0' });
+    expect(fetchFn.mock.calls.map(([url]) => new URL(String(url)).pathname)).toEqual(['/api/version']);
+
+    const supported = setup('1.0.0', { versionCheck: 'throw' });
+    await expect(supported.client.skills.list()).resolves.toBeDefined();
+  });
+
+  it('does not block calls when the version cannot be fetched', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const fetchFn = vi.fn(async (input: RequestInfo | URL) =>
+      new URL(String(input)).pathname === '/api/version'
+        ? new Response('{}', { status: 404, headers: { 'Content-Type': 'application/json' } })
+        : new Response(envelope([]), { headers: { 'Content-Type': 'application/json' } }),
+    );
+    const client = new AidenClient({
+      apiKey: 'k',
+      baseUrl: 'https://aiden.test',
+      fetch: fetchFn as typeof fetch,
+      versionCheck: 'throw',
+      maxRetries: 0,
+    });
+    await expect(client.skills.list()).resolves.toBeDefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Contract version check failed'));
+  });
+});
+
+describe('deprecation headers', () => {
+  const headers = {
+    Deprecation: '@1751328000',
+    Sunset: 'Wed, 31 Dec 2025 23:59:59 GMT',
+    Warning: '299 - "Use /api/v2/skills"',
+    Link: '<https://docs.aiden.test/migrate>; rel="deprecation"',
+  };
+
+  it('parses Deprecation, Sunset, Warning and Link', () => {
+    expect(parseDeprecationHeaders('GET', '/api/v1/skills/abc', new Headers(headers))).toEqual({
+      method: 'GET',
+      route: '/api/v1/skills/:id',
+      deprecated: true,
+      deprecatedAt: new Date('2025-07-01T00:00:00Z'),
+      sunsetAt: new Date('2025-12-31T23:59:59Z'),
+      warning: 'Use /api/v2/skills',
+      link: 'https://docs.aiden.test/migrate',
+    });
+    expect(parseDeprecationHeaders('GET', '/api/v1/skills', new Headers({ Deprecation: 'true' }))).toMatchObject({
+      route: '/api/v1/skills',
+      deprecated: true,
+      deprecatedAt: undefined,
+    });
+    expect(parseDeprecationHeaders('GET', '/api/v1/skills', new Headers())).toBeUndefined();
+    expect(parseDeprecationHeaders('GET', '/api/v1/skills', new Headers({ Warning: headers.Warning }))).toEqual({
+      method: 'GET',
+      route: '/api/v1/skills',
+      deprecated: false,
+      warning: 'Use /api/v2/skills',
+    });
+  });
+
+  it('reports each deprecated route once through onDeprecation', async () => {
+    const notices: DeprecationNotice[] = [];
+    const { client } = setup('1.0.0', { onDeprecation: (n) => notices.push(n) }, headers);
+    await client.skills.list();
+    await client.skills.list();
+    await client.notebooks.list();
+    const scoped = client.withOptions({ userId: 'u1' });
+    await scoped.skills.list();
+
+    expect(notices.map((n) => `${n.method} ${n.route}`)).toEqual(['GET /api/v1/skills']);
+  });
+
+  it('reports a Warning-only route once, and again once it is deprecated', async () => {
+    const notices: DeprecationNotice[] = [];
+    const { client } = setup('1.0.0', { onDeprecation: (n) => notices.push(n) }, { Warning: headers.Warning });
+    await client.skills.list();
+    await client.skills.list();
+    expect(notices).toEqual([{ method: 'GET', route: '/api/v1/skills', deprecated: false, warning: 'Use /api/v2/skills' }]);
+    expect(describeDeprecation(notices[0]!)).toBe('GET /api/v1/skills sent a warning: Use /api/v2/skills');
+
+    const monitor = new DeprecationMonitor((n) => notices.push(n));
+    monitor.observe('GET', '/api/v1/skills', new Headers({ Warning: headers.Warning }));
+    monitor.observe('GET', '/api/v1/skills', new Headers(headers));
+    monitor.observe('GET', '/api/v1/skills', new Headers(headers));
+    expect(notices.slice(1).map((n) => n.deprecated)).toEqual([false, true]);
+  });
+
+  it('logs aiden.deprecation by default', async () => {
+    const { logger, warnings } = memoryLogger();
+    const { client } = setup('1.0.0', { logger }, headers);
+    await client.skills.list();
+    await client.skills.list();
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]![0]).toBe('aiden.deprecation');
+    expect(warnings[0]![1].message).toBe(
+      'GET /api/v1/skills is deprecated and will be removed after 2025-12-31T23:59:59.000Z: Use /api/v2/skills ' +
+        '(see https://docs.aiden.test/migrate)',
+    );
+  });
+
+  it('writes nothing to the console without a logger', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { client } = setup('1.0.0', {}, headers);
+    await client.skills.list();
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
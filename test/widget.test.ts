@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { AidenWidgetClient } from '../src/widget/client';
+import { memoryStorage } from '../src/widget/storage';
+import { AbortedError, NotFoundError } from '../src/core/errors';
+
+interface Call {
+  method: string;
+  path: string;
+  headers: Headers;
+  body: Record<string, unknown> | undefined;
+}
+
+/** Public widget routes: sessions are plain ids, expired ones answer 404 like the real server. */
+function widgetServer() {
+  const sessions = new Set<string>();
+  const calls: Call[] = [];
+  let next = 0;
+  const json = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(status < 400 ? { data, meta: { requestId: 'r', timestamp: '' } } : data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const fetchFn = vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const path = new URL(String(input)).pathname;
+    const body = typeof init.body === 'string' ? (JSON.parse(init.body) as Record<string, unknown>) : undefined;
+    calls.push({ method: init.method ?? 'GET', path, headers: new Headers(init.headers), body });
+
+    if (path === '/api/v1/chat/w1/session') {
+      const sessionId = `ws_${++next}`;
+      sessions.add(sessionId);
+      return json({ sessionId, widgetId: 'w1' }, 201);
+    }
+    if (path === '/api/v1/chat/w1/message') {
+      if (!sessions.has(body!.sessionId as string)) {
+        return json({ error: { code: 'SESSION_EXPIRED', message: 'Session expired' } }, 404);
+      }
+      const content = `Echo: ${body!.message as string}`;
+      if (!body!.stream) return json({ sessionId: body!.sessionId, messageId: 'm1', content });
+      const events = [
+        { type: 'delta', data: { content: 'Echo: ' } },
+        { type: 'delta', data: { content: body!.message } },
+        { type: 'complete', data: { content } },
+      ];
+      const sse = events.map((e) => ({ ...e, phase: 'do', timestamp: 0, visibility: 'prominent' }));
+      return new Response(sse.map((e) => `data: ${JSON.stringify(e)}\n\n`).join(''), {
+        headers: { 'Content-Type': 'text/event-stream' },
+      });
+    }
+    const sessionPath = /^\/api\/v1\/chat\/w1\/session\/([^/]+)$/.exec(path);
+    if (sessionPath && sessions.has(sessionPath[1]!)) {
+      if (init.method === 'DELETE') {
+        sessions.delete(sessionPath[1]!);
+        return new Response(null, { status: 204 });
+      }
+      return json({ sessionId: sessionPath[1], messages: [{ role: 'user', content: 'hi' }] });
+    }
+    return json({ error: { code: 'NOT_FOUND', message: 'Not found' } }, 404);
+  });
+  return { fetchFn, sessions, calls };
+}
+
+function setup(storage = memoryStorage()) {
+  const server = widgetServer();
+  const widget = new AidenWidgetClient({
+    baseUrl: 'https://aiden.test/',
+    widgetId: 'w1',
+    storage,
+    fetch: server.fetchFn as typeof fetch,
+    headers: { Authorization: 'Bearer leaked', 'X-Shop': 'demo' },
+  });
+  return { widget, storage, ...server };
+}
+
+describe('AidenWidgetClient', () => {
+  it('creates one session, stores it and never sends Authorization', async () => {
+    const { widget, storage, calls } = setup();
+    const [a, b] = await Promise.all([widget.send('hi'), widget.send('there')]);
+
+    expect(a.data.content).toBe('Echo: hi');
+    expect(b.data.sessionId).toBe('ws_1');
+    expect(calls.filter((c) => c.path.endsWith('/session'))).toHaveLength(1);
+    expect(JSON.parse((await storage.getItem('aiden-widget:w1'))!)).toEqual({ sessionId: 'ws_1' });
+    for (const call of calls) {
+      expect(call.headers.has('authorization')).toBe(false);
+      expect(call.headers.get('x-shop')).toBe('demo');
+    }
+  });
+
+  it('streams replies', async () => {
+    const { widget, calls } = setup();
+    const stream = await widget.stream('hello');
+
+    await expect(stream.text()).resolves.toBe('Echo: hello');
+    expect(calls.at(-1)!.headers.get('accept')).toBe('text/event-stream');
+    expect(calls.at(-1)!.body).toMatchObject({ message: 'hello', sessionId: 'ws_1', stream: true });
+  });
+
+  it('recreates a session the server expired and replays the message once', async () => {
+    const storage = memoryStorage();
+    await storage.setItem('aiden-widget:w1', JSON.stringify({ sessionId: 'ws_old' }));
+    const { widget, calls } = setup(storage);
+
+    const reply = await widget.send('again');
+    expect(reply.data.sessionId).toBe('ws_1');
+    expect(calls.map((c) => `${c.method} ${c.path}`)).toEqual([
+      'POST /api/v1/chat/w1/message',
+      'POST /api/v1/chat/w1/session',
+      'POST /api/v1/chat/w1/message',
+    ]);
+  });
+
+  it('skips stored sessions past expiresAt and restores history of live ones', async () => {
+    const storage = memoryStorage();
+    await storage.setItem('aiden-widget:w1', JSON.stringify({ sessionId: 'ws_old', expiresAt: '2000-01-01T00:00:00Z' }));
+    const { widget, calls } = setup(storage);
+
+    expect(await widget.history()).toBeUndefined();
+    await widget.send('hi');
+    expect(calls[0]!.path).toBe('/api/v1/chat/w1/session');
+    expect((await widget.history())?.data.messages).toHaveLength(1);
+
+    await widget.reset();
+    expect(await storage.getItem('aiden-widget:w1')).toBeNull();
+    expect(calls.at(-1)!.method).toBe('DELETE');
+  });
+
+  it('does not replace a session created for the same call, and honors abort', async () => {
+    const { widget, sessions } = setup();
+    await widget.session();
+    sessions.clear();
+    await expect(widget.send('x')).resolves.toBeDefined();
+
+    const fresh = setup();
+    fresh.fetchFn.mockResolvedValueOnce(
+      new Response(JSON.stringify({ data: { sessionId: 'ghost' } }), { headers: { 'Content-Type': 'application/json' } }),
+    );
+    await expect(fresh.widget.send('x')).rejects.toBeInstanceOf(NotFoundError);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(widget.send('x', { signal: controller.signal })).rejects.toBeInstanceOf(AbortedError);
+  });
+
+  it('unlinks a reused caller signal once each call is over', async () => {
+    const { widget } = setup();
+    const { signal } = new AbortController();
+
+    await widget.send('hi', { signal });
+    await (await widget.stream('hello', { signal })).text();
+    await widget.history({ signal });
+    await widget.reset({ signal });
+    expect(getEventListeners(signal, 'abort')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AidenClient } from '../src/client';
+import { AidenError } from '../src/core/errors';
+import { DefaultRetryPolicy } from '../src/core/retry';
+import { createFakeAidenServer } from '../src/testing';
+
+function setup(cache?: { routes: Record<string, number> }) {
+  const server = createFakeAidenServer({ apiKey: 'k' });
+  const client = new AidenClient({
+    apiKey: 'k',
+    baseUrl: 'https://aiden.test',
+    fetch: server,
+    userId: 'service',
+    cache,
+  });
+  return { server, client };
+}
+
+describe('client.withOptions', () => {
+  it('scopes user and headers to the child client only', async () => {
+    const { server, client } = setup();
+    const alice = client.withOptions({ userId: 'alice', headers: { 'X-Tenant': 't1' } });
+    const bob = client.withOptions({ userId: 'bob' });
+
+    await Promise.all([alice.notebooks.list(), bob.notebooks.list(), client.notebooks.list()]);
+    await alice.notebooks.list({}, { headers: { 'X-Trace': '1' } });
+    await alice.notebooks.list({}, { userId: 'carol' });
+
+    const sent = server.requests.map((r) => [r.headers['x-user-id'], r.headers['x-tenant'], r.headers['x-trace']]);
+    expect(sent).toEqual([
+      ['alice', 't1', undefined],
+      ['bob', undefined, undefined],
+      ['service', undefined, undefined],
+      ['alice', 't1', '1'],
+      ['carol', 't1', undefined],
+    ]);
+  });
+
+  it('layers nested scopes', async () => {
+    const { server, client } = setup();
+    const child = client.withOptions({ userId: 'alice', headers: { 'X-A': '1' } }).withOptions({ headers: { 'X-B': '2' } });
+    await child.notebooks.list();
+    expect(server.requests[0]!.headers).toMatchObject({ 'x-user-id': 'alice', 'x-a': '1', 'x-b': '2' });
+  });
+
+  it('shares the cache and limiter with the parent', async () => {
+    const { server, client } = setup({ routes: { '/api/v1/notebooks': 60_000 } });
+    const child = client.withOptions({ userId: 'alice' });
+    expect(child.cache).toBe(client.cache);
+    expect(child.limiter).toBe(client.limiter);
+
+    await child.notebooks.list();
+    await child.notebooks.list();
+    await client.notebooks.list();
+    // The second child call is a cache hit; the parent sends a different X-User-ID.
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('applies the scoped signal, timeout and retry policy', async () => {
+    const fetchFn = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }),
+    );
+    const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: fetchFn as typeof fetch });
+
+    const controller = new AbortController();
+    const scoped = client.withOptions({ signal: controller.signal, retryPolicy: new DefaultRetryPolicy({ maxRetries: 0 }) });
+    const pending = scoped.notebooks.list();
+    await vi.waitFor(() => expect(fetchFn).toHaveBeenCalled());
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(AidenError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    const quick = client.withOptions({ timeout: 20, retryPolicy: new DefaultRetryPolicy({ maxRetries: 0 }) });
+    await expect(quick.notebooks.list()).rejects.toMatchObject({ timeoutMs: 20 });
+  });
+});
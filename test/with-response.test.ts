@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { AidenClient } from '../src/client';
+import { withResponse } from '../src/core/with-response';
+import { createFakeAidenServer } from '../src/testing';
+import type { ResponseInfo } from '../src/core/types';
+
+function setup(config: { cache?: { routes: Record<string, number> } } = {}) {
+  const server = createFakeAidenServer({ apiKey: 'k' });
+  const client = new AidenClient({ apiKey: 'k', baseUrl: 'https://aiden.test', fetch: server, ...config });
+  return { server, client };
+}
+
+describe('withResponse', () => {
+  it('returns the body with the response metadata', async () => {
+    const { client } = setup();
+    const { data: created } = await client.notebooks.create({ name: 'A' });
+
+    const result = await withResponse((o) => client.notebooks.get(created._id, o));
+    expect(result.data.data.name).toBe('A');
+    expect(result.requestId).toBe(result.data.meta.requestId);
+    expect(result.response.status).toBe(200);
+    expect(result.headers.get('content-type')).toContain('application/json');
+    expect(result.attempts).toBe(1);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('counts retries and works for paginated and plain calls', async () => {
+    const { server, client } = setup();
+    server.inject({ path: '/api/v1/notebooks', status: 503, times: 1 });
+
+    const page = await withResponse((o) => client.notebooks.list({}, o));
+    expect(page.attempts).toBe(2);
+    expect(Array.isArray(page.data.data)).toBe(true);
+
+    const plain = await withResponse((o) => client.openai.listModels(o));
+    expect(plain.response.status).toBe(200);
+    expect(plain.data).toMatchObject({ object: 'list' });
+  });
+
+  it('returns streams with their response before they are read', async () => {
+    const { client } = setup();
+    const { data: stream, response, headers } = await withResponse((o) => client.knowledge.think({ message: 'hi' }, o));
+    expect(response.status).toBe(200);
+    expect(headers.get('content-type')).toContain('text/event-stream');
+    await expect(stream.text()).resolves.toContain('hi');
+  });
+
+  it('reports cache hits and coalesced calls to every caller', async () => {
+    const { server, client } = setup({ cache: { routes: { '/api/v1/notebooks': 60_000 } } });
+    await client.notebooks.list();
+    const cached = await withResponse((o) => client.notebooks.list({}, o));
+    expect(cached.attempts).toBe(0);
+
+    const infos: ResponseInfo[] = [];
+    const onResponse = (info: ResponseInfo) => infos.push(info);
+    await Promise.all([client.skills.list(undefined, { onResponse }), client.skills.list(undefined, { onResponse })]);
+    expect(infos).toHaveLength(2);
+    expect(server.requests.filter((r) => r.path === '/api/v1/skills')).toHaveLength(1);
+  });
+});
@@ -1,7 +1,13 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    drift: 'src/drift/index.ts',
+    'drift-cli': 'src/drift/cli.ts',
+    testing: 'src/testing/index.ts',
+    widget: 'src/widget/index.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,